@@ -2,21 +2,52 @@
 import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs'
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import * as profilesDb from '@/lib/db/profiles'
+import { can, routePermission } from '@/lib/auth/permissions'
+import { NEXT_PARAM } from '@/lib/auth/redirect'
+import { LOCALE_COOKIE, isLocale, localizePath, matchLocale, splitLocale } from '@/lib/i18n/config'
 
 export async function middleware(req: NextRequest) {
+  const { locale, path } = splitLocale(req.nextUrl.pathname)
+
+  // Send unprefixed paths to the visitor's preferred locale
+  if (!locale) {
+    const cookieLocale = req.cookies.get(LOCALE_COOKIE)?.value
+    const preferred = isLocale(cookieLocale) ? cookieLocale : matchLocale(req.headers.get('accept-language'))
+    const url = req.nextUrl.clone()
+    url.pathname = localizePath(preferred, path)
+    return NextResponse.redirect(url)
+  }
+
   const res = NextResponse.next()
+  res.cookies.set(LOCALE_COOKIE, locale, { path: '/', maxAge: 60 * 60 * 24 * 365 })
+
+  // Reading the session refreshes an expired access token and writes the
+  // new cookies onto the response, so server components see a valid session
   const supabase = createMiddlewareClient({ req, res })
-  
   const { data: { session } } = await supabase.auth.getSession()
-  
-  // Protect admin routes
-  if (req.nextUrl.pathname.startsWith('/admin') && !session) {
-    return NextResponse.redirect(new URL('/login', req.url))
+
+  const rule = routePermission(path)
+  if (!rule) return res
+
+  if (!session) {
+    const login = new URL(localizePath(locale, '/login'), req.url)
+    login.searchParams.set(NEXT_PARAM, req.nextUrl.pathname + req.nextUrl.search)
+    return NextResponse.redirect(login)
+  }
+
+  if (rule.permission) {
+    const role = await profilesDb.getRole(supabase, session.user.id)
+
+    if (!can(role, rule.permission)) {
+      return NextResponse.redirect(new URL(localizePath(locale, '/dashboard'), req.url))
+    }
   }
   
   return res
 }
 
 export const config = {
-  matcher: ['/admin/:path*', '/dashboard/:path*']
-}
\ No newline at end of file
+  // Everything except API routes, Next internals and files with an extension
+  matcher: ['/((?!api|_next/static|_next/image|.*\\..*).*)']
+}
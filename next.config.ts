@@ -1,7 +1,20 @@
 import type { NextConfig } from "next";
 
+// Images uploaded to the media library are served from the public "media"
+// bucket of the Supabase project.
+const supabaseUrl = new URL(process.env.NEXT_PUBLIC_SUPABASE_URL ?? "http://localhost:54321");
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    remotePatterns: [
+      {
+        protocol: supabaseUrl.protocol === "http:" ? "http" : "https",
+        hostname: supabaseUrl.hostname,
+        port: supabaseUrl.port,
+        pathname: "/storage/v1/object/public/media/**",
+      },
+    ],
+  },
 };
 
 export default nextConfig;
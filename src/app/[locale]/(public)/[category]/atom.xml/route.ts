@@ -0,0 +1,12 @@
+import { isLocale } from '@/lib/i18n/config'
+import { feedResponse, getCategoryFeed } from '@/lib/seo/feeds'
+
+export const revalidate = 300
+
+export async function GET(_req: Request, { params }: { params: Promise<{ locale: string; category: string }> }) {
+  const { locale, category } = await params
+  const feed = isLocale(locale) ? await getCategoryFeed(locale, category, 'atom') : null
+  if (!feed) return new Response('Not found', { status: 404 })
+
+  return feedResponse(feed, 'atom')
+}
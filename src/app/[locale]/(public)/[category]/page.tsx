@@ -0,0 +1,64 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import ArticleCard from '@/components/public/ArticleCard'
+import { getCategoryArticles, getCategoryBySlug } from '@/lib/public-content'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+import { feedAlternates } from '@/lib/seo/feeds'
+import { localeAlternates } from '@/lib/seo/site'
+import { decodeSlugParam } from '@/lib/slug'
+
+export const revalidate = 60
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string; category: string }>
+}): Promise<Metadata> {
+  const { locale, category: slug } = await params as { locale: Locale; category: string }
+  const category = await getCategoryBySlug(decodeSlugParam(slug))
+  if (!category) return {}
+
+  // Categories are shared by both languages, each listing its own articles
+  const path = localizePath(locale, `/${category.slug}`)
+  return {
+    title: category.name,
+    description: category.description ?? undefined,
+    alternates: {
+      canonical: path,
+      languages: localeAlternates(`/${category.slug}`),
+      types: feedAlternates(path, getDictionary(locale))
+    }
+  }
+}
+
+export default async function CategoryPage({
+  params,
+}: {
+  params: Promise<{ locale: string; category: string }>
+}) {
+  const { locale, category: slug } = await params as { locale: Locale; category: string }
+  const t = getDictionary(locale)
+  const category = await getCategoryBySlug(decodeSlugParam(slug))
+  if (!category) notFound()
+
+  const articles = await getCategoryArticles(category.id, locale)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">{category.name}</h1>
+        {category.description && <p className="mt-2 text-gray-600">{category.description}</p>}
+      </div>
+      {articles.length === 0 ? (
+        <p className="text-gray-500">{t.site.noCategoryArticles}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {articles.map((article) => (
+            <ArticleCard key={article.id} locale={locale} article={article} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { getApprovedComments, getArticleTranslation, getPublishedArticle } from '@/lib/public-content'
+import ArticleContent from '@/components/content/ArticleContent'
+import FeaturedImage from '@/components/media/FeaturedImage'
+import CommentSection from '@/components/comments/CommentSection'
+import ArticleViewTracker from '@/components/analytics/ArticleViewTracker'
+import ShareButtons from '@/components/analytics/ShareButtons'
+import { localeDirection, localizePath, type Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+import { articlePath } from '@/lib/seo/site'
+import { newsArticleJsonLd, serializeJsonLd } from '@/lib/seo/structured-data'
+import { decodeSlugParam } from '@/lib/slug'
+
+export const revalidate = 60
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string; slug: string }>
+}): Promise<Metadata> {
+  const { slug } = await params
+  const article = await getPublishedArticle(decodeSlugParam(slug))
+  if (!article) return {}
+
+  const t = getDictionary(article.language)
+  const translation = await getArticleTranslation(article)
+  const path = articlePath(article)
+  const description = article.excerpt ?? undefined
+  const images = article.featured_image
+    ? [{ url: article.featured_image, alt: article.featured_media?.alt_text ?? article.title }]
+    : undefined
+
+  return {
+    title: article.title,
+    description,
+    alternates: {
+      canonical: path,
+      languages: {
+        [article.language]: path,
+        ...(translation && { [translation.language]: articlePath(translation) })
+      }
+    },
+    openGraph: {
+      type: 'article',
+      url: path,
+      siteName: t.common.siteName,
+      title: article.title,
+      description,
+      locale: article.language,
+      alternateLocale: translation ? [translation.language] : undefined,
+      publishedTime: article.published_at ?? undefined,
+      modifiedTime: article.updated_at,
+      authors: [article.profiles?.full_name || t.site.staff],
+      section: article.categories?.name,
+      tags: article.article_tags.map(({ tags }) => tags.name),
+      images
+    },
+    twitter: {
+      card: images ? 'summary_large_image' : 'summary',
+      title: article.title,
+      description,
+      images
+    }
+  }
+}
+
+export default async function ArticlePage({
+  params,
+}: {
+  params: Promise<{ locale: string; slug: string }>
+}) {
+  const { locale, slug } = await params as { locale: Locale; slug: string }
+  const article = await getPublishedArticle(decodeSlugParam(slug))
+  if (!article) notFound()
+
+  // Articles live under the locale of their own language
+  if (article.language !== locale) {
+    redirect(articlePath(article))
+  }
+
+  const t = getDictionary(locale)
+  const [translation, comments] = await Promise.all([
+    getArticleTranslation(article),
+    getApprovedComments(article.id)
+  ])
+  const tags = article.article_tags.map(({ tags }) => tags)
+
+  return (
+    <div className="space-y-8">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(newsArticleJsonLd(article, t)) }}
+      />
+      <ArticleViewTracker articleId={article.id} />
+      <article
+        lang={article.language}
+        dir={localeDirection(article.language)}
+        className="bg-white rounded-lg shadow-md overflow-hidden"
+      >
+        {article.featured_image && (
+          <figure>
+            <FeaturedImage
+              src={article.featured_image}
+              alt={article.featured_media?.alt_text ?? null}
+              sizes="(min-width: 1024px) 64rem, 100vw"
+              className="w-full aspect-[16/9] max-h-[28rem]"
+              priority
+            />
+            {article.featured_media?.caption && (
+              <figcaption className="px-6 sm:px-10 pt-2 text-sm text-gray-500">{article.featured_media.caption}</figcaption>
+            )}
+          </figure>
+        )}
+        <div className="p-6 sm:p-10 space-y-6">
+          <header className="space-y-2">
+            {article.categories && (
+              <Link
+                href={localizePath(locale, `/${article.categories.slug}`)}
+                className="text-sm font-semibold uppercase tracking-wide text-blue-600 hover:text-blue-500"
+              >
+                {article.categories.name}
+              </Link>
+            )}
+            <h1 className="text-4xl font-bold text-gray-900">{article.title}</h1>
+            <div className="flex items-center gap-3 text-sm text-gray-500">
+              {article.profiles?.avatar_url && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={article.profiles.avatar_url} alt="" className="h-8 w-8 rounded-full object-cover" />
+              )}
+              <Link href={localizePath(locale, `/authors/${article.author_id}`)} className="hover:text-gray-700 hover:underline">
+                {article.profiles?.full_name || t.site.staff}
+              </Link>
+              {article.published_at && (
+                <time dateTime={article.published_at}>
+                  {new Date(article.published_at).toLocaleDateString(locale)}
+                </time>
+              )}
+            </div>
+            {translation && (
+              <Link
+                href={articlePath(translation)}
+                hrefLang={translation.language}
+                lang={translation.language}
+                className="inline-block text-sm font-medium text-blue-600 hover:text-blue-500"
+              >
+                {t.site.readTranslation}
+              </Link>
+            )}
+          </header>
+
+          {article.excerpt && <p className="text-lg text-gray-700">{article.excerpt}</p>}
+
+          <ArticleContent content={article.content} />
+
+          <ShareButtons articleId={article.id} title={article.title} />
+
+          {tags.length > 0 && (
+            <ul className="flex flex-wrap gap-2 pt-4 border-t border-gray-200">
+              {tags.map((tag) => (
+                <li key={tag.id}>
+                  <Link
+                    href={localizePath(locale, `/tags/${tag.slug}`)}
+                    className="inline-block bg-gray-100 text-gray-700 text-sm px-3 py-1 rounded-full hover:bg-gray-200"
+                  >
+                    {tag.name}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </article>
+
+      <div className="bg-white rounded-lg shadow-md p-6 sm:p-10">
+        <CommentSection articleId={article.id} comments={comments} />
+      </div>
+    </div>
+  )
+}
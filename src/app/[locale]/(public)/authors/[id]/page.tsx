@@ -0,0 +1,47 @@
+import { notFound } from 'next/navigation'
+import ArticleCard from '@/components/public/ArticleCard'
+import { getAuthor, getAuthorArticles } from '@/lib/public-content'
+import type { Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+
+export const revalidate = 60
+
+export default async function AuthorPage({
+  params,
+}: {
+  params: Promise<{ locale: string; id: string }>
+}) {
+  const { locale, id } = await params as { locale: Locale; id: string }
+  const t = getDictionary(locale)
+  const author = await getAuthor(id)
+  if (!author) notFound()
+
+  const articles = await getAuthorArticles(author.id, locale)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        {author.avatar_url && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={author.avatar_url} alt="" className="h-20 w-20 rounded-full object-cover" />
+        )}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{author.full_name || t.site.staff}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {t.site.writingSince} {new Date(author.created_at).toLocaleDateString(locale, { year: 'numeric', month: 'long' })}
+          </p>
+        </div>
+      </div>
+      <h2 className="text-xl font-semibold text-gray-900">{t.site.authorArticles}</h2>
+      {articles.length === 0 ? (
+        <p className="text-gray-500">{t.site.noAuthorArticles}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {articles.map((article) => (
+            <ArticleCard key={article.id} locale={locale} article={article} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
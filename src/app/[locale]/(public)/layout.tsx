@@ -0,0 +1,24 @@
+import SiteHeader from '@/components/public/SiteHeader'
+import { getPublicCategories } from '@/lib/public-content'
+import type { Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+
+export default async function PublicLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode
+  params: Promise<{ locale: string }>
+}>) {
+  const locale = (await params).locale as Locale
+  const categories = await getPublicCategories()
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SiteHeader locale={locale} t={getDictionary(locale)} categories={categories} />
+      <main className="max-w-5xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+        {children}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import type { Metadata } from 'next'
+import ArticleCard from '@/components/public/ArticleCard'
+import { getLatestArticles } from '@/lib/public-content'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+import { feedAlternates } from '@/lib/seo/feeds'
+import { localeAlternates } from '@/lib/seo/site'
+
+export const revalidate = 60
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}): Promise<Metadata> {
+  const locale = (await params).locale as Locale
+  const path = localizePath(locale, '/')
+
+  return {
+    alternates: {
+      canonical: path,
+      languages: localeAlternates('/'),
+      types: feedAlternates(path, getDictionary(locale))
+    }
+  }
+}
+
+export default async function HomePage({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const locale = (await params).locale as Locale
+  const t = getDictionary(locale)
+  const articles = await getLatestArticles(locale)
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">{t.site.latestArticles}</h1>
+      {articles.length === 0 ? (
+        <p className="text-gray-500">{t.site.noArticles}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {articles.map((article) => (
+            <ArticleCard key={article.id} locale={locale} article={article} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import SearchFilters from '@/components/search/SearchFilters'
+import SearchResults from '@/components/search/SearchResults'
+import { getPublicCategories, searchPublishedArticles } from '@/lib/public-content'
+import { parseSearchParams, toArticleSearch, type SearchParams } from '@/lib/search/params'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+
+export default async function SearchPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<SearchParams>
+}) {
+  const { locale } = await params as { locale: Locale }
+  // Status is not a public filter
+  const filters = { ...parseSearchParams(await searchParams), status: undefined }
+  const t = getDictionary(locale)
+  const action = localizePath(locale, '/search')
+
+  const [categories, { results, total }] = await Promise.all([
+    getPublicCategories(),
+    searchPublishedArticles(toArticleSearch(filters))
+  ])
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">{t.search.title}</h1>
+      <SearchFilters t={t} action={action} filters={filters} categories={categories} />
+      <SearchResults
+        t={t}
+        locale={locale}
+        action={action}
+        filters={filters}
+        results={results}
+        total={total}
+        variant="public"
+      />
+    </div>
+  )
+}
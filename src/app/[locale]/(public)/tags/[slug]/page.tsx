@@ -0,0 +1,39 @@
+import { notFound } from 'next/navigation'
+import ArticleCard from '@/components/public/ArticleCard'
+import { getTagArticles, getTagBySlug } from '@/lib/public-content'
+import type { Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+import { decodeSlugParam } from '@/lib/slug'
+
+export const revalidate = 60
+
+export default async function TagPage({
+  params,
+}: {
+  params: Promise<{ locale: string; slug: string }>
+}) {
+  const { locale, slug } = await params as { locale: Locale; slug: string }
+  const t = getDictionary(locale)
+  const tag = await getTagBySlug(decodeSlugParam(slug))
+  if (!tag) notFound()
+
+  const articles = await getTagArticles(tag.id, locale)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-sm font-semibold uppercase tracking-wide text-gray-500">{t.tags.taggedWith}</p>
+        <h1 className="text-3xl font-bold text-gray-900">#{tag.name}</h1>
+      </div>
+      {articles.length === 0 ? (
+        <p className="text-gray-500">{t.tags.noArticles}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {articles.map((article) => (
+            <ArticleCard key={article.id} locale={locale} article={article} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
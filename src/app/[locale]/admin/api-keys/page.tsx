@@ -0,0 +1,5 @@
+import ApiKeyManager from '@/components/api/ApiKeyManager'
+
+export default function ApiKeysAdminPage() {
+  return <ApiKeyManager />
+}
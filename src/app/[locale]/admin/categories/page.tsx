@@ -0,0 +1,5 @@
+import CategoryManager from '@/components/categories/CategoryManager'
+
+export default function CategoriesAdminPage() {
+  return <CategoryManager />
+}
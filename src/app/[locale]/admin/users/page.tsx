@@ -0,0 +1,53 @@
+import { redirect } from 'next/navigation'
+import { z } from 'zod'
+import UserManager from '@/components/users/UserManager'
+import { getActor } from '@/lib/auth/actor'
+import * as profilesDb from '@/lib/db/profiles'
+import * as roleChangesDb from '@/lib/db/role-changes'
+import { loadClampedPage } from '@/lib/db/result'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+const PAGE_SIZE = 20
+
+// A repeated or malformed parameter falls back to its default rather
+// than failing the page.
+const paramsSchema = z.object({
+  q: z.string().trim().catch(''),
+  page: z.coerce.number().int().min(1).catch(1)
+})
+
+export default async function UsersAdminPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const { locale } = await params as { locale: Locale }
+  const { q, page: requestedPage } = paramsSchema.parse({ q: '', page: '1', ...await searchParams })
+
+  const actor = await getActor(createServerSupabase())
+  if (!actor) redirect(localizePath(locale, '/login'))
+
+  const [{ page, result: users }, changes] = await Promise.all([
+    loadClampedPage(requestedPage, PAGE_SIZE, (page) =>
+      profilesDb.search(actor.supabase, { query: q, page, pageSize: PAGE_SIZE })
+    ),
+    roleChangesDb.listRecent(actor.supabase)
+  ])
+  if (users.error) throw new Error(users.error.message)
+  if (changes.error) throw new Error(changes.error.message)
+
+  return (
+    <UserManager
+      profiles={users.data.profiles}
+      total={users.data.total}
+      page={page}
+      pageSize={PAGE_SIZE}
+      query={q}
+      changes={changes.data}
+      currentUserId={actor.user.id}
+    />
+  )
+}
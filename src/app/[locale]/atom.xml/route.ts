@@ -0,0 +1,11 @@
+import { isLocale } from '@/lib/i18n/config'
+import { feedResponse, getLanguageFeed } from '@/lib/seo/feeds'
+
+export const revalidate = 300
+
+export async function GET(_req: Request, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params
+  if (!isLocale(locale)) return new Response('Not found', { status: 404 })
+
+  return feedResponse(await getLanguageFeed(locale, 'atom'), 'atom')
+}
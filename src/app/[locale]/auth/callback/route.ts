@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { NEXT_PARAM, safeNextPath } from '@/lib/auth/redirect'
+import { defaultLocale, isLocale, localizePath } from '@/lib/i18n/config'
+import { createRouteSupabase } from '@/lib/supabase/server'
+
+// Landing point for links in Supabase emails (sign-up confirmation, magic
+// link, password reset). Exchanges the one-time code for a session cookie
+// and continues to the page the link was issued for.
+export async function GET(req: NextRequest, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale: segment } = await params
+  const locale = isLocale(segment) ? segment : defaultLocale
+  const { searchParams } = req.nextUrl
+
+  const next = safeNextPath(searchParams.get(NEXT_PARAM), localizePath(locale, '/dashboard'))
+  const code = searchParams.get('code')
+  let failure = searchParams.get('error_description')
+
+  if (code) {
+    const { error } = await createRouteSupabase().auth.exchangeCodeForSession(code)
+    if (!error) return NextResponse.redirect(new URL(next, req.url))
+    failure = error.message
+  }
+
+  const login = new URL(localizePath(locale, '/login'), req.url)
+  login.searchParams.set('error', failure ?? 'The sign-in link is missing its code')
+  login.searchParams.set(NEXT_PARAM, next)
+  return NextResponse.redirect(login)
+}
@@ -0,0 +1,23 @@
+import { notFound, redirect } from 'next/navigation'
+import ArticleEditor from '@/components/articles/ArticleEditor'
+import { getActor } from '@/lib/auth/actor'
+import { loadEditorData } from '@/lib/articles/editor-data'
+import { NO_ROWS } from '@/lib/db/result'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+export default async function EditArticlePage({
+  params,
+}: {
+  params: Promise<{ locale: string; id: string }>
+}) {
+  const { locale, id } = await params as { locale: Locale; id: string }
+  const actor = await getActor(createServerSupabase())
+  if (!actor) redirect(localizePath(locale, '/login'))
+
+  const { data, error } = await loadEditorData(actor.supabase, actor.role, id)
+  if (error?.code === NO_ROWS) notFound()
+  if (error) throw new Error(error.message)
+
+  return <ArticleEditor articleId={id} initialData={data} />
+}
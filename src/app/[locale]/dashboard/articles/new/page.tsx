@@ -0,0 +1,21 @@
+import { redirect } from 'next/navigation'
+import ArticleEditor from '@/components/articles/ArticleEditor'
+import { getActor } from '@/lib/auth/actor'
+import { loadEditorData } from '@/lib/articles/editor-data'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+export default async function NewArticlePage({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params as { locale: Locale }
+  const actor = await getActor(createServerSupabase())
+  if (!actor) redirect(localizePath(locale, '/login'))
+
+  const { data, error } = await loadEditorData(actor.supabase, actor.role)
+  if (error) throw new Error(error.message)
+
+  return <ArticleEditor initialData={data} />
+}
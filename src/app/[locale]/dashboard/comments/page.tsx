@@ -0,0 +1,5 @@
+import ModerationQueue from '@/components/comments/ModerationQueue'
+
+export default function CommentModerationPage() {
+  return <ModerationQueue />
+}
@@ -0,0 +1,10 @@
+import ArticleStatusToasts from '@/components/realtime/ArticleStatusToasts'
+
+export default function DashboardLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return (
+    <>
+      {children}
+      <ArticleStatusToasts />
+    </>
+  )
+}
@@ -0,0 +1,5 @@
+import MediaManager from '@/components/media/MediaManager'
+
+export default function MediaPage() {
+  return <MediaManager />
+}
@@ -0,0 +1,21 @@
+import { redirect } from 'next/navigation'
+import NotificationPreferences from '@/components/notifications/NotificationPreferences'
+import { getActor } from '@/lib/auth/actor'
+import * as notificationsDb from '@/lib/db/notifications'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+export default async function NotificationSettingsPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params as { locale: Locale }
+  const actor = await getActor(createServerSupabase())
+  if (!actor) redirect(localizePath(locale, '/login'))
+
+  const { data, error } = await notificationsDb.listPreferences(actor.supabase, actor.user.id)
+  if (error) throw new Error(error.message)
+
+  return <NotificationPreferences role={actor.role} preferences={data} />
+}
@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { loadDashboardData } from '@/lib/dashboard/data'
+import { parseDashboardParams, type DashboardParams } from '@/lib/dashboard/query'
+import Dashboard from '@/components/dashboard/Dashboard'
+
+export default async function DashboardPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<DashboardParams>
+}) {
+  const { locale } = await params as { locale: Locale }
+  const query = parseDashboardParams(await searchParams)
+  const supabase = createServerSupabase()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect(localizePath(locale, '/login'))
+
+  const data = await loadDashboardData(supabase, user, query)
+
+  return <Dashboard initialUser={user} data={data} query={query} />
+}
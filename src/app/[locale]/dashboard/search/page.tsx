@@ -0,0 +1,58 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import SearchFilters from '@/components/search/SearchFilters'
+import SearchResults from '@/components/search/SearchResults'
+import { getActor } from '@/lib/auth/actor'
+import * as categoriesDb from '@/lib/db/categories'
+import * as searchDb from '@/lib/db/search'
+import { parseSearchParams, toArticleSearch, type SearchParams } from '@/lib/search/params'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+export default async function DashboardSearchPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<SearchParams>
+}) {
+  const { locale } = await params as { locale: Locale }
+  const filters = parseSearchParams(await searchParams)
+  const t = getDictionary(locale)
+  const action = localizePath(locale, '/dashboard/search')
+
+  const actor = await getActor(createServerSupabase())
+  if (!actor) redirect(localizePath(locale, '/login'))
+
+  const [categories, search] = await Promise.all([
+    categoriesDb.list(actor.supabase),
+    filters.q
+      ? searchDb.searchArticles(actor.supabase, toArticleSearch(filters))
+      : Promise.resolve({ data: { results: [], total: 0 }, error: null })
+  ])
+  if (categories.error) throw new Error(categories.error.message)
+  if (search.error) throw new Error(search.error.message)
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={localizePath(locale, '/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.search.title}</h1>
+        </div>
+
+        <SearchFilters t={t} action={action} filters={filters} categories={categories.data} showStatus />
+        <SearchResults
+          t={t}
+          locale={locale}
+          action={action}
+          filters={filters}
+          results={search.data.results}
+          total={search.data.total}
+          variant="dashboard"
+        />
+      </div>
+    </div>
+  )
+}
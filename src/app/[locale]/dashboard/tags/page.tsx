@@ -0,0 +1,5 @@
+import TagManager from '@/components/tags/TagManager'
+
+export default function TagsPage() {
+  return <TagManager />
+}
@@ -0,0 +1,77 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Geist, Geist_Mono, Noto_Sans_Arabic } from "next/font/google";
+import { I18nProvider } from "@/components/i18n/I18nProvider";
+import { isLocale, localeDirection, localizePath, locales } from "@/lib/i18n/config";
+import { getDictionary } from "@/lib/i18n/dictionaries";
+import { feedAlternates } from "@/lib/seo/feeds";
+import { siteUrl } from "@/lib/seo/site";
+import "../globals.css";
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+const notoSansArabic = Noto_Sans_Arabic({
+  variable: "--font-arabic",
+  subsets: ["arabic"],
+});
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const t = getDictionary(locale);
+  return {
+    metadataBase: new URL(siteUrl()),
+    title: {
+      default: t.common.siteName,
+      template: `%s | ${t.common.siteName}`,
+    },
+    description: t.site.description,
+    alternates: {
+      types: feedAlternates(localizePath(locale, "/"), t),
+    },
+    openGraph: {
+      siteName: t.common.siteName,
+      locale,
+    },
+  };
+}
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale} dir={localeDirection(locale)}>
+      <body
+        className={`${geistSans.variable} ${geistMono.variable} ${notoSansArabic.variable} antialiased`}
+      >
+        <I18nProvider locale={locale} dictionary={getDictionary(locale)}>
+          {children}
+        </I18nProvider>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation'
+import AuthModal from '@/components/auth/AuthModal'
+import { safeNextPath } from '@/lib/auth/redirect'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+export default async function LoginPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<{ next?: string; error?: string }>
+}) {
+  const { locale } = await params as { locale: Locale }
+  const { next, error } = await searchParams
+  const destination = safeNextPath(next, localizePath(locale, '/dashboard'))
+
+  // Already signed in: carry on to where the visitor was going
+  const { data: { user } } = await createServerSupabase().auth.getUser()
+  if (user) redirect(destination)
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-md">
+        <AuthModal next={destination} initialError={error ?? null} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import ResetPasswordForm from '@/components/auth/ResetPasswordForm'
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-md">
+        <ResetPasswordForm />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import Link from 'next/link'
+import UpdatePasswordForm from '@/components/auth/UpdatePasswordForm'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+import { createServerSupabase } from '@/lib/supabase/server'
+
+export default async function UpdatePasswordPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params as { locale: Locale }
+  const t = getDictionary(locale)
+
+  // The reset link signs the user in through the auth callback; without a
+  // session the link was invalid or has expired
+  const { data: { user } } = await createServerSupabase().auth.getUser()
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-md">
+        {user ? (
+          <UpdatePasswordForm />
+        ) : (
+          <div className="p-8 text-center space-y-4">
+            <p className="text-gray-700">{t.auth.resetLinkExpired}</p>
+            <Link href={localizePath(locale, '/reset-password')} className="inline-block text-blue-600 hover:text-blue-500">
+              {t.auth.requestNewLink}
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
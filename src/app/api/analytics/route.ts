@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createServiceSupabase } from '@/lib/supabase/service'
+import * as analyticsDb from '@/lib/db/analytics'
+import { ANALYTICS_SESSION_COOKIE, type AnalyticsEvent } from '@/lib/analytics/events'
+import { readAnalyticsSession } from '@/lib/analytics/session'
+
+const EVENTS: AnalyticsEvent[] = ['view', 'share']
+
+const payloadSchema = z.object({
+  articleId: z.uuid('articleId must be a UUID'),
+  event: z.enum(EVENTS, `event must be one of ${EVENTS.join(', ')}`)
+}, 'The body must be a JSON object')
+
+// record_article_event is only callable with the service role, so views
+// and shares are counted once per session here and nowhere else.
+export async function POST(req: NextRequest) {
+  const secret = process.env.SUPABASE_SERVICE_ROLE_KEY
+  const supabase = createServiceSupabase()
+  if (!secret || !supabase) {
+    return NextResponse.json({ error: 'Analytics are not configured' }, { status: 503 })
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const parsed = payloadSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues.map((issue) => issue.message).join('; ') }, { status: 400 })
+  }
+  const { articleId, event } = parsed.data
+
+  // A browser-session cookie identifies repeat events without tracking users
+  const session = readAnalyticsSession(req, secret)
+
+  const { data: counted, error } = await analyticsDb.recordEvent(supabase, articleId, event, session.id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const res = NextResponse.json({ counted })
+  if (session.cookie) {
+    res.cookies.set(ANALYTICS_SESSION_COOKIE, session.cookie, { httpOnly: true, sameSite: 'lax', path: '/' })
+  }
+  return res
+}
@@ -0,0 +1,43 @@
+import { timingSafeEqual } from 'node:crypto'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { createServiceSupabase } from '@/lib/supabase/service'
+import * as articlesDb from '@/lib/db/articles'
+import { deliverPendingEmails } from '@/lib/notifications/delivery'
+
+function isAuthorized(req: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(req.headers.get('authorization') ?? '')
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+// Publishes and archives due articles, then sends notification emails that
+// are still pending. Scheduling is only as precise as the caller, so run
+// this every minute from a cron job or, locally, a timer:
+//   while true; do curl -s -X POST -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/scheduler; sleep 60; done
+async function runScheduler(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  const supabase = createServiceSupabase()
+  if (!secret || !supabase) {
+    return NextResponse.json({ error: 'The scheduler is not configured' }, { status: 503 })
+  }
+  if (!isAuthorized(req, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data, error } = await articlesDb.runSchedule(supabase)
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  try {
+    const emails = await deliverPendingEmails(supabase)
+    return NextResponse.json({ ...data, emails })
+  } catch (err) {
+    return NextResponse.json({ ...data, error: err instanceof Error ? err.message : 'Email delivery failed' }, { status: 500 })
+  }
+}
+
+// Hosted crons usually send GET; POST suits curl and local timers.
+export const GET = runScheduler
+export const POST = runScheduler
@@ -0,0 +1,24 @@
+import type { NextRequest } from 'next/server'
+import { publicSupabase } from '@/lib/supabase/public'
+import * as articlesDb from '@/lib/db/articles'
+import { slugSchema } from '@/lib/db/schemas'
+import { apiError, apiJson, authenticateApiRequest } from '@/lib/api/http'
+import { toApiArticle } from '@/lib/api/serialize'
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { headers, response } = await authenticateApiRequest(req)
+  if (response) return response
+
+  // Params arrive decoded; a malformed slug cannot name an article
+  const slug = slugSchema.safeParse((await params).slug)
+  if (!slug.success) return apiError(404, 'Article not found', headers)
+
+  const { data: article, error } = await articlesDb.getPublishedBySlug(publicSupabase, slug.data)
+  if (error) return apiError(500, error.message, headers)
+  if (!article) return apiError(404, 'Article not found', headers)
+
+  const translation = await articlesDb.getPublishedTranslation(publicSupabase, article)
+  if (translation.error) return apiError(500, translation.error.message, headers)
+
+  return apiJson(req, { data: toApiArticle(article, translation.data) }, headers)
+}
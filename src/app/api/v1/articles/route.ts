@@ -0,0 +1,39 @@
+import type { NextRequest } from 'next/server'
+import { publicSupabase } from '@/lib/supabase/public'
+import * as articlesDb from '@/lib/db/articles'
+import * as categoriesDb from '@/lib/db/categories'
+import { apiError, apiJson, authenticateApiRequest } from '@/lib/api/http'
+import { encodeCursor, parseArticleListParams } from '@/lib/api/params'
+import { toApiArticleSummary } from '@/lib/api/serialize'
+
+// Published articles, newest first. Pass next_cursor back as ?cursor= for
+// the following page; it is null on the last page.
+export async function GET(req: NextRequest) {
+  const { headers, response } = await authenticateApiRequest(req)
+  if (response) return response
+
+  const { params, error: invalidParams } = parseArticleListParams(req.nextUrl.searchParams)
+  if (!params) return apiError(400, invalidParams, headers)
+
+  let categoryId: string | undefined
+  if (params.category) {
+    const { data: category, error } = await categoriesDb.getBySlug(publicSupabase, params.category)
+    if (error) return apiError(500, error.message, headers)
+    if (!category) return apiError(400, `Unknown category "${params.category}"`, headers)
+    categoryId = category.id
+  }
+
+  const { data, error } = await articlesDb.listPublishedPage(publicSupabase, {
+    language: params.language,
+    categoryId,
+    after: params.cursor,
+    limit: params.limit
+  })
+  if (error) return apiError(500, error.message, headers)
+
+  const last = data.items[data.items.length - 1]
+  return apiJson(req, {
+    data: data.items.map(toApiArticleSummary),
+    next_cursor: data.hasMore && last ? encodeCursor(last) : null
+  }, headers)
+}
@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server'
+import { publicSupabase } from '@/lib/supabase/public'
+import * as categoriesDb from '@/lib/db/categories'
+import { apiError, apiJson, authenticateApiRequest } from '@/lib/api/http'
+import { toApiCategory } from '@/lib/api/serialize'
+
+export async function GET(req: NextRequest) {
+  const { headers, response } = await authenticateApiRequest(req)
+  if (response) return response
+
+  const { data, error } = await categoriesDb.list(publicSupabase)
+  if (error) return apiError(500, error.message, headers)
+
+  return apiJson(req, { data: data.map(toApiCategory) }, headers)
+}
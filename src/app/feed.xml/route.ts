@@ -0,0 +1,7 @@
+import { feedResponse, getSiteFeed } from '@/lib/seo/feeds'
+
+export const revalidate = 300
+
+export async function GET() {
+  return feedResponse(await getSiteFeed('rss'), 'rss')
+}
@@ -0,0 +1,14 @@
+import type { MetadataRoute } from 'next'
+import { absoluteUrl } from '@/lib/seo/site'
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      // Sign-in, staff and search result pages have nothing to index
+      disallow: ['/api/', '/*/dashboard', '/*/admin', '/*/login', '/*/auth', '/*/reset-password', '/*/update-password', '/*/search']
+    },
+    sitemap: absoluteUrl('/sitemap.xml')
+  }
+}
@@ -0,0 +1,39 @@
+import type { MetadataRoute } from 'next'
+import { getPublicCategories, getSitemapArticles } from '@/lib/public-content'
+import { localizePath, locales } from '@/lib/i18n/config'
+import type { SitemapArticle } from '@/lib/db/articles'
+import { absoluteUrl, articlePath, localeAlternates } from '@/lib/seo/site'
+
+export const revalidate = 3600
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [categories, articles] = await Promise.all([getPublicCategories(), getSitemapArticles()])
+
+  // Home and category pages exist in every locale
+  const pages = ['/', ...categories.map((category) => `/${category.slug}`)].flatMap((path) =>
+    locales.map((locale) => ({
+      url: absoluteUrl(localizePath(locale, path)),
+      changeFrequency: 'hourly' as const,
+      alternates: { languages: localeAlternates(path) }
+    }))
+  )
+
+  // Articles link to their published translation, if there is one
+  const groups = new Map<string, SitemapArticle[]>()
+  for (const article of articles) {
+    groups.set(article.translation_group_id, [...(groups.get(article.translation_group_id) ?? []), article])
+  }
+
+  return [
+    ...pages,
+    ...articles.map((article) => ({
+      url: absoluteUrl(articlePath(article)),
+      lastModified: article.updated_at,
+      alternates: {
+        languages: Object.fromEntries(
+          (groups.get(article.translation_group_id) ?? []).map((version) => [version.language, absoluteUrl(articlePath(version))])
+        )
+      }
+    }))
+  ]
+}
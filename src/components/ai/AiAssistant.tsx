@@ -0,0 +1,118 @@
+// components/ai/AiAssistant.tsx
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Sparkles } from 'lucide-react'
+import type { ArticleStatus, Language } from '@/lib/db/types'
+import { generateArticleDraft, summarizeArticle, translateArticleToArabic } from '@/lib/ai/actions'
+import { actionErrorMessage, type ActionResult } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface AiAssistantProps {
+  // Unsaved articles can only start from a generated draft
+  articleId?: string
+  language: Language
+  status: ArticleStatus
+  onSummarized: (excerpt: string) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const buttonClassName = 'bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 disabled:opacity-50'
+
+export default function AiAssistant({ articleId, language, status, onSummarized }: AiAssistantProps) {
+  const router = useRouter()
+  const { t, href } = useI18n()
+  const [topic, setTopic] = useState('')
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  // Runs an AI action that creates an article, then opens it in the editor
+  const run = async (action: () => Promise<ActionResult<{ id: string }>>) => {
+    setWorking(true)
+    setError(null)
+    setMessage('')
+
+    const { data, error } = await action()
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+      setWorking(false)
+    } else {
+      router.push(href(`/dashboard/articles/${data.id}/edit`))
+    }
+  }
+
+  const handleSummarize = async () => {
+    if (!articleId) return
+    setWorking(true)
+    setError(null)
+    setMessage('')
+
+    const { data, error } = await summarizeArticle(articleId)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      onSummarized(data.excerpt)
+      setMessage(t.ai.summarized)
+    }
+
+    setWorking(false)
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <h2 className="flex items-center gap-2 font-semibold text-gray-900">
+        <Sparkles className="h-4 w-4 text-purple-600" aria-hidden />
+        {t.ai.assistant}
+      </h2>
+
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {!articleId ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            run(() => generateArticleDraft(topic, language))
+          }}
+          className="space-y-2"
+        >
+          <label htmlFor="ai-topic" className="block text-sm font-medium text-gray-700">{t.ai.topic}</label>
+          <textarea
+            id="ai-topic"
+            rows={2}
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder={t.ai.topicPlaceholder}
+            className={inputClassName}
+          />
+          <button type="submit" disabled={working || !topic.trim()} className={buttonClassName}>
+            {working ? t.ai.working : t.ai.generateDraft}
+          </button>
+        </form>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {status === 'draft' && (
+              <button type="button" onClick={handleSummarize} disabled={working} className={buttonClassName}>
+                {working ? t.ai.working : t.ai.summarize}
+              </button>
+            )}
+            {language === 'en' && (
+              <button
+                type="button"
+                onClick={() => run(() => translateArticleToArabic(articleId))}
+                disabled={working}
+                className={buttonClassName}
+              >
+                {working ? t.ai.working : t.ai.translateToArabic}
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">{status === 'draft' ? t.ai.summarizeHint : t.ai.draftsOnly}</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+// components/ai/AiBadge.tsx
+'use client'
+
+import { Sparkles } from 'lucide-react'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface AiBadgeProps {
+  reviewed?: boolean
+}
+
+export default function AiBadge({ reviewed = false }: AiBadgeProps) {
+  const { t } = useI18n()
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+        reviewed ? 'bg-purple-50 text-purple-700' : 'bg-amber-100 text-amber-800'
+      }`}
+    >
+      <Sparkles className="h-3 w-3" aria-hidden />
+      {t.ai.badge}
+      {reviewed && ` · ${t.ai.reviewed}`}
+    </span>
+  )
+}
@@ -0,0 +1,193 @@
+// components/analytics/AnalyticsDashboard.tsx
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase/client'
+import * as analyticsDb from '@/lib/db/analytics'
+import {
+  dailySeries,
+  defaultRange,
+  type ArticleTotals,
+  type CategoryTotals,
+  type DailyPoint,
+  type RangeTotals
+} from '@/lib/analytics/aggregate'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import TimeSeriesChart from '@/components/analytics/TimeSeriesChart'
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function AnalyticsDashboard() {
+  const { t, href } = useI18n()
+  const [range, setRange] = useState(defaultRange)
+  const [draftRange, setDraftRange] = useState(range)
+  const [summary, setSummary] = useState<RangeTotals>({ views: 0, shares: 0, articles: 0 })
+  const [days, setDays] = useState<DailyPoint[]>([])
+  const [topViewed, setTopViewed] = useState<ArticleTotals[]>([])
+  const [topShared, setTopShared] = useState<ArticleTotals[]>([])
+  const [categories, setCategories] = useState<CategoryTotals[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReport = useCallback(async () => {
+    setLoading(true)
+    const [totals, daily, viewed, shared, byCategory] = await Promise.all([
+      analyticsDb.getTotals(supabase, range.from, range.to),
+      analyticsDb.listDaily(supabase, range.from, range.to),
+      analyticsDb.listTopArticles(supabase, range.from, range.to, 'views'),
+      analyticsDb.listTopArticles(supabase, range.from, range.to, 'shares'),
+      analyticsDb.listCategoryTotals(supabase, range.from, range.to)
+    ])
+
+    const failed = [totals, daily, viewed, shared, byCategory].find((result) => result.error)
+    setError(failed?.error?.message ?? null)
+    setSummary(totals.data ?? { views: 0, shares: 0, articles: 0 })
+    setDays(daily.data || [])
+    setTopViewed(viewed.data || [])
+    setTopShared(shared.data || [])
+    setCategories(byCategory.data || [])
+    setLoading(false)
+  }, [range])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const series = useMemo(() => dailySeries(days, range.from, range.to), [days, range])
+  const maxCategoryViews = Math.max(1, ...categories.map((category) => category.views))
+
+  const handleApply = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (draftRange.from <= draftRange.to) setRange(draftRange)
+  }
+
+  const renderTopList = (title: string, articles: ArticleTotals[], metric: 'views' | 'shares') => (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h3 className="font-semibold mb-4">{title}</h3>
+      {articles.length === 0 ? (
+        <p className="text-sm text-gray-500">{t.analytics.empty}</p>
+      ) : (
+        <ol className="space-y-2">
+          {articles.map((article) => (
+            <li key={article.article_id} className="flex justify-between gap-4 text-sm">
+              {article.slug && article.language ? (
+                <Link href={`/${article.language}/articles/${article.slug}`} className="text-blue-600 hover:text-blue-500 truncate">
+                  {article.title ?? article.article_id}
+                </Link>
+              ) : (
+                <span className="truncate">{article.title ?? article.article_id}</span>
+              )}
+              <span className="font-medium text-gray-900">{article[metric]}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+            <h1 className="text-2xl font-bold text-gray-900">{t.analytics.title}</h1>
+          </div>
+          <form onSubmit={handleApply} className="flex flex-wrap items-end gap-2">
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">{t.analytics.from}</span>
+              <input
+                type="date"
+                value={draftRange.from}
+                max={draftRange.to}
+                onChange={(e) => setDraftRange(prev => ({ ...prev, from: e.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">{t.analytics.to}</span>
+              <input
+                type="date"
+                value={draftRange.to}
+                min={draftRange.from}
+                onChange={(e) => setDraftRange(prev => ({ ...prev, to: e.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+            <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+              {t.analytics.apply}
+            </button>
+          </form>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-blue-50 p-4 rounded-lg">
+            <h3 className="font-semibold text-blue-900">{t.analytics.totalViews}</h3>
+            <p className="text-2xl font-bold text-blue-600">{summary.views}</p>
+          </div>
+          <div className="bg-green-50 p-4 rounded-lg">
+            <h3 className="font-semibold text-green-900">{t.analytics.totalShares}</h3>
+            <p className="text-2xl font-bold text-green-600">{summary.shares}</p>
+          </div>
+          <div className="bg-purple-50 p-4 rounded-lg">
+            <h3 className="font-semibold text-purple-900">{t.analytics.articlesTracked}</h3>
+            <p className="text-2xl font-bold text-purple-600">{summary.articles}</p>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <h3 className="font-semibold mb-4">{t.analytics.overTime}</h3>
+          {loading ? (
+            <p className="text-gray-500">{t.common.loading}</p>
+          ) : (
+            <TimeSeriesChart
+              points={series}
+              series={[
+                { key: 'views', label: t.analytics.views, color: '#2563eb' },
+                { key: 'shares', label: t.analytics.shares, color: '#16a34a' }
+              ]}
+            />
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderTopList(t.analytics.topByViews, topViewed, 'views')}
+          {renderTopList(t.analytics.topByShares, topShared, 'shares')}
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <h3 className="font-semibold mb-4">{t.analytics.byCategory}</h3>
+          {categories.length === 0 ? (
+            <p className="text-sm text-gray-500">{t.analytics.empty}</p>
+          ) : (
+            <ul className="space-y-3">
+              {categories.map((category) => (
+                <li key={category.category_id ?? 'none'} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{category.name ?? t.analytics.uncategorized}</span>
+                    <span className="text-gray-600">
+                      {category.views} {t.analytics.views} · {category.shares} {t.analytics.shares}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded">
+                    <div
+                      className="h-2 bg-blue-500 rounded"
+                      style={{ width: `${(category.views / maxCategoryViews) * 100}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
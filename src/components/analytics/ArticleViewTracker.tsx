@@ -0,0 +1,13 @@
+// components/analytics/ArticleViewTracker.tsx
+'use client'
+
+import { useEffect } from 'react'
+import { trackArticleEvent } from '@/lib/analytics/events'
+
+export default function ArticleViewTracker({ articleId }: { articleId: string }) {
+  useEffect(() => {
+    trackArticleEvent(articleId, 'view')
+  }, [articleId])
+
+  return null
+}
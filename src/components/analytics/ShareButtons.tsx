@@ -0,0 +1,62 @@
+// components/analytics/ShareButtons.tsx
+'use client'
+
+import { useState } from 'react'
+import { trackArticleEvent } from '@/lib/analytics/events'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface ShareButtonsProps {
+  articleId: string
+  title: string
+}
+
+export default function ShareButtons({ articleId, title }: ShareButtonsProps) {
+  const { t } = useI18n()
+  const [copied, setCopied] = useState(false)
+
+  const share = async () => {
+    const url = window.location.href
+    try {
+      if (navigator.share) {
+        await navigator.share({ title, url })
+      } else {
+        await navigator.clipboard.writeText(url)
+        setCopied(true)
+        setTimeout(() => setCopied(false), 2000)
+      }
+      trackArticleEvent(articleId, 'share')
+    } catch {
+      // Cancelled by the reader
+    }
+  }
+
+  const openNetwork = (buildUrl: (url: string) => string) => {
+    trackArticleEvent(articleId, 'share')
+    window.open(buildUrl(encodeURIComponent(window.location.href)), '_blank', 'noopener,noreferrer')
+  }
+
+  const buttonClassName = 'text-sm font-medium text-gray-600 hover:text-gray-900'
+
+  return (
+    <div className="flex items-center gap-4">
+      <span className="text-sm text-gray-500">{t.share.label}</span>
+      <button type="button" onClick={share} className={buttonClassName}>
+        {copied ? t.share.copied : t.share.share}
+      </button>
+      <button
+        type="button"
+        onClick={() => openNetwork((url) => `https://x.com/intent/post?url=${url}&text=${encodeURIComponent(title)}`)}
+        className={buttonClassName}
+      >
+        X
+      </button>
+      <button
+        type="button"
+        onClick={() => openNetwork((url) => `https://www.facebook.com/sharer/sharer.php?u=${url}`)}
+        className={buttonClassName}
+      >
+        Facebook
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+// components/analytics/TimeSeriesChart.tsx
+'use client'
+
+import type { DailyPoint } from '@/lib/analytics/aggregate'
+
+interface Series {
+  key: 'views' | 'shares'
+  label: string
+  color: string
+}
+
+interface TimeSeriesChartProps {
+  points: DailyPoint[]
+  series: Series[]
+  height?: number
+}
+
+const WIDTH = 800
+const PADDING = { top: 16, right: 16, bottom: 28, left: 40 }
+const Y_TICKS = 4
+
+// Dependency-free SVG line chart; scales to its container width.
+export default function TimeSeriesChart({ points, series, height = 240 }: TimeSeriesChartProps) {
+  const max = Math.max(1, ...points.flatMap((point) => series.map(({ key }) => point[key])))
+  const innerWidth = WIDTH - PADDING.left - PADDING.right
+  const innerHeight = height - PADDING.top - PADDING.bottom
+
+  const x = (index: number) => PADDING.left + (points.length > 1 ? (index / (points.length - 1)) * innerWidth : innerWidth / 2)
+  const y = (value: number) => PADDING.top + innerHeight - (value / max) * innerHeight
+
+  // Roughly six date labels regardless of range length
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6))
+
+  return (
+    <div className="space-y-2" dir="ltr">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {Array.from({ length: Y_TICKS + 1 }, (_, tick) => {
+          const value = Math.round((max / Y_TICKS) * tick)
+          return (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+              <text x={PADDING.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6b7280">
+                {value}
+              </text>
+            </g>
+          )
+        })}
+
+        {points.map((point, index) => index % labelEvery === 0 && (
+          <text key={point.date} x={x(index)} y={height - 8} textAnchor="middle" fontSize="11" fill="#6b7280">
+            {point.date.slice(5)}
+          </text>
+        ))}
+
+        {series.map(({ key, color }) => (
+          <polyline
+            key={key}
+            fill="none"
+            stroke={color}
+            strokeWidth="2"
+            points={points.map((point, index) => `${x(index)},${y(point[key])}`).join(' ')}
+          >
+            <title>{key}</title>
+          </polyline>
+        ))}
+      </svg>
+
+      <div className="flex gap-4 text-sm text-gray-600">
+        {series.map(({ key, label, color }) => (
+          <span key={key} className="inline-flex items-center gap-2">
+            <span className="inline-block h-2 w-4 rounded" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
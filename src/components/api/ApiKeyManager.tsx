@@ -0,0 +1,205 @@
+// components/api/ApiKeyManager.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase/client'
+import * as apiKeysDb from '@/lib/db/api-keys'
+import { MAX_API_RATE_LIMIT } from '@/lib/db/schemas'
+import { createApiKey, revokeApiKey } from '@/lib/api/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+const DEFAULT_RATE_LIMIT = 60
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+// Keys for the public REST API. A new key is shown once, right after it is
+// created; only its first characters are kept for display.
+export default function ApiKeyManager() {
+  const { locale, t, href } = useI18n()
+  const [apiKeys, setApiKeys] = useState<apiKeysDb.ApiKeySummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [rateLimit, setRateLimit] = useState(DEFAULT_RATE_LIMIT)
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const loadApiKeys = useCallback(async () => {
+    const { data, error } = await apiKeysDb.list(supabase)
+
+    if (error) setError(error.message)
+    setApiKeys(data || [])
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadApiKeys()
+  }, [loadApiKeys])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setWorking(true)
+    setError(null)
+    setCreatedKey(null)
+    setCopied(false)
+
+    const { data, error } = await createApiKey(name, rateLimit)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setCreatedKey(data.key)
+      setName('')
+      setRateLimit(DEFAULT_RATE_LIMIT)
+      await loadApiKeys()
+    }
+
+    setWorking(false)
+  }
+
+  const handleRevoke = async (apiKey: apiKeysDb.ApiKeySummary) => {
+    if (!window.confirm(t.apiKeys.confirmRevoke)) return
+    setWorking(true)
+    setError(null)
+
+    const { error } = await revokeApiKey(apiKey.id)
+    if (error) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      await loadApiKeys()
+    }
+
+    setWorking(false)
+  }
+
+  const handleCopy = async () => {
+    if (!createdKey) return
+    await navigator.clipboard.writeText(createdKey)
+    setCopied(true)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.apiKeys.manage}</h1>
+          <p className="mt-1 text-sm text-gray-500">{t.apiKeys.description}</p>
+        </div>
+
+        {createdKey && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 space-y-2">
+            <p className="text-sm font-medium text-green-800">{t.apiKeys.created}</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white px-3 py-2 text-sm text-gray-900">{createdKey}</code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="text-sm font-medium text-green-800 hover:text-green-900"
+              >
+                {copied ? t.apiKeys.copied : t.apiKeys.copy}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">{t.apiKeys.name}</label>
+              <input
+                id="name"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t.apiKeys.namePlaceholder}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="rate-limit" className="block text-sm font-medium text-gray-700 mb-2">{t.apiKeys.rateLimit}</label>
+              <input
+                id="rate-limit"
+                type="number"
+                required
+                min={1}
+                max={MAX_API_RATE_LIMIT}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(e.target.valueAsNumber)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={working}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {working ? t.apiKeys.creating : t.apiKeys.create}
+          </button>
+        </form>
+
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          {loading ? (
+            <p className="text-gray-500">{t.common.loading}</p>
+          ) : apiKeys.length === 0 ? (
+            <p className="text-gray-500">{t.apiKeys.empty}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-start text-gray-500 border-b">
+                    <th className="py-2 text-start font-medium">{t.apiKeys.name}</th>
+                    <th className="py-2 text-start font-medium">{t.apiKeys.key}</th>
+                    <th className="py-2 text-start font-medium">{t.apiKeys.rateLimit}</th>
+                    <th className="py-2 text-start font-medium">{t.apiKeys.createdBy}</th>
+                    <th className="py-2 text-start font-medium">{t.apiKeys.lastUsed}</th>
+                    <th className="py-2"><span className="sr-only">{t.apiKeys.revoke}</span></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {apiKeys.map((apiKey) => (
+                    <tr key={apiKey.id} className={`border-b last:border-0 ${apiKey.revoked_at ? 'text-gray-400' : ''}`}>
+                      <td className="py-2 pe-4">{apiKey.name}</td>
+                      <td className="py-2 pe-4"><code>{apiKey.key_prefix}…</code></td>
+                      <td className="py-2 pe-4">{apiKey.rate_limit}</td>
+                      <td className="py-2 pe-4">
+                        {apiKey.creator?.full_name || apiKey.creator?.email || t.common.unknown}
+                        <span className="block text-xs text-gray-500">{new Date(apiKey.created_at).toLocaleDateString(locale)}</span>
+                      </td>
+                      <td className="py-2 pe-4">
+                        {apiKey.last_used_at ? new Date(apiKey.last_used_at).toLocaleString(locale) : t.apiKeys.neverUsed}
+                      </td>
+                      <td className="py-2 text-end">
+                        {apiKey.revoked_at ? (
+                          <span className="text-xs">{t.apiKeys.revoked}</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(apiKey)}
+                            disabled={working}
+                            className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                          >
+                            {t.apiKeys.revoke}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
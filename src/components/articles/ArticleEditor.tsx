@@ -0,0 +1,424 @@
+// components/articles/ArticleEditor.tsx
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { Article, ArticleStatus } from '@/lib/db/types'
+import type { ArticleInput } from '@/lib/db/schemas'
+import type { EditorData } from '@/lib/articles/editor-data'
+import { allowedTransitions, canEditContent, needsAiReview } from '@/lib/articles/workflow'
+import { can } from '@/lib/auth/permissions'
+import { slugify } from '@/lib/slug'
+import { changeArticleStatus, createArticle, updateArticle } from '@/lib/articles/actions'
+import { setArticleTags } from '@/lib/tags/actions'
+import { acknowledgeAiContent } from '@/lib/ai/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import TagPicker from '@/components/tags/TagPicker'
+import MarkdownEditor from '@/components/content/MarkdownEditor'
+import MediaPicker from '@/components/media/MediaPicker'
+import AiAssistant from '@/components/ai/AiAssistant'
+import AiBadge from '@/components/ai/AiBadge'
+import ArticleSchedule from '@/components/articles/ArticleSchedule'
+import RevisionHistory from '@/components/articles/RevisionHistory'
+import EditorPresence from '@/components/realtime/EditorPresence'
+import ReviewSignOff from '@/components/reviews/ReviewSignOff'
+import ReviewNotes from '@/components/reviews/ReviewNotes'
+
+interface ArticleEditorProps {
+  articleId?: string
+  initialData: EditorData
+}
+
+const emptyForm = (): ArticleInput => ({
+  title: '',
+  slug: '',
+  excerpt: null,
+  content: null,
+  featured_image: null,
+  featured_media_id: null,
+  category_id: null,
+  language: 'en',
+  translation_group_id: crypto.randomUUID()
+})
+
+const toForm = (article: Article): ArticleInput => ({
+  title: article.title,
+  slug: article.slug,
+  excerpt: article.excerpt,
+  content: article.content,
+  featured_image: article.featured_image,
+  featured_media_id: article.featured_media_id,
+  category_id: article.category_id,
+  language: article.language,
+  translation_group_id: article.translation_group_id
+})
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function ArticleEditor({ articleId, initialData }: ArticleEditorProps) {
+  const router = useRouter()
+  const { t, href } = useI18n()
+  const { role, categories, candidates, article } = initialData
+  const [saving, setSaving] = useState(false)
+  const [tags, setTags] = useState(initialData.tags)
+  const [tagIds, setTagIds] = useState(initialData.tagIds)
+  const [formData, setFormData] = useState<ArticleInput>(() => article ? toForm(article) : emptyForm())
+  const [status, setStatus] = useState<ArticleStatus>(article?.status ?? 'draft')
+  const [publishedAt, setPublishedAt] = useState<string | null>(article?.published_at ?? null)
+  const [schedule, setSchedule] = useState({
+    publish_at: article?.publish_at ?? null,
+    archive_at: article?.archive_at ?? null
+  })
+  const [ai, setAi] = useState({
+    ai_generated: article?.ai_generated ?? false,
+    ai_reviewed_at: article?.ai_reviewed_at ?? null
+  })
+  const [reviewConfirmed, setReviewConfirmed] = useState(false)
+  const [approval, setApproval] = useState(initialData.approval)
+  // Bumped after each save so the history panel reloads
+  const [revisionCount, setRevisionCount] = useState(0)
+  const [slugTouched, setSlugTouched] = useState(Boolean(articleId))
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => {
+      const next = { ...prev, [name]: value === '' && name !== 'title' && name !== 'slug' ? null : value }
+      if (name === 'title' && !slugTouched) next.slug = slugify(value)
+      // A pasted URL no longer refers to the library image
+      if (name === 'featured_image') next.featured_media_id = null
+      return next
+    })
+    if (name === 'slug') setSlugTouched(true)
+    if (error) setError(null)
+  }
+
+  const handleTranslationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const counterpart = candidates.find((candidate) => candidate.id === e.target.value)
+    setFormData(prev => ({
+      ...prev,
+      translation_group_id: counterpart?.translation_group_id ?? crypto.randomUUID()
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage('')
+
+    if (articleId) {
+      const { error } = await updateArticle(articleId, formData)
+      if (error) {
+        setError(actionErrorMessage(t, error))
+      } else {
+        const { error: tagsError } = await setArticleTags(articleId, tagIds)
+        if (tagsError) setError(actionErrorMessage(t, tagsError))
+        else setMessage(t.editor.saved)
+        setRevisionCount(count => count + 1)
+      }
+    } else {
+      const { data, error } = await createArticle(formData)
+      if (error || !data) {
+        setError(actionErrorMessage(t, error))
+      } else {
+        const { error: tagsError } = await setArticleTags(data.id, tagIds)
+        if (tagsError) setError(actionErrorMessage(t, tagsError))
+        else router.push(href(`/dashboard/articles/${data.id}/edit`))
+      }
+    }
+
+    setSaving(false)
+  }
+
+  const handleTransition = async (to: ArticleStatus) => {
+    if (!articleId) return
+    setSaving(true)
+    setError(null)
+    setMessage('')
+
+    const { data, error } = await changeArticleStatus(articleId, to)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setStatus(data.status)
+      setPublishedAt(data.published_at)
+      setSchedule({ publish_at: data.publish_at, archive_at: data.archive_at })
+      setMessage(`${t.editor.movedTo} ${t.editor.statuses[data.status]}`)
+    }
+
+    setSaving(false)
+  }
+
+  const handleAcknowledge = async () => {
+    if (!articleId) return
+    setSaving(true)
+    setError(null)
+    setMessage('')
+
+    const { data, error } = await acknowledgeAiContent(articleId)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setAi(prev => ({ ...prev, ai_reviewed_at: data.ai_reviewed_at }))
+    }
+
+    setSaving(false)
+  }
+
+  if (!can(role, 'article:edit')) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12 px-4">
+        <div className="max-w-md mx-auto bg-white p-8 rounded-lg shadow-md text-center">
+          <p className="text-gray-700">{t.editor.editorsOnly}</p>
+          <Link href={href('/dashboard')} className="mt-4 inline-block text-blue-600 hover:text-blue-500">
+            {t.common.backToDashboard}
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const transitions = articleId ? allowedTransitions(role, status) : []
+  const reviewPending = needsAiReview(ai)
+  const approvalPending = status === 'review' && !approval
+  const locked = !canEditContent(status)
+  const otherLanguage = formData.language === 'ar' ? 'en' : 'ar'
+  const translationCandidates = candidates.filter((candidate) => candidate.language === otherLanguage)
+  const linkedTranslation = translationCandidates.find((candidate) => candidate.translation_group_id === formData.translation_group_id)
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md flex justify-between items-center">
+          <div>
+            <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+            <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+              {articleId ? t.editor.editArticle : t.editor.newArticle}
+              {ai.ai_generated && <AiBadge reviewed={!reviewPending} />}
+            </h1>
+            <p className="text-sm text-gray-500">
+              {t.editor.status}: {t.editor.statuses[status]}
+              {publishedAt && ` | ${t.editor.published}: ${new Date(publishedAt).toLocaleString()}`}
+              {schedule.publish_at && ` | ${t.schedule.publishAt}: ${new Date(schedule.publish_at).toLocaleString()}`}
+              {schedule.archive_at && ` | ${t.schedule.archiveAt}: ${new Date(schedule.archive_at).toLocaleString()}`}
+              {approval && ` | ${t.review.approvedBy} ${approval.reviewer?.full_name || approval.reviewer?.email || t.common.unknown}: ${new Date(approval.created_at).toLocaleString()}`}
+            </p>
+          </div>
+          {transitions.length > 0 && (
+            <div className="flex space-x-2">
+              {transitions.map((to) => (
+                <button
+                  key={to}
+                  type="button"
+                  onClick={() => handleTransition(to)}
+                  disabled={saving || (to === 'published' && (reviewPending || approvalPending))}
+                  title={to === 'published'
+                    ? (reviewPending ? t.ai.reviewRequired : approvalPending ? t.review.approvalRequired : undefined)
+                    : undefined}
+                  className="bg-gray-800 text-white px-4 py-2 rounded-md hover:bg-gray-900 disabled:opacity-50"
+                >
+                  {t.editor.transitions[to]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {articleId && <EditorPresence articleId={articleId} />}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {articleId && reviewPending && (
+          <div className="bg-amber-50 border border-amber-200 rounded-md p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <AiBadge />
+              <h2 className="font-semibold text-amber-900">{t.ai.reviewTitle}</h2>
+            </div>
+            <p className="text-sm text-amber-900">{t.ai.reviewDescription}</p>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-amber-900">
+                <input
+                  type="checkbox"
+                  checked={reviewConfirmed}
+                  onChange={(e) => setReviewConfirmed(e.target.checked)}
+                />
+                {t.ai.reviewConfirm}
+              </label>
+              <button
+                type="button"
+                onClick={handleAcknowledge}
+                disabled={saving || !reviewConfirmed}
+                className="bg-amber-600 text-white text-sm px-3 py-2 rounded-md hover:bg-amber-700 disabled:opacity-50"
+              >
+                {t.ai.acknowledge}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {articleId && (
+          // Remounted on status changes and saves, which can withdraw the approval
+          <ReviewSignOff
+            key={`${status}-${revisionCount}`}
+            articleId={articleId}
+            role={role}
+            status={status}
+            approval={approval}
+            onApprovalChange={setApproval}
+            onChangesRequested={(change) => {
+              setStatus(change.status)
+              setPublishedAt(change.published_at)
+              setSchedule({ publish_at: change.publish_at, archive_at: change.archive_at })
+              setMessage(t.review.sentBack)
+            }}
+          />
+        )}
+
+        {articleId && (
+          // Remounted on status changes, which can clear the schedule
+          <ArticleSchedule
+            key={status}
+            articleId={articleId}
+            role={role}
+            status={status}
+            publishAt={schedule.publish_at}
+            archiveAt={schedule.archive_at}
+            onScheduled={setSchedule}
+          />
+        )}
+
+        <AiAssistant
+          articleId={articleId}
+          language={formData.language}
+          status={status}
+          onSummarized={(excerpt) => {
+            setFormData(prev => ({ ...prev, excerpt }))
+            setAi({ ai_generated: true, ai_reviewed_at: null })
+            setReviewConfirmed(false)
+            setRevisionCount(count => count + 1)
+          }}
+        />
+
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-6">
+          <div>
+            <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">{t.editor.title}</label>
+            <input id="title" name="title" required value={formData.title} onChange={handleChange} className={inputClassName} />
+          </div>
+
+          <div>
+            <label htmlFor="slug" className="block text-sm font-medium text-gray-700 mb-2">{t.editor.slug}</label>
+            <input id="slug" name="slug" required value={formData.slug} onChange={handleChange} className={inputClassName} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="category_id" className="block text-sm font-medium text-gray-700 mb-2">{t.editor.category}</label>
+              <select id="category_id" name="category_id" value={formData.category_id ?? ''} onChange={handleChange} className={inputClassName}>
+                <option value="">{t.common.none}</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="language" className="block text-sm font-medium text-gray-700 mb-2">{t.editor.language}</label>
+              <select id="language" name="language" value={formData.language} onChange={handleChange} className={inputClassName}>
+                <option value="en">{t.common.languages.en}</option>
+                <option value="ar">{t.common.languages.ar}</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="translation" className="block text-sm font-medium text-gray-700 mb-2">
+              {t.editor.translationOf} ({t.common.languages[otherLanguage]})
+            </label>
+            <select id="translation" value={linkedTranslation?.id ?? ''} onChange={handleTranslationChange} className={inputClassName}>
+              <option value="">{t.common.none}</option>
+              {translationCandidates.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <TagPicker
+            tags={tags}
+            selectedIds={tagIds}
+            onChange={setTagIds}
+            onTagCreated={(tag) => setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)))}
+          />
+
+          <div>
+            <label htmlFor="featured_image" className="block text-sm font-medium text-gray-700 mb-2">{t.editor.featuredImage}</label>
+            {formData.featured_image && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={formData.featured_image} alt="" className="mb-2 h-40 w-auto max-w-full rounded-md object-cover" />
+            )}
+            <input id="featured_image" name="featured_image" type="url" value={formData.featured_image ?? ''} onChange={handleChange} className={inputClassName} />
+            <div className="mt-2 flex gap-2">
+              <MediaPicker
+                selectedId={formData.featured_media_id}
+                onSelect={(asset) => setFormData(prev => ({ ...prev, featured_image: asset.url, featured_media_id: asset.id }))}
+              />
+              {formData.featured_image && (
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, featured_image: null, featured_media_id: null }))}
+                  className="text-sm px-3 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100"
+                >
+                  {t.media.removeImage}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="excerpt" className="block text-sm font-medium text-gray-700 mb-2">{t.editor.excerpt}</label>
+            <textarea id="excerpt" name="excerpt" rows={3} value={formData.excerpt ?? ''} onChange={handleChange} className={inputClassName} />
+            <p className="mt-1 text-xs text-gray-500">{t.editor.excerptHint}</p>
+          </div>
+
+          <div>
+            <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">{t.editor.content}</label>
+            <MarkdownEditor
+              id="content"
+              value={formData.content ?? ''}
+              onChange={(content) => {
+                setFormData(prev => ({ ...prev, content: content === '' ? null : content }))
+                if (error) setError(null)
+              }}
+            />
+          </div>
+
+          {locked && <p className="text-sm text-amber-700">{t.editor.locked}</p>}
+
+          <button
+            type="submit"
+            disabled={saving || locked}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? t.editor.saving : (articleId ? t.editor.saveChanges : t.editor.createDraft)}
+          </button>
+        </form>
+
+        {articleId && <ReviewNotes articleId={articleId} role={role} status={status} content={formData.content ?? ''} />}
+
+        {articleId && <RevisionHistory key={revisionCount} articleId={articleId} role={role} />}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+// components/articles/ArticleSchedule.tsx
+'use client'
+
+import { useState } from 'react'
+import type { ArticleStatus, Role } from '@/lib/db/types'
+import { canScheduleArchive, canSchedulePublish } from '@/lib/articles/workflow'
+import { scheduleArticle } from '@/lib/articles/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface ArticleScheduleProps {
+  articleId: string
+  role: Role
+  status: ArticleStatus
+  publishAt: string | null
+  archiveAt: string | null
+  onScheduled: (schedule: { publish_at: string | null; archive_at: string | null }) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100'
+
+// datetime-local inputs work in the browser's time zone without an offset
+function toInputValue(iso: string | null): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
+}
+
+function fromInputValue(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+export default function ArticleSchedule({ articleId, role, status, publishAt, archiveAt, onScheduled }: ArticleScheduleProps) {
+  const { t } = useI18n()
+  const [publishValue, setPublishValue] = useState(toInputValue(publishAt))
+  const [archiveValue, setArchiveValue] = useState(toInputValue(archiveAt))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const canPublish = canSchedulePublish(role, status)
+  const canArchive = canScheduleArchive(role, status)
+
+  // Readers never get here; archived articles have nothing to schedule
+  if (!canPublish && !canArchive) return null
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage('')
+
+    const { data, error } = await scheduleArticle(articleId, {
+      publish_at: fromInputValue(publishValue),
+      archive_at: fromInputValue(archiveValue)
+    })
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setPublishValue(toInputValue(data.publish_at))
+      setArchiveValue(toInputValue(data.archive_at))
+      setMessage(t.schedule.saved)
+      onScheduled(data)
+    }
+
+    setSaving(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">{t.schedule.title}</h2>
+        <p className="text-sm text-gray-500">{t.schedule.description}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="publish_at" className="block text-sm font-medium text-gray-700 mb-2">{t.schedule.publishAt}</label>
+          <input
+            id="publish_at"
+            type="datetime-local"
+            value={publishValue}
+            onChange={(e) => setPublishValue(e.target.value)}
+            disabled={!canPublish}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {canPublish ? t.schedule.approvalRequired : t.schedule.reviewRequired}
+          </p>
+        </div>
+        <div>
+          <label htmlFor="archive_at" className="block text-sm font-medium text-gray-700 mb-2">{t.schedule.archiveAt}</label>
+          <input
+            id="archive_at"
+            type="datetime-local"
+            value={archiveValue}
+            onChange={(e) => setArchiveValue(e.target.value)}
+            disabled={!canArchive}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-gray-800 text-white px-4 py-2 rounded-md hover:bg-gray-900 disabled:opacity-50"
+      >
+        {saving ? t.schedule.saving : t.schedule.save}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,69 @@
+// components/articles/RevisionDiff.tsx
+'use client'
+
+import { useMemo } from 'react'
+import type { ArticleRevision } from '@/lib/db/types'
+import { diffLines, hasChanges, type DiffCell } from '@/lib/revisions/diff'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface RevisionDiffProps {
+  before: ArticleRevision
+  after: ArticleRevision
+}
+
+const cellClassName: Record<DiffCell['change'], string> = {
+  same: '',
+  removed: 'bg-red-50 text-red-900',
+  added: 'bg-green-50 text-green-900'
+}
+
+// Side-by-side comparison of the title, excerpt and content of two
+// revisions, older on the left.
+export default function RevisionDiff({ before, after }: RevisionDiffProps) {
+  const { t } = useI18n()
+  const fields = useMemo(() => [
+    { name: t.editor.title, rows: diffLines(before.title, after.title) },
+    { name: t.editor.excerpt, rows: diffLines(before.excerpt, after.excerpt) },
+    { name: t.editor.content, rows: diffLines(before.content, after.content) }
+  ], [before, after, t])
+
+  return (
+    <div className="space-y-4">
+      {fields.map(({ name, rows }) => (
+        <div key={name}>
+          <h3 className="mb-1 text-sm font-medium text-gray-700">{name}</h3>
+          {hasChanges(rows) ? (
+            <div className="overflow-x-auto rounded-md border border-gray-200">
+              <table className="w-full table-fixed font-mono text-xs">
+                <colgroup>
+                  <col className="w-10" />
+                  <col />
+                  <col className="w-10" />
+                  <col />
+                </colgroup>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={index} className="border-b border-gray-100 last:border-0">
+                      {[row.left, row.right].map((cell, side) => cell ? [
+                        <td key={`${side}-line`} className={`select-none px-2 text-end align-top text-gray-400 ${cellClassName[cell.change]}`}>
+                          {cell.line}
+                        </td>,
+                        <td key={`${side}-text`} dir="auto" className={`whitespace-pre-wrap break-words px-2 align-top ${cellClassName[cell.change]}`}>
+                          {cell.text}
+                        </td>
+                      ] : (
+                        <td key={side} colSpan={2} className="bg-gray-50" />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{t.revisions.unchanged}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+// components/articles/RevisionHistory.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { supabase } from '@/lib/supabase/client'
+import type { ArticleRevision, Role } from '@/lib/db/types'
+import * as revisionsDb from '@/lib/db/revisions'
+import { restoreRevision } from '@/lib/articles/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { can } from '@/lib/auth/permissions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import RevisionDiff from '@/components/articles/RevisionDiff'
+
+interface RevisionHistoryProps {
+  articleId: string
+  role: Role
+}
+
+// Revisions of an article, newest first. Any two can be compared, and an
+// older one can be copied into a new draft.
+export default function RevisionHistory({ articleId, role }: RevisionHistoryProps) {
+  const router = useRouter()
+  const { locale, t, href } = useI18n()
+  const [revisions, setRevisions] = useState<revisionsDb.RevisionSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Older revision on the left of the diff, newer on the right
+  const [beforeId, setBeforeId] = useState<string | null>(null)
+  const [afterId, setAfterId] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<{ before: ArticleRevision; after: ArticleRevision } | null>(null)
+
+  const loadRevisions = useCallback(async () => {
+    const { data, error } = await revisionsDb.list(supabase, articleId)
+
+    if (error) setError(error.message)
+    setRevisions(data || [])
+    setAfterId(data?.[0]?.id ?? null)
+    setBeforeId(data?.[1]?.id ?? null)
+    setComparison(null)
+    setLoading(false)
+  }, [articleId])
+
+  useEffect(() => {
+    loadRevisions()
+  }, [loadRevisions])
+
+  const handleCompare = async () => {
+    if (!beforeId || !afterId) return
+    setWorking(true)
+    setError(null)
+
+    const [before, after] = await Promise.all([
+      revisionsDb.get(supabase, beforeId),
+      revisionsDb.get(supabase, afterId)
+    ])
+    if (before.error || after.error) {
+      setError((before.error ?? after.error)?.message ?? t.auth.genericError)
+    } else {
+      // Always show the older revision on the left
+      const ordered = before.data.created_at <= after.data.created_at
+      setComparison(ordered ? { before: before.data, after: after.data } : { before: after.data, after: before.data })
+    }
+
+    setWorking(false)
+  }
+
+  const handleRestore = async (revisionId: string) => {
+    if (!window.confirm(t.revisions.confirmRestore)) return
+    setWorking(true)
+    setError(null)
+
+    const { data, error } = await restoreRevision(revisionId)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+      setWorking(false)
+    } else {
+      router.push(href(`/dashboard/articles/${data.id}/edit`))
+    }
+  }
+
+  return (
+    <section className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-gray-900">{t.revisions.title}</h2>
+          <p className="text-sm text-gray-500">{t.revisions.description}</p>
+        </div>
+        <button
+          type="button"
+          onClick={handleCompare}
+          disabled={working || !beforeId || !afterId || beforeId === afterId}
+          className="bg-gray-800 text-white text-sm px-3 py-2 rounded-md hover:bg-gray-900 disabled:opacity-50"
+        >
+          {t.revisions.compare}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">{t.revisions.loading}</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">{t.revisions.none}</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto rounded-md border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.revisions.before}</th>
+                <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.revisions.after}</th>
+                <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.revisions.savedAt}</th>
+                <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.revisions.author}</th>
+                <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.editor.title}</th>
+                <th scope="col"><span className="sr-only">{t.revisions.restore}</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {revisions.map((revision, index) => (
+                <tr key={revision.id}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="radio"
+                      name="revision-before"
+                      aria-label={t.revisions.before}
+                      checked={beforeId === revision.id}
+                      onChange={() => setBeforeId(revision.id)}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="radio"
+                      name="revision-after"
+                      aria-label={t.revisions.after}
+                      checked={afterId === revision.id}
+                      onChange={() => setAfterId(revision.id)}
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                    {new Date(revision.created_at).toLocaleString(locale)}
+                    {index === 0 && <span className="ms-2 text-xs text-blue-600">{t.revisions.current}</span>}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {revision.profiles?.full_name || revision.profiles?.email || t.common.unknown}
+                  </td>
+                  <td dir="auto" className="px-3 py-2">{revision.title}</td>
+                  <td className="px-3 py-2 text-end">
+                    {index > 0 && can(role, 'article:create') && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(revision.id)}
+                        disabled={working}
+                        className="whitespace-nowrap text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                      >
+                        {t.revisions.restore}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {comparison && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-4 text-xs text-gray-500">
+            <p>{new Date(comparison.before.created_at).toLocaleString(locale)}</p>
+            <p>{new Date(comparison.after.created_at).toLocaleString(locale)}</p>
+          </div>
+          <RevisionDiff before={comparison.before} after={comparison.after} />
+        </div>
+      )}
+    </section>
+  )
+}
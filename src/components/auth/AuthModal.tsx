@@ -1,71 +1,205 @@
 // components/auth/AuthModal.tsx
 'use client'
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
 import { supabase } from '@/lib/supabase/client'
+import { authCallbackUrl } from '@/lib/auth/redirect'
+import { createAuthSchemas, type CredentialsValues, type EmailValues } from '@/lib/auth/schemas'
+import { useI18n } from '@/components/i18n/I18nProvider'
 
-export default function AuthModal() {
-  const [email, setEmail] = useState('')
-  const [password, setPassword] = useState('')
-  const [isLogin, setIsLogin] = useState(true)
-  const [loading, setLoading] = useState(false)
-
-  const handleAuth = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setLoading(true)
-    
-    try {
-      if (isLogin) {
-        const { error } = await supabase.auth.signInWithPassword({
-          email,
-          password
-        })
-        if (error) throw error
-      } else {
-        const { error } = await supabase.auth.signUp({
-          email,
-          password
-        })
-        if (error) throw error
-      }
-    } catch (error) {
-      console.error('Auth error:', error)
-    } finally {
-      setLoading(false)
-    }
+type AuthMode = 'signIn' | 'signUp' | 'magicLink'
+
+interface AuthModalProps {
+  // Where to go once signed in; defaults to the dashboard
+  next?: string
+  initialError?: string | null
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function AuthModal({ next, initialError = null }: AuthModalProps) {
+  const router = useRouter()
+  const { locale, t, href } = useI18n()
+  const schemas = useMemo(() => createAuthSchemas(t.auth.validation), [t])
+  const [mode, setMode] = useState<AuthMode>('signIn')
+  const [error, setError] = useState<string | null>(initialError)
+  const [message, setMessage] = useState('')
+  const destination = next ?? href('/dashboard')
+
+  const credentialsForm = useForm<CredentialsValues>({
+    resolver: zodResolver(mode === 'signUp' ? schemas.signUp : schemas.signIn),
+    defaultValues: { email: '', password: '' }
+  })
+  const magicLinkForm = useForm<EmailValues>({
+    resolver: zodResolver(schemas.email),
+    defaultValues: { email: '' }
+  })
+
+  const switchMode = (to: AuthMode) => {
+    setMode(to)
+    setError(null)
+    setMessage('')
+    credentialsForm.clearErrors()
+    magicLinkForm.clearErrors()
   }
 
+  const finishSignIn = () => {
+    router.replace(destination)
+    // Server components re-render with the new session cookie
+    router.refresh()
+  }
+
+  const handleCredentials = credentialsForm.handleSubmit(async ({ email, password }) => {
+    setError(null)
+    setMessage('')
+
+    if (mode === 'signIn') {
+      const { error } = await supabase.auth.signInWithPassword({ email, password })
+      if (error) setError(error.message)
+      else finishSignIn()
+      return
+    }
+
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: authCallbackUrl(window.location.origin, locale, destination) }
+    })
+    if (error) setError(error.message)
+    // Projects without email confirmation return a session straight away
+    else if (data.session) finishSignIn()
+    else setMessage(t.auth.checkEmail)
+  })
+
+  const handleMagicLink = magicLinkForm.handleSubmit(async ({ email }) => {
+    setError(null)
+    setMessage('')
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: authCallbackUrl(window.location.origin, locale, destination) }
+    })
+    if (error) setError(error.message)
+    else setMessage(t.auth.magicLinkSent)
+  })
+
+  const credentialErrors = credentialsForm.formState.errors
+  const magicLinkErrors = magicLinkForm.formState.errors
+
   return (
-    // Auth form JSX here
-    <form onSubmit={handleAuth} className="flex flex-col gap-4 p-4">
-    <h2>{isLogin ? 'Login' : 'Register'}</h2>
-    
-    <input
-      type="email"
-      placeholder="Email"
-      value={email}
-      onChange={(e) => setEmail(e.target.value)}
-      className="border px-2 py-1"
-    />
-    
-    <input
-      type="password"
-      placeholder="Password"
-      value={password}
-      onChange={(e) => setPassword(e.target.value)}
-      className="border px-2 py-1"
-    />
-
-    <button type="submit" className="bg-black text-white px-4 py-2">
-      {loading ? 'Loading...' : isLogin ? 'Login' : 'Register'}
-    </button>
-
-    <button
-      type="button"
-      onClick={() => setIsLogin(!isLogin)}
-      className="text-blue-500 text-sm"
-    >
-      {isLogin ? 'Need an account? Register' : 'Already have an account? Login'}
-    </button>
-  </form>
+    <div className="p-8 space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-gray-900">
+          {mode === 'signUp' ? t.auth.signUpTitle : mode === 'magicLink' ? t.auth.magicLinkTitle : t.auth.signInTitle}
+        </h2>
+        {mode === 'magicLink' ? (
+          <p className="mt-2 text-sm text-gray-600">{t.auth.magicLinkIntro}</p>
+        ) : (
+          <p className="mt-2 text-sm text-gray-600">
+            {mode === 'signIn' ? t.auth.noAccount : t.auth.haveAccount}
+            <button
+              type="button"
+              onClick={() => switchMode(mode === 'signIn' ? 'signUp' : 'signIn')}
+              className="ms-1 font-medium text-blue-600 hover:text-blue-500"
+            >
+              {mode === 'signIn' ? t.auth.signUp : t.auth.signIn}
+            </button>
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+          <p className="text-sm text-blue-800">{message}</p>
+        </div>
+      )}
+
+      {mode === 'magicLink' ? (
+        <form onSubmit={handleMagicLink} noValidate className="space-y-6">
+          <div>
+            <label htmlFor="magic-email" className="block text-sm font-medium text-gray-700 mb-2">{t.auth.email}</label>
+            <input
+              id="magic-email"
+              type="email"
+              autoComplete="email"
+              placeholder={t.auth.emailPlaceholder}
+              aria-invalid={Boolean(magicLinkErrors.email)}
+              {...magicLinkForm.register('email')}
+              className={inputClassName}
+            />
+            {magicLinkErrors.email && <p className="mt-1 text-sm text-red-600">{magicLinkErrors.email.message}</p>}
+          </div>
+
+          <button
+            type="submit"
+            disabled={magicLinkForm.formState.isSubmitting}
+            className="w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {magicLinkForm.formState.isSubmitting ? t.auth.processing : t.auth.sendMagicLink}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleCredentials} noValidate className="space-y-6">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">{t.auth.email}</label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              placeholder={t.auth.emailPlaceholder}
+              aria-invalid={Boolean(credentialErrors.email)}
+              {...credentialsForm.register('email')}
+              className={inputClassName}
+            />
+            {credentialErrors.email && <p className="mt-1 text-sm text-red-600">{credentialErrors.email.message}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">{t.auth.password}</label>
+            <input
+              id="password"
+              type="password"
+              autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+              placeholder={t.auth.passwordPlaceholder}
+              aria-invalid={Boolean(credentialErrors.password)}
+              {...credentialsForm.register('password')}
+              className={inputClassName}
+            />
+            {credentialErrors.password && <p className="mt-1 text-sm text-red-600">{credentialErrors.password.message}</p>}
+          </div>
+
+          {mode === 'signIn' && (
+            <Link href={href('/reset-password')} className="block text-sm text-blue-600 hover:text-blue-500">
+              {t.auth.forgotPassword}
+            </Link>
+          )}
+
+          <button
+            type="submit"
+            disabled={credentialsForm.formState.isSubmitting}
+            className="w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {credentialsForm.formState.isSubmitting ? t.auth.processing : mode === 'signUp' ? t.auth.signUp : t.auth.signIn}
+          </button>
+        </form>
+      )}
+
+      <button
+        type="button"
+        onClick={() => switchMode(mode === 'magicLink' ? 'signIn' : 'magicLink')}
+        className="w-full text-sm text-blue-600 hover:text-blue-500"
+      >
+        {mode === 'magicLink' ? t.auth.usePassword : t.auth.magicLink}
+      </button>
+    </div>
   )
-}
\ No newline at end of file
+}
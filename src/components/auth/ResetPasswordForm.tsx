@@ -0,0 +1,81 @@
+// components/auth/ResetPasswordForm.tsx
+'use client'
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { supabase } from '@/lib/supabase/client'
+import { authCallbackUrl } from '@/lib/auth/redirect'
+import { createAuthSchemas, type EmailValues } from '@/lib/auth/schemas'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function ResetPasswordForm() {
+  const { locale, t, href } = useI18n()
+  const schemas = useMemo(() => createAuthSchemas(t.auth.validation), [t])
+  const [error, setError] = useState<string | null>(null)
+  const [sent, setSent] = useState(false)
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<EmailValues>({
+    resolver: zodResolver(schemas.email),
+    defaultValues: { email: '' }
+  })
+
+  const onSubmit = handleSubmit(async ({ email }) => {
+    setError(null)
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: authCallbackUrl(window.location.origin, locale, href('/update-password'))
+    })
+    if (error) setError(error.message)
+    else setSent(true)
+  })
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-gray-900">{t.auth.resetTitle}</h2>
+        <p className="mt-2 text-sm text-gray-600">{t.auth.resetIntro}</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {sent ? (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+          <p className="text-sm text-blue-800">{t.auth.resetSent}</p>
+        </div>
+      ) : (
+        <form onSubmit={onSubmit} noValidate className="space-y-6">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">{t.auth.email}</label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              placeholder={t.auth.emailPlaceholder}
+              aria-invalid={Boolean(errors.email)}
+              {...register('email')}
+              className={inputClassName}
+            />
+            {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? t.auth.processing : t.auth.sendResetLink}
+          </button>
+        </form>
+      )}
+
+      <Link href={href('/login')} className="block text-center text-sm text-blue-600 hover:text-blue-500">
+        {t.auth.backToSignIn}
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+// components/auth/UpdatePasswordForm.tsx
+'use client'
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { supabase } from '@/lib/supabase/client'
+import { createAuthSchemas, type UpdatePasswordValues } from '@/lib/auth/schemas'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+// Shown after a password reset link has signed the user in.
+export default function UpdatePasswordForm() {
+  const { t, href } = useI18n()
+  const schemas = useMemo(() => createAuthSchemas(t.auth.validation), [t])
+  const [error, setError] = useState<string | null>(null)
+  const [updated, setUpdated] = useState(false)
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<UpdatePasswordValues>({
+    resolver: zodResolver(schemas.updatePassword),
+    defaultValues: { password: '', confirmPassword: '' }
+  })
+
+  const onSubmit = handleSubmit(async ({ password }) => {
+    setError(null)
+    const { error } = await supabase.auth.updateUser({ password })
+    if (error) setError(error.message)
+    else setUpdated(true)
+  })
+
+  return (
+    <div className="p-8 space-y-6">
+      <h2 className="text-3xl font-bold text-gray-900 text-center">{t.auth.updatePasswordTitle}</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {updated ? (
+        <div className="space-y-4 text-center">
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-800">{t.auth.passwordUpdated}</p>
+          </div>
+          <Link href={href('/dashboard')} className="inline-block text-sm text-blue-600 hover:text-blue-500">
+            {t.common.backToDashboard}
+          </Link>
+        </div>
+      ) : (
+        <form onSubmit={onSubmit} noValidate className="space-y-6">
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">{t.auth.newPassword}</label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              aria-invalid={Boolean(errors.password)}
+              {...register('password')}
+              className={inputClassName}
+            />
+            {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">{t.auth.confirmPassword}</label>
+            <input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              aria-invalid={Boolean(errors.confirmPassword)}
+              {...register('confirmPassword')}
+              className={inputClassName}
+            />
+            {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? t.auth.processing : t.auth.updatePassword}
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
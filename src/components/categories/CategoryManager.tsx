@@ -0,0 +1,270 @@
+// components/categories/CategoryManager.tsx
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Reorder } from 'framer-motion'
+import * as Dialog from '@radix-ui/react-dialog'
+import { supabase } from '@/lib/supabase/client'
+import type { CategoryInput } from '@/lib/db/schemas'
+import * as categoriesDb from '@/lib/db/categories'
+import { createCategory, deleteCategory, reorderCategories, updateCategory } from '@/lib/categories/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { slugify } from '@/lib/slug'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+const emptyForm: CategoryInput = { name: '', slug: '', description: null }
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function CategoryManager() {
+  const { t, href } = useI18n()
+  const [categories, setCategories] = useState<categoriesDb.CategoryWithCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+  const [formData, setFormData] = useState<CategoryInput>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [deleting, setDeleting] = useState<categoriesDb.CategoryWithCount | null>(null)
+  const [reassignTo, setReassignTo] = useState('')
+
+  // Latest order, read when a drag ends (the state closure may be stale)
+  const orderRef = useRef<categoriesDb.CategoryWithCount[]>([])
+
+  const loadCategories = useCallback(async () => {
+    const { data, error } = await categoriesDb.listWithCounts(supabase)
+
+    if (error) setError(error.message)
+    orderRef.current = data || []
+    setCategories(orderRef.current)
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadCategories()
+  }, [loadCategories])
+
+  const handleReorder = (next: categoriesDb.CategoryWithCount[]) => {
+    orderRef.current = next
+    setCategories(next)
+  }
+
+  const saveOrder = async () => {
+    const ids = orderRef.current.map((category) => category.id)
+    setError(null)
+    setMessage('')
+    const { error } = await reorderCategories(ids)
+    if (error) {
+      setError(actionErrorMessage(t, error))
+      await loadCategories()
+    } else {
+      setMessage(t.categories.orderSaved)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+    if (error) setError(null)
+  }
+
+  const resetForm = () => {
+    setFormData(emptyForm)
+    setEditingId(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setWorking(true)
+    setError(null)
+    setMessage('')
+
+    const { error } = editingId
+      ? await updateCategory(editingId, formData)
+      : await createCategory(formData)
+
+    if (error) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      resetForm()
+      await loadCategories()
+    }
+
+    setWorking(false)
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    setWorking(true)
+    setError(null)
+
+    const { error } = await deleteCategory(deleting.id, reassignTo || null)
+    if (error) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setDeleting(null)
+      setReassignTo('')
+      await loadCategories()
+    }
+
+    setWorking(false)
+  }
+
+  const articleCount = (category: categoriesDb.CategoryWithCount) => category.articles[0]?.count ?? 0
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.categories.manage}</h1>
+        </div>
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        {error && !deleting && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">{t.categories.name}</label>
+              <input id="name" name="name" required value={formData.name} onChange={handleChange} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="slug" className="block text-sm font-medium text-gray-700 mb-2">{t.categories.slug}</label>
+              <input
+                id="slug"
+                name="slug"
+                value={formData.slug}
+                onChange={handleChange}
+                placeholder={slugify(formData.name) || t.categories.slugHint}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">{t.categories.description}</label>
+            <textarea id="description" name="description" rows={2} value={formData.description ?? ''} onChange={handleChange} className={inputClassName} />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={working}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {working ? t.categories.saving : (editingId ? t.categories.update : t.categories.create)}
+            </button>
+            {editingId && (
+              <button type="button" onClick={resetForm} className="px-4 py-2 text-gray-600 hover:text-gray-900">
+                {t.categories.cancel}
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div className="bg-white p-6 rounded-lg shadow-md space-y-4">
+          <p className="text-sm text-gray-500">{t.categories.reorderHint}</p>
+          {loading ? (
+            <p className="text-gray-500">{t.common.loading}</p>
+          ) : categories.length === 0 ? (
+            <p className="text-gray-500">{t.categories.empty}</p>
+          ) : (
+            <Reorder.Group axis="y" values={categories} onReorder={handleReorder} className="space-y-2">
+              {categories.map((category) => (
+                <Reorder.Item
+                  key={category.id}
+                  value={category}
+                  onDragEnd={saveOrder}
+                  className="border rounded-lg p-4 bg-white flex items-center gap-4 cursor-grab active:cursor-grabbing"
+                >
+                  <span className="text-gray-400 select-none" aria-hidden="true">&#8942;&#8942;</span>
+                  <div className="flex-1">
+                    <h4 className="font-semibold">{category.name}</h4>
+                    <p className="text-sm text-gray-500">
+                      /{category.slug} · {articleCount(category)} {t.categories.articles}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      setEditingId(category.id)
+                      setFormData({ name: category.name, slug: category.slug, description: category.description })
+                    }}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                  >
+                    {t.categories.edit}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setError(null)
+                      setReassignTo('')
+                      setDeleting(category)
+                    }}
+                    className="text-sm font-medium text-red-600 hover:text-red-700"
+                  >
+                    {t.categories.delete}
+                  </button>
+                </Reorder.Item>
+              ))}
+            </Reorder.Group>
+          )}
+        </div>
+      </div>
+
+      <Dialog.Root open={Boolean(deleting)} onOpenChange={(open) => !open && setDeleting(null)}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/40" />
+          <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {t.categories.deleteTitle}: {deleting?.name}
+            </Dialog.Title>
+            <Dialog.Description className="text-sm text-gray-600">
+              {t.categories.deleteConfirm}
+            </Dialog.Description>
+
+            {deleting && articleCount(deleting) > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  {articleCount(deleting)} {t.categories.inUse}
+                </p>
+                <select
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">{t.categories.chooseCategory}</option>
+                  {categories.filter((category) => category.id !== deleting.id).map((category) => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-700">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Dialog.Close className="px-4 py-2 text-gray-600 hover:text-gray-900">
+                {t.categories.cancel}
+              </Dialog.Close>
+              <button
+                onClick={handleDelete}
+                disabled={working || (deleting !== null && articleCount(deleting) > 0 && !reassignTo)}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {t.categories.delete}
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+// components/comments/CommentForm.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase/client'
+import { postComment } from '@/lib/comments/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface CommentFormProps {
+  articleId: string
+  parentId?: string
+  onCancel?: () => void
+  onPosted?: () => void
+}
+
+export default function CommentForm({ articleId, parentId, onCancel, onPosted }: CommentFormProps) {
+  const { t, href } = useI18n()
+  const [signedIn, setSignedIn] = useState<boolean | null>(null)
+  const [content, setContent] = useState('')
+  const [posting, setPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setSignedIn(Boolean(session)))
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setPosting(true)
+    setError(null)
+    setMessage('')
+
+    const { error } = await postComment(articleId, content, parentId ?? null)
+    if (error) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setContent('')
+      setMessage(t.comments.awaitingModeration)
+      onPosted?.()
+    }
+
+    setPosting(false)
+  }
+
+  if (signedIn === null) return null
+
+  if (!signedIn) {
+    return (
+      <Link href={href('/login')} className="text-sm font-medium text-blue-600 hover:text-blue-500">
+        {t.comments.signInToComment}
+      </Link>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        required
+        rows={parentId ? 2 : 4}
+        placeholder={t.comments.placeholder}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={posting || !content.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          {posting ? t.comments.posting : t.comments.post}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+            {t.comments.cancel}
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
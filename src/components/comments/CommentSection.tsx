@@ -0,0 +1,71 @@
+// components/comments/CommentSection.tsx
+'use client'
+
+import { useState } from 'react'
+import type { PublicComment } from '@/lib/public-content'
+import { buildThread, type CommentNode } from '@/lib/comments/thread'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import CommentForm from '@/components/comments/CommentForm'
+
+// Replies deeper than this are shown flat under the last indented level.
+const MAX_INDENT_DEPTH = 4
+
+interface CommentSectionProps {
+  articleId: string
+  comments: PublicComment[]
+}
+
+export default function CommentSection({ articleId, comments }: CommentSectionProps) {
+  const { t } = useI18n()
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const thread = buildThread(comments)
+
+  const renderNode = (node: CommentNode<PublicComment>, depth: number) => (
+    <li key={node.id} className="space-y-3">
+      <div className="border rounded-lg p-4">
+        <p className="text-sm font-medium text-gray-900">{node.profiles?.full_name || t.common.unknown}</p>
+        <p className="mt-1 text-gray-800 whitespace-pre-line">{node.content}</p>
+        <div className="mt-2 flex items-center gap-4 text-xs text-gray-500">
+          <time dateTime={node.created_at}>{new Date(node.created_at).toLocaleString()}</time>
+          <button
+            type="button"
+            onClick={() => setReplyingTo(replyingTo === node.id ? null : node.id)}
+            className="font-medium text-blue-600 hover:text-blue-500"
+          >
+            {t.comments.reply}
+          </button>
+        </div>
+      </div>
+
+      {replyingTo === node.id && (
+        <div className="ps-6">
+          <CommentForm articleId={articleId} parentId={node.id} onCancel={() => setReplyingTo(null)} />
+        </div>
+      )}
+
+      {node.replies.length > 0 && (
+        <ul className={`space-y-3 ${depth < MAX_INDENT_DEPTH ? 'ps-6 border-s border-gray-200' : ''}`}>
+          {node.replies.map((reply) => renderNode(reply, depth + 1))}
+        </ul>
+      )}
+    </li>
+  )
+
+  return (
+    <section className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">
+        {t.comments.title} ({comments.length})
+      </h2>
+
+      <CommentForm articleId={articleId} />
+
+      {thread.length === 0 ? (
+        <p className="text-gray-500">{t.comments.empty}</p>
+      ) : (
+        <ul className="space-y-4">
+          {thread.map((node) => renderNode(node, 0))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,223 @@
+// components/comments/ModerationQueue.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase/client'
+import type { CommentStatus } from '@/lib/db/types'
+import * as commentsDb from '@/lib/db/comments'
+import { moderateComments } from '@/lib/comments/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+const STATUSES: CommentStatus[] = ['pending', 'approved', 'rejected']
+
+const PAGE_SIZE = 20
+
+export default function ModerationQueue() {
+  const { t, href } = useI18n()
+  const [status, setStatus] = useState<CommentStatus>('pending')
+  const [page, setPage] = useState(1)
+  const [comments, setComments] = useState<commentsDb.QueueComment[]>([])
+  const [total, setTotal] = useState(0)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const loadComments = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await commentsDb.listByStatus(supabase, status, { page, pageSize: PAGE_SIZE })
+
+    if (error) setError(error.message)
+    setComments(data?.comments ?? [])
+    setTotal(data?.total ?? 0)
+    setSelected(new Set())
+    setLoading(false)
+  }, [status, page])
+
+  useEffect(() => {
+    loadComments()
+  }, [loadComments])
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(selected.size === comments.length ? new Set() : new Set(comments.map((comment) => comment.id)))
+  }
+
+  const moderate = async (ids: string[], to: Exclude<CommentStatus, 'pending'>) => {
+    setWorking(true)
+    setError(null)
+    setMessage('')
+
+    const { data, error } = await moderateComments(ids, to)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setMessage(`${data.count} ${t.moderation.moderated}`)
+      // Moderated comments leave this queue; step back from an emptied last page
+      if (page > 1 && data.count >= comments.length) setPage(page - 1)
+      else await loadComments()
+    }
+
+    setWorking(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.moderation.title}</h1>
+        </div>
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="border-b border-gray-200 flex justify-between items-center px-6">
+            <nav className="flex gap-8" aria-label="Tabs">
+              {STATUSES.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => {
+                    setStatus(value)
+                    setPage(1)
+                  }}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                    status === value
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {t.moderation.statuses[value]}
+                </button>
+              ))}
+            </nav>
+            <div className="flex gap-2">
+              {status !== 'approved' && (
+                <button
+                  onClick={() => moderate([...selected], 'approved')}
+                  disabled={working || selected.size === 0}
+                  className="bg-green-600 text-white px-3 py-1.5 rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+                >
+                  {t.moderation.approveSelected}
+                </button>
+              )}
+              {status !== 'rejected' && (
+                <button
+                  onClick={() => moderate([...selected], 'rejected')}
+                  disabled={working || selected.size === 0}
+                  className="bg-red-600 text-white px-3 py-1.5 rounded-md text-sm hover:bg-red-700 disabled:opacity-50"
+                >
+                  {t.moderation.rejectSelected}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {loading ? (
+              <p className="text-gray-500">{t.common.loading}</p>
+            ) : comments.length === 0 ? (
+              <p className="text-gray-500">{t.moderation.empty}</p>
+            ) : (
+              <>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input type="checkbox" checked={selected.size === comments.length} onChange={toggleAll} />
+                  {t.moderation.selectAll}
+                </label>
+                {comments.map((comment) => (
+                  <div key={comment.id} className="border rounded-lg p-4 flex gap-4">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(comment.id)}
+                      onChange={() => toggle(comment.id)}
+                      className="mt-1"
+                      aria-label={comment.content}
+                    />
+                    <div className="flex-1 space-y-1">
+                      <p className="text-sm text-gray-600">
+                        {comment.profiles?.full_name || comment.profiles?.email || t.common.unknown}
+                        {comment.articles && (
+                          <>
+                            {' · '}{t.moderation.onArticle}{' '}
+                            <Link
+                              href={`/${comment.articles.language}/articles/${comment.articles.slug}`}
+                              className="text-blue-600 hover:text-blue-500"
+                            >
+                              {comment.articles.title}
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                      {comment.parent && (
+                        <p className="text-xs text-gray-500 border-s-2 border-gray-200 ps-2">
+                          {t.moderation.inReplyTo}: {comment.parent.content}
+                        </p>
+                      )}
+                      <p className="text-gray-800 whitespace-pre-line">{comment.content}</p>
+                      <p className="text-xs text-gray-500">{new Date(comment.created_at).toLocaleString()}</p>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      {status !== 'approved' && (
+                        <button
+                          onClick={() => moderate([comment.id], 'approved')}
+                          disabled={working}
+                          className="text-sm font-medium text-green-700 hover:text-green-900 disabled:opacity-50"
+                        >
+                          {t.moderation.approve}
+                        </button>
+                      )}
+                      {status !== 'rejected' && (
+                        <button
+                          onClick={() => moderate([comment.id], 'rejected')}
+                          disabled={working}
+                          className="text-sm font-medium text-red-700 hover:text-red-900 disabled:opacity-50"
+                        >
+                          {t.moderation.reject}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+
+            <div className="flex items-center justify-between text-sm">
+              {page > 1 ? (
+                <button type="button" onClick={() => setPage(page - 1)} className="text-blue-600 hover:text-blue-500">{t.moderation.previous}</button>
+              ) : <span />}
+              <span className="text-gray-500">
+                {t.moderation.page} {page} {t.moderation.of} {pageCount}
+              </span>
+              {page < pageCount ? (
+                <button type="button" onClick={() => setPage(page + 1)} className="text-blue-600 hover:text-blue-500">{t.moderation.next}</button>
+              ) : <span />}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
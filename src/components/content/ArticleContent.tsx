@@ -0,0 +1,79 @@
+// components/content/ArticleContent.tsx
+import ReactMarkdown, { defaultUrlTransform, type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+
+interface ArticleContentProps {
+  content: string | null
+}
+
+// Only web links, mail links and site-relative paths survive; anything else
+// (javascript:, data: and friends) is dropped.
+const SAFE_URL = /^(https?:|mailto:|\/(?!\/)|#)/i
+
+function safeUrl(url: string): string {
+  const transformed = defaultUrlTransform(url)
+  return SAFE_URL.test(transformed) ? transformed : ''
+}
+
+const components: Components = {
+  h1: ({ children }) => <h2 className="text-3xl font-bold text-gray-900 mt-8">{children}</h2>,
+  h2: ({ children }) => <h2 className="text-2xl font-bold text-gray-900 mt-8">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-xl font-semibold text-gray-900 mt-6">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-lg font-semibold text-gray-900 mt-6">{children}</h4>,
+  p: ({ children }) => <p className="leading-relaxed">{children}</p>,
+  a: ({ href, children }) => {
+    const external = href?.startsWith('http')
+    return (
+      <a
+        href={href}
+        className="text-blue-600 underline hover:text-blue-500"
+        {...(external ? { target: '_blank', rel: 'noopener noreferrer nofollow' } : {})}
+      >
+        {children}
+      </a>
+    )
+  },
+  ul: ({ children }) => <ul className="list-disc ps-6 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal ps-6 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-s-4 border-gray-300 ps-4 italic text-gray-700">{children}</blockquote>
+  ),
+  // Code reads left to right even inside Arabic articles
+  pre: ({ children }) => (
+    <pre dir="ltr" className="bg-gray-900 text-gray-100 rounded-md p-4 overflow-x-auto text-sm">{children}</pre>
+  ),
+  code: ({ className, children }) => (
+    className
+      ? <code className={className}>{children}</code>
+      : <code dir="ltr" className="bg-gray-100 text-gray-800 rounded px-1 py-0.5 text-sm">{children}</code>
+  ),
+  img: ({ src, alt }) => (
+    typeof src === 'string' && src
+      // eslint-disable-next-line @next/next/no-img-element
+      ? <img src={src} alt={alt ?? ''} loading="lazy" className="rounded-md max-w-full" />
+      : null
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border border-gray-200">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-gray-200 bg-gray-50 px-3 py-2 text-start">{children}</th>,
+  td: ({ children }) => <td className="border border-gray-200 px-3 py-2">{children}</td>,
+  hr: () => <hr className="border-gray-200" />
+}
+
+// Renders stored article Markdown. Raw HTML in the source is skipped
+// entirely, so scripts, iframes and inline event handlers never reach the
+// page; link and image URLs are limited to safe schemes.
+export default function ArticleContent({ content }: ArticleContentProps) {
+  if (!content) return null
+
+  return (
+    <div className="space-y-4 text-gray-800">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} skipHtml urlTransform={safeUrl} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+// components/content/MarkdownEditor.tsx
+'use client'
+
+import { useRef, useState } from 'react'
+import { Bold, Code, Heading2, Image, Italic, Link, List, ListOrdered, Quote, type LucideIcon } from 'lucide-react'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import ArticleContent from '@/components/content/ArticleContent'
+
+interface MarkdownEditorProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  rows?: number
+}
+
+type ToolbarKey = 'heading' | 'bold' | 'italic' | 'bulletList' | 'numberedList' | 'link' | 'image' | 'quote' | 'code'
+
+// Inline actions wrap the selection; block actions prefix every selected line
+type Action =
+  | { kind: 'wrap'; before: string; after: string; placeholder: string }
+  | { kind: 'block'; prefix: (index: number) => string }
+
+const TOOLBAR: { key: ToolbarKey; icon: LucideIcon; action: Action }[] = [
+  { key: 'heading', icon: Heading2, action: { kind: 'block', prefix: () => '## ' } },
+  { key: 'bold', icon: Bold, action: { kind: 'wrap', before: '**', after: '**', placeholder: 'text' } },
+  { key: 'italic', icon: Italic, action: { kind: 'wrap', before: '_', after: '_', placeholder: 'text' } },
+  { key: 'bulletList', icon: List, action: { kind: 'block', prefix: () => '- ' } },
+  { key: 'numberedList', icon: ListOrdered, action: { kind: 'block', prefix: (index) => `${index + 1}. ` } },
+  { key: 'link', icon: Link, action: { kind: 'wrap', before: '[', after: '](https://)', placeholder: 'link' } },
+  { key: 'image', icon: Image, action: { kind: 'wrap', before: '![', after: '](https://)', placeholder: 'alt text' } },
+  { key: 'quote', icon: Quote, action: { kind: 'block', prefix: () => '> ' } },
+  { key: 'code', icon: Code, action: { kind: 'wrap', before: '`', after: '`', placeholder: 'code' } }
+]
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-b-md shadow-sm placeholder-gray-400 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+function applyAction(value: string, start: number, end: number, action: Action) {
+  if (action.kind === 'wrap') {
+    const selected = value.slice(start, end) || action.placeholder
+    const text = value.slice(0, start) + action.before + selected + action.after + value.slice(end)
+    const selectionStart = start + action.before.length
+    return { text, selectionStart, selectionEnd: selectionStart + selected.length }
+  }
+
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1
+  const block = value.slice(lineStart, end)
+    .split('\n')
+    .map((line, index) => action.prefix(index) + line)
+    .join('\n')
+  const text = value.slice(0, lineStart) + block + value.slice(end)
+  return { text, selectionStart: lineStart, selectionEnd: lineStart + block.length }
+}
+
+export default function MarkdownEditor({ id, value, onChange, rows = 16 }: MarkdownEditorProps) {
+  const { t } = useI18n()
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [previewing, setPreviewing] = useState(false)
+
+  const handleAction = (action: Action) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+
+    const { text, selectionStart, selectionEnd } = applyAction(value, textarea.selectionStart, textarea.selectionEnd, action)
+    onChange(text)
+    // Restore the selection once React has written the new value back
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(selectionStart, selectionEnd)
+    })
+  }
+
+  const tabClassName = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md ${active ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900'}`
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 border border-b-0 border-gray-300 rounded-t-md bg-gray-50 px-2 py-1">
+        <div className="flex gap-1">
+          <button type="button" onClick={() => setPreviewing(false)} className={tabClassName(!previewing)}>
+            {t.editor.write}
+          </button>
+          <button type="button" onClick={() => setPreviewing(true)} className={tabClassName(previewing)}>
+            {t.editor.preview}
+          </button>
+        </div>
+        {!previewing && (
+          <div className="flex flex-wrap gap-1" role="toolbar" aria-controls={id}>
+            {TOOLBAR.map(({ key, icon: Icon, action }) => (
+              <button
+                key={key}
+                type="button"
+                title={t.editor.toolbar[key]}
+                aria-label={t.editor.toolbar[key]}
+                onClick={() => handleAction(action)}
+                className="p-1.5 rounded text-gray-600 hover:bg-gray-200 hover:text-gray-900"
+              >
+                <Icon className="h-4 w-4" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {previewing ? (
+        <div className="min-h-[12rem] border border-gray-300 rounded-b-md p-4">
+          {value.trim()
+            ? <ArticleContent content={value} />
+            : <p className="text-sm text-gray-500">{t.editor.nothingToPreview}</p>}
+        </div>
+      ) : (
+        <textarea
+          id={id}
+          ref={textareaRef}
+          rows={rows}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      )}
+      <p className="mt-1 text-xs text-gray-500">{t.editor.markdownHint}</p>
+    </div>
+  )
+}
@@ -0,0 +1,677 @@
+// components/dashboard/Dashboard.tsx
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { User } from '@supabase/supabase-js'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { supabase } from '@/lib/supabase/client'
+import * as articlesDb from '@/lib/db/articles'
+import * as commentsDb from '@/lib/db/comments'
+import type { DashboardData } from '@/lib/dashboard/data'
+import { dashboardQueryString, isListTab, parseDashboardParams, DASHBOARD_PAGE_SIZE, type DashboardQuery, type DashboardTab } from '@/lib/dashboard/query'
+import { can } from '@/lib/auth/permissions'
+import { authCallbackUrl } from '@/lib/auth/redirect'
+import { createAuthSchemas, type CredentialsValues } from '@/lib/auth/schemas'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import ProfileForm from '@/components/profile/ProfileForm'
+import AiBadge from '@/components/ai/AiBadge'
+import ListFilters from '@/components/dashboard/ListFilters'
+import SortableHeader from '@/components/dashboard/SortableHeader'
+import LiveRefresh from '@/components/realtime/LiveRefresh'
+import NotificationBell from '@/components/notifications/NotificationBell'
+
+interface AuthError {
+  message: string
+}
+
+interface DashboardProps {
+  initialUser: User
+  // One page of the open tab, rendered on the server for the URL's query
+  data: DashboardData
+  query: DashboardQuery
+}
+
+export default function Dashboard({ initialUser, data, query }: DashboardProps) {
+  const { locale, t, href } = useI18n()
+  const router = useRouter()
+  const [user, setUser] = useState<User | null>(initialUser)
+  const [authLoading, setAuthLoading] = useState(false)
+  const [isLogin, setIsLogin] = useState(true)
+  const schemas = useMemo(() => createAuthSchemas(t.auth.validation), [t])
+  const authForm = useForm<CredentialsValues>({
+    resolver: zodResolver(isLogin ? schemas.signIn : schemas.signUp),
+    defaultValues: { email: '', password: '' }
+  })
+  const authErrors = authForm.formState.errors
+  const [error, setError] = useState<AuthError | null>(null)
+  const [message, setMessage] = useState<string>('')
+  const [dataLoading, setDataLoading] = useState(false)
+  // Whose data is on screen, so a repeated SIGNED_IN event does not refetch it
+  const loadedUserId = useRef<string | null>(initialUser.id)
+
+  const { profile, categories, authors, counts, articles, tags, comments, analytics, total, page } = data
+  const activeTab = query.tab
+  const pageCount = Math.max(1, Math.ceil(total / DASHBOARD_PAGE_SIZE))
+  const tabHref = (tab: DashboardTab) => href(`/dashboard${dashboardQueryString(parseDashboardParams({ tab }))}`)
+  const pageHref = (target: number) => href(`/dashboard${dashboardQueryString(query, { page: target })}`)
+
+  // Listen for sign-in and sign-out after the first render
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      async (event, session) => {
+        setUser(session?.user ?? null)
+        
+        if (event === 'SIGNED_OUT') {
+          loadedUserId.current = null
+          setMessage(t.auth.loggedOut)
+        } else if (event === 'SIGNED_IN' && session?.user && session.user.id !== loadedUserId.current) {
+          loadedUserId.current = session.user.id
+          setMessage(t.auth.loggedIn)
+          // The server renders the dashboard again with the new session
+          router.refresh()
+        }
+      }
+    )
+
+    return () => subscription.unsubscribe()
+  }, [router, t])
+
+  const handleSubmit = authForm.handleSubmit(async ({ email, password }) => {
+    setError(null)
+    setMessage('')
+
+    if (isLogin) {
+      const { error } = await supabase.auth.signInWithPassword({ email, password })
+      if (error) setError({ message: error.message })
+    } else {
+      const { error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: authCallbackUrl(window.location.origin, locale, href('/dashboard')) }
+      })
+      if (error) setError({ message: error.message })
+      else setMessage(t.auth.checkEmail)
+    }
+  })
+
+  const handleLogout = async () => {
+    try {
+      setAuthLoading(true)
+      const { error } = await supabase.auth.signOut()
+      if (error) throw error
+      authForm.reset()
+    } catch (error) {
+      setError({ message: error instanceof Error ? error.message : t.auth.logoutError })
+    } finally {
+      setAuthLoading(false)
+    }
+  }
+
+  const toggleAuthMode = () => {
+    setIsLogin(!isLogin)
+    authForm.clearErrors()
+    setError(null)
+    setMessage('')
+  }
+
+  const testDatabaseOperations = async () => {
+    if (!user || !profile) return
+
+    setDataLoading(true)
+    setError(null)
+
+    const runTest = async () => {
+      // Test creating a sample article
+      const article = await articlesDb.create(supabase, {
+        title: 'Test Article',
+        slug: `test-article-${Date.now()}`,
+        content: 'This is a test article content.',
+        excerpt: 'Test excerpt',
+        featured_image: null,
+        featured_media_id: null,
+        category_id: categories[0]?.id || null,
+        language: 'en',
+        translation_group_id: crypto.randomUUID()
+      }, user.id)
+      if (article.error) return article.error
+
+      // Test creating a sample comment
+      const comment = await commentsDb.create(supabase, {
+        article_id: article.data.id,
+        author_id: user.id,
+        parent_id: null,
+        content: 'This is a test comment.'
+      })
+      return comment.error
+    }
+
+    const testError = await runTest()
+    if (testError) {
+      setError({ message: testError.message || t.dashboard.testError })
+    } else {
+      setMessage(t.dashboard.testSuccess)
+      router.refresh()
+    }
+    setDataLoading(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        {user ? (
+          <div className="space-y-6">
+            {/* Header */}
+            <div className="bg-white p-6 rounded-lg shadow-md">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">{t.dashboard.title}</h1>
+                  <p className="text-gray-600">{t.dashboard.loggedInAs} {user.email}</p>
+                  {profile && (
+                    <p className="text-sm text-gray-500">
+                      {t.dashboard.role}: {profile.role} | {t.dashboard.profileId}: {profile.id}
+                    </p>
+                  )}
+                  <LiveRefresh tables={['articles', 'comments']} />
+                </div>
+                <div className="flex items-center space-x-4">
+                  <NotificationBell userId={user.id} />
+                  {can(profile?.role, 'user:manage') && (
+                    <Link
+                      href={href('/admin/users')}
+                      className="bg-gray-800 text-white px-4 py-2 rounded-md hover:bg-gray-900"
+                    >
+                      {t.users.manage}
+                    </Link>
+                  )}
+                  {can(profile?.role, 'api:manage') && (
+                    <Link
+                      href={href('/admin/api-keys')}
+                      className="bg-gray-800 text-white px-4 py-2 rounded-md hover:bg-gray-900"
+                    >
+                      {t.apiKeys.manage}
+                    </Link>
+                  )}
+                  {can(profile?.role, 'media:manage') && (
+                    <Link
+                      href={href('/dashboard/media')}
+                      className="bg-gray-800 text-white px-4 py-2 rounded-md hover:bg-gray-900"
+                    >
+                      {t.media.manage}
+                    </Link>
+                  )}
+                  {can(profile?.role, 'article:create') && (
+                    <button
+                      onClick={testDatabaseOperations}
+                      disabled={dataLoading}
+                      className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {dataLoading ? t.dashboard.testing : t.dashboard.testOperations}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleLogout}
+                    disabled={authLoading}
+                    className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {authLoading ? t.auth.loggingOut : t.auth.logout}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {can(profile?.role, 'article:edit') && (
+              <form action={href('/dashboard/search')} method="get" role="search" className="flex gap-2">
+                <label htmlFor="dashboard-search" className="sr-only">{t.search.title}</label>
+                <input
+                  id="dashboard-search"
+                  name="q"
+                  type="search"
+                  placeholder={t.search.placeholder}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+                  {t.search.submit}
+                </button>
+              </form>
+            )}
+
+            {/* Messages */}
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-4">
+                <p className="text-sm text-green-800">{message}</p>
+              </div>
+            )}
+
+            {(error || data.error) && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-sm text-red-800">{error?.message ?? data.error}</p>
+              </div>
+            )}
+
+            {/* Navigation Tabs */}
+            <div className="bg-white rounded-lg shadow-md">
+              <div className="border-b border-gray-200">
+                <nav className="flex space-x-8 px-6" aria-label="Tabs">
+                  {[
+                    { id: 'overview', name: t.dashboard.tabs.overview },
+                    { id: 'profile', name: t.dashboard.tabs.profile },
+                    { id: 'articles', name: `${t.dashboard.tabs.articles} (${counts.articles})` },
+                    { id: 'scheduled', name: `${t.dashboard.tabs.scheduled} (${counts.scheduled})` },
+                    { id: 'categories', name: `${t.dashboard.tabs.categories} (${counts.categories})` },
+                    { id: 'tags', name: `${t.dashboard.tabs.tags} (${counts.tags})` },
+                    { id: 'comments', name: `${t.dashboard.tabs.comments} (${counts.comments})` },
+                    { id: 'analytics', name: `${t.dashboard.tabs.analytics} (${counts.analytics})`, permission: 'analytics:view' as const }
+                  ].filter((tab) => !tab.permission || can(profile?.role, tab.permission)).map((tab) => (
+                    <Link
+                      key={tab.id}
+                      href={tabHref(tab.id as DashboardTab)}
+                      aria-current={activeTab === tab.id ? 'page' : undefined}
+                      className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                        activeTab === tab.id
+                          ? 'border-blue-500 text-blue-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }`}
+                    >
+                      {tab.name}
+                    </Link>
+                  ))}
+                </nav>
+              </div>
+
+              {/* Tab Content */}
+              <div className="p-6 space-y-4">
+                {activeTab === 'overview' && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div className="bg-blue-50 p-4 rounded-lg">
+                      <h3 className="font-semibold text-blue-900">{t.dashboard.tabs.articles}</h3>
+                      <p className="text-2xl font-bold text-blue-600">{counts.articles}</p>
+                    </div>
+                    <div className="bg-green-50 p-4 rounded-lg">
+                      <h3 className="font-semibold text-green-900">{t.dashboard.tabs.categories}</h3>
+                      <p className="text-2xl font-bold text-green-600">{counts.categories}</p>
+                    </div>
+                    <div className="bg-purple-50 p-4 rounded-lg">
+                      <h3 className="font-semibold text-purple-900">{t.dashboard.tabs.tags}</h3>
+                      <p className="text-2xl font-bold text-purple-600">{counts.tags}</p>
+                    </div>
+                    <div className="bg-orange-50 p-4 rounded-lg">
+                      <h3 className="font-semibold text-orange-900">{t.dashboard.tabs.comments}</h3>
+                      <p className="text-2xl font-bold text-orange-600">{counts.comments}</p>
+                    </div>
+                  </div>
+                )}
+
+                {activeTab === 'profile' && profile && (
+                  <div className="space-y-6">
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <h3 className="font-semibold mb-4">{t.dashboard.profileInformation}</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <p><strong>{t.dashboard.id}:</strong> {profile.id}</p>
+                          <p><strong>{t.dashboard.email}:</strong> {profile.email}</p>
+                          <p><strong>{t.dashboard.fullName}:</strong> {profile.full_name || t.common.notSet}</p>
+                        </div>
+                        <div>
+                          <p><strong>{t.dashboard.role}:</strong> {profile.role}</p>
+                          <p><strong>{t.dashboard.created}:</strong> {new Date(profile.created_at).toLocaleString()}</p>
+                          <p><strong>{t.dashboard.updated}:</strong> {new Date(profile.updated_at).toLocaleString()}</p>
+                        </div>
+                      </div>
+                    </div>
+                    <ProfileForm profile={profile} onSaved={() => router.refresh()} />
+                  </div>
+                )}
+
+                {activeTab === 'articles' && (
+                  <>
+                    <div className="flex flex-wrap items-end justify-between gap-4">
+                      <ListFilters query={query} categories={categories} authors={authors} />
+                      {can(profile?.role, 'article:create') && (
+                        <Link
+                          href={href('/dashboard/articles/new')}
+                          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                        >
+                          {t.dashboard.newArticle}
+                        </Link>
+                      )}
+                    </div>
+                    {articles.length === 0 ? (
+                      <p className="text-gray-500">{t.dashboard.noArticles}</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <SortableHeader query={query} column="title" label={t.dashboard.articleTitle} />
+                              <SortableHeader query={query} column="status" label={t.dashboard.status} />
+                              <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.language}</th>
+                              <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.category}</th>
+                              <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.author}</th>
+                              <SortableHeader query={query} column="created_at" label={t.dashboard.created} />
+                              <SortableHeader query={query} column="updated_at" label={t.dashboard.updated} />
+                              <SortableHeader query={query} column="published_at" label={t.dashboard.published} />
+                              <th scope="col"><span className="sr-only">{t.dashboard.edit}</span></th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            {articles.map((article) => (
+                              <tr key={article.id}>
+                                <td className="px-3 py-2">
+                                  <span className="flex items-center gap-2 font-semibold">
+                                    {article.title}
+                                    {article.ai_generated && <AiBadge reviewed={Boolean(article.ai_reviewed_at)} />}
+                                  </span>
+                                </td>
+                                <td className="px-3 py-2">{t.editor.statuses[article.status]}</td>
+                                <td className="px-3 py-2">{t.common.languages[article.language]}</td>
+                                <td className="px-3 py-2 text-gray-600">{article.categories?.name || t.common.none}</td>
+                                <td className="px-3 py-2 text-gray-600">
+                                  {article.profiles?.full_name || article.profiles?.email || t.common.unknown}
+                                </td>
+                                <td className="px-3 py-2 text-gray-500">{new Date(article.created_at).toLocaleDateString(locale)}</td>
+                                <td className="px-3 py-2 text-gray-500">{new Date(article.updated_at).toLocaleDateString(locale)}</td>
+                                <td className="px-3 py-2 text-gray-500">
+                                  {article.published_at ? new Date(article.published_at).toLocaleDateString(locale) : t.common.none}
+                                </td>
+                                <td className="px-3 py-2 text-end">
+                                  {can(profile?.role, 'article:edit') && (
+                                    <Link
+                                      href={href(`/dashboard/articles/${article.id}/edit`)}
+                                      className="font-medium text-blue-600 hover:text-blue-500"
+                                    >
+                                      {t.dashboard.edit}
+                                    </Link>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {activeTab === 'scheduled' && (
+                  articles.length === 0 ? (
+                    <p className="text-gray-500">{t.dashboard.noScheduled}</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <SortableHeader query={query} column="title" label={t.dashboard.articleTitle} />
+                            <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.status}</th>
+                            <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.language}</th>
+                            <SortableHeader query={query} column="publish_at" label={t.schedule.publishAt} />
+                            <SortableHeader query={query} column="archive_at" label={t.schedule.archiveAt} />
+                            <th scope="col"><span className="sr-only">{t.dashboard.edit}</span></th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {articles.map((article) => (
+                            <tr key={article.id}>
+                              <td className="px-3 py-2 font-semibold">{article.title}</td>
+                              <td className="px-3 py-2">{t.editor.statuses[article.status]}</td>
+                              <td className="px-3 py-2">{t.common.languages[article.language]}</td>
+                              <td className="px-3 py-2 text-gray-600">
+                                {article.publish_at ? new Date(article.publish_at).toLocaleString(locale) : t.common.none}
+                              </td>
+                              <td className="px-3 py-2 text-gray-600">
+                                {article.archive_at ? new Date(article.archive_at).toLocaleString(locale) : t.common.none}
+                              </td>
+                              <td className="px-3 py-2 text-end">
+                                {can(profile?.role, 'article:edit') && (
+                                  <Link
+                                    href={href(`/dashboard/articles/${article.id}/edit`)}
+                                    className="font-medium text-blue-600 hover:text-blue-500"
+                                  >
+                                    {t.dashboard.edit}
+                                  </Link>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )
+                )}
+
+                {activeTab === 'categories' && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {can(profile?.role, 'category:manage') && (
+                      <div className="md:col-span-2 flex justify-end">
+                        <Link
+                          href={href('/admin/categories')}
+                          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                        >
+                          {t.categories.manage}
+                        </Link>
+                      </div>
+                    )}
+                    {categories.map((category) => (
+                      <div key={category.id} className="border rounded-lg p-4">
+                        <h4 className="font-semibold">{category.name}</h4>
+                        <p className="text-sm text-gray-600">{t.dashboard.slug}: {category.slug}</p>
+                        <p className="text-sm text-gray-600">{t.dashboard.priority}: {category.priority}</p>
+                        <p className="text-sm text-gray-500">{category.description}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {activeTab === 'tags' && (
+                  <>
+                    {can(profile?.role, 'tag:manage') && (
+                      <div className="flex justify-end">
+                        <Link
+                          href={href('/dashboard/tags')}
+                          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                        >
+                          {t.tags.manage}
+                        </Link>
+                      </div>
+                    )}
+                    {tags.length === 0 ? (
+                      <p className="text-gray-500">{t.dashboard.noTags}</p>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <SortableHeader query={query} column="name" label={t.dashboard.name} />
+                            <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.slug}</th>
+                            <SortableHeader query={query} column="created_at" label={t.dashboard.created} />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {tags.map((tag) => (
+                            <tr key={tag.id}>
+                              <td className="px-3 py-2 font-semibold">{tag.name}</td>
+                              <td className="px-3 py-2 text-gray-600">{tag.slug}</td>
+                              <td className="px-3 py-2 text-gray-500">{new Date(tag.created_at).toLocaleDateString(locale)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </>
+                )}
+
+                {activeTab === 'comments' && (
+                  <>
+                    <div className="flex flex-wrap items-end justify-between gap-4">
+                      <ListFilters query={query} categories={categories} authors={authors} />
+                      {can(profile?.role, 'comment:moderate') && (
+                        <Link
+                          href={href('/dashboard/comments')}
+                          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                        >
+                          {t.dashboard.moderationQueue}
+                        </Link>
+                      )}
+                    </div>
+                    {comments.length === 0 ? (
+                      <p className="text-gray-500">{t.dashboard.noComments}</p>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.comment}</th>
+                            <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.author}</th>
+                            <SortableHeader query={query} column="status" label={t.dashboard.status} />
+                            <SortableHeader query={query} column="created_at" label={t.dashboard.created} />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {comments.map((comment) => (
+                            <tr key={comment.id}>
+                              <td className="px-3 py-2">{comment.content}</td>
+                              <td className="px-3 py-2 text-gray-600">
+                                {comment.profiles?.full_name || comment.profiles?.email || t.common.unknown}
+                              </td>
+                              <td className="px-3 py-2">{t.moderation.statuses[comment.status]}</td>
+                              <td className="px-3 py-2 text-gray-500">{new Date(comment.created_at).toLocaleString(locale)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </>
+                )}
+
+                {activeTab === 'analytics' && can(profile?.role, 'analytics:view') && (
+                  <>
+                    <div className="flex justify-end">
+                      <Link
+                        href={href('/dashboard/analytics')}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                      >
+                        {t.analytics.open}
+                      </Link>
+                    </div>
+                    {analytics.length === 0 ? (
+                      <p className="text-gray-500">{t.dashboard.noAnalytics}</p>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th scope="col" className="px-3 py-2 text-start font-medium text-gray-700">{t.dashboard.articleId}</th>
+                            <SortableHeader query={query} column="date" label={t.dashboard.date} />
+                            <SortableHeader query={query} column="views" label={t.dashboard.views} />
+                            <SortableHeader query={query} column="shares" label={t.dashboard.shares} />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {analytics.map((analytic) => (
+                            <tr key={analytic.id}>
+                              <td className="px-3 py-2 font-mono text-xs text-gray-600">{analytic.article_id}</td>
+                              <td className="px-3 py-2">{analytic.date}</td>
+                              <td className="px-3 py-2">{analytic.views}</td>
+                              <td className="px-3 py-2">{analytic.shares}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </>
+                )}
+
+                {isListTab(activeTab) && total > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    {page > 1 ? (
+                      <Link href={pageHref(page - 1)} className="text-blue-600 hover:text-blue-500">{t.dashboard.previous}</Link>
+                    ) : <span />}
+                    <span className="text-gray-500">
+                      {t.dashboard.page} {page} {t.dashboard.of} {pageCount}
+                    </span>
+                    {page < pageCount ? (
+                      <Link href={pageHref(page + 1)} className="text-blue-600 hover:text-blue-500">{t.dashboard.next}</Link>
+                    ) : <span />}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          // Login/Register form (unchanged)
+          <div className="max-w-md mx-auto">
+            <div className="bg-white p-8 rounded-lg shadow-md">
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900">
+                  {isLogin ? t.auth.signInTitle : t.auth.signUpTitle}
+                </h2>
+                <p className="mt-2 text-sm text-gray-600">
+                  {isLogin ? t.auth.noAccount : t.auth.haveAccount}
+                  <button
+                    onClick={toggleAuthMode}
+                    className="ms-1 font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                  >
+                    {isLogin ? t.auth.signUp : t.auth.signIn}
+                  </button>
+                </p>
+              </div>
+
+              <form onSubmit={handleSubmit} noValidate className="space-y-6">
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t.auth.email}
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    aria-invalid={Boolean(authErrors.email)}
+                    {...authForm.register('email')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder={t.auth.emailPlaceholder}
+                  />
+                  {authErrors.email && <p className="mt-1 text-sm text-red-600">{authErrors.email.message}</p>}
+                </div>
+
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t.auth.password}
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    autoComplete={isLogin ? 'current-password' : 'new-password'}
+                    aria-invalid={Boolean(authErrors.password)}
+                    {...authForm.register('password')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder={t.auth.passwordPlaceholder}
+                  />
+                  {authErrors.password && <p className="mt-1 text-sm text-red-600">{authErrors.password.message}</p>}
+                </div>
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                    <p className="text-sm text-red-800">{error.message}</p>
+                  </div>
+                )}
+
+                {message && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+                    <p className="text-sm text-blue-800">{message}</p>
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={authForm.formState.isSubmitting}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {authForm.formState.isSubmitting ? t.auth.processing : (isLogin ? t.auth.signIn : t.auth.signUp)}
+                </button>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+// components/dashboard/ListFilters.tsx
+'use client'
+
+import Link from 'next/link'
+import type { Category } from '@/lib/db/types'
+import type { Author } from '@/lib/db/profiles'
+import { commentStatusSchema } from '@/lib/db/schemas'
+import { ARTICLE_STATUSES } from '@/lib/articles/workflow'
+import { dashboardQueryString, type DashboardQuery } from '@/lib/dashboard/query'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface ListFiltersProps {
+  query: DashboardQuery
+  categories: Category[]
+  authors: Author[]
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const labelClassName = 'block text-sm font-medium text-gray-700 mb-1'
+
+// Filters for the articles and comments tabs. A plain GET form like the
+// search page, so a filtered view is a URL that can be shared.
+export default function ListFilters({ query, categories, authors }: ListFiltersProps) {
+  const { t, href } = useI18n()
+  const statuses = query.tab === 'comments'
+    ? commentStatusSchema.options.map((status) => ({ value: status, label: t.moderation.statuses[status] }))
+    : ARTICLE_STATUSES.map((status) => ({ value: status, label: t.editor.statuses[status] }))
+
+  return (
+    <form action={href('/dashboard')} method="get" className="flex flex-wrap items-end gap-4">
+      <input type="hidden" name="tab" value={query.tab} />
+      <input type="hidden" name="sort" value={query.sort} />
+      <input type="hidden" name="dir" value={query.dir} />
+
+      <div>
+        <label htmlFor="filter-status" className={labelClassName}>{t.dashboard.status}</label>
+        <select id="filter-status" name="status" defaultValue={query.status ?? ''} className={inputClassName}>
+          <option value="">{t.dashboard.anyStatus}</option>
+          {statuses.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {query.tab === 'articles' && (
+        <>
+          <div>
+            <label htmlFor="filter-lang" className={labelClassName}>{t.dashboard.language}</label>
+            <select id="filter-lang" name="lang" defaultValue={query.lang ?? ''} className={inputClassName}>
+              <option value="">{t.dashboard.anyLanguage}</option>
+              <option value="en">{t.common.languages.en}</option>
+              <option value="ar">{t.common.languages.ar}</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-category" className={labelClassName}>{t.dashboard.category}</label>
+            <select id="filter-category" name="category" defaultValue={query.category ?? ''} className={inputClassName}>
+              <option value="">{t.dashboard.anyCategory}</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-author" className={labelClassName}>{t.dashboard.author}</label>
+            <select id="filter-author" name="author" defaultValue={query.author ?? ''} className={inputClassName}>
+              <option value="">{t.dashboard.anyAuthor}</option>
+              {authors.map((author) => (
+                <option key={author.id} value={author.id}>{author.full_name || author.email}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+        {t.dashboard.applyFilters}
+      </button>
+      <Link
+        href={href(`/dashboard${dashboardQueryString({ tab: query.tab, page: 1, sort: query.sort, dir: query.dir })}`)}
+        className="py-2 text-sm text-blue-600 hover:text-blue-500"
+      >
+        {t.dashboard.clearFilters}
+      </Link>
+    </form>
+  )
+}
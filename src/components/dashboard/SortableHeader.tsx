@@ -0,0 +1,38 @@
+// components/dashboard/SortableHeader.tsx
+'use client'
+
+import Link from 'next/link'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { dashboardQueryString, type DashboardQuery } from '@/lib/dashboard/query'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface SortableHeaderProps {
+  query: DashboardQuery
+  column: string
+  label: string
+}
+
+// Table header linking to the list sorted by its column; a second click
+// flips the direction.
+export default function SortableHeader({ query, column, label }: SortableHeaderProps) {
+  const { href } = useI18n()
+  const active = query.sort === column
+  const dir = active && query.dir === 'asc' ? 'desc' : 'asc'
+  const Arrow = query.dir === 'asc' ? ArrowUp : ArrowDown
+
+  return (
+    <th
+      scope="col"
+      aria-sort={active ? (query.dir === 'asc' ? 'ascending' : 'descending') : undefined}
+      className="px-3 py-2 text-start font-medium text-gray-700"
+    >
+      <Link
+        href={href(`/dashboard${dashboardQueryString(query, { sort: column, dir, page: 1 })}`)}
+        className="inline-flex items-center gap-1 hover:text-blue-600"
+      >
+        {label}
+        {active && <Arrow className="h-3 w-3" aria-hidden="true" />}
+      </Link>
+    </th>
+  )
+}
@@ -0,0 +1,36 @@
+// components/i18n/I18nProvider.tsx
+'use client'
+
+import { createContext, useContext } from 'react'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+
+interface I18nContextValue {
+  locale: Locale
+  t: Dictionary
+  href: (path: string) => string
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+export function I18nProvider({
+  locale,
+  dictionary,
+  children,
+}: {
+  locale: Locale
+  dictionary: Dictionary
+  children: React.ReactNode
+}) {
+  return (
+    <I18nContext.Provider value={{ locale, t: dictionary, href: (path) => localizePath(locale, path) }}>
+      {children}
+    </I18nContext.Provider>
+  )
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext)
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider')
+  return context
+}
@@ -0,0 +1,23 @@
+// components/i18n/LocaleSwitcher.tsx
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { localizePath, splitLocale } from '@/lib/i18n/config'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+export default function LocaleSwitcher() {
+  const pathname = usePathname()
+  const { locale, t } = useI18n()
+  const target = locale === 'ar' ? 'en' : 'ar'
+
+  return (
+    <Link
+      href={localizePath(target, splitLocale(pathname).path)}
+      hrefLang={target}
+      className="text-sm font-medium text-gray-600 hover:text-gray-900"
+    >
+      {t.common.switchLanguage}
+    </Link>
+  )
+}
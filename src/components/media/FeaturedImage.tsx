@@ -0,0 +1,28 @@
+// components/media/FeaturedImage.tsx
+import Image from 'next/image'
+import { isMediaUrl } from '@/lib/media/storage'
+
+interface FeaturedImageProps {
+  src: string
+  alt: string | null
+  // Classes for the wrapper, which must give the image its size
+  className: string
+  sizes: string
+  priority?: boolean
+}
+
+// Library images are resized and served in modern formats by next/image.
+// Older articles may still point at arbitrary URLs that the image optimizer
+// is not allowed to fetch; those are shown as they are.
+export default function FeaturedImage({ src, alt, className, sizes, priority = false }: FeaturedImageProps) {
+  return (
+    <div className={`relative overflow-hidden bg-gray-100 ${className}`}>
+      {isMediaUrl(src) ? (
+        <Image src={src} alt={alt ?? ''} fill sizes={sizes} priority={priority} className="object-cover" />
+      ) : (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={src} alt={alt ?? ''} loading={priority ? 'eager' : 'lazy'} className="absolute inset-0 h-full w-full object-cover" />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,316 @@
+// components/media/MediaLibrary.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Image from 'next/image'
+import { supabase } from '@/lib/supabase/client'
+import type { MediaAsset } from '@/lib/db/types'
+import * as mediaDb from '@/lib/db/media'
+import { addMedia, deleteMedia, updateMedia } from '@/lib/media/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { MAX_MEDIA_SIZE, MEDIA_TYPES, readImageSize, uploadMedia } from '@/lib/media/storage'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface MediaLibraryProps {
+  // When given, the details panel offers a button that hands the asset back
+  onSelect?: (asset: MediaAsset) => void
+  selectedId?: string | null
+}
+
+const PAGE_SIZE = 24
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function MediaLibrary({ onSelect, selectedId = null }: MediaLibraryProps) {
+  const { locale, t } = useI18n()
+  const [assets, setAssets] = useState<MediaAsset[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [query, setQuery] = useState('')
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [current, setCurrent] = useState<MediaAsset | null>(null)
+  const [details, setDetails] = useState({ alt_text: '', caption: '' })
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const loadAssets = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await mediaDb.search(supabase, { query, page, pageSize: PAGE_SIZE })
+
+    if (error) setError(error.message)
+    setAssets(data?.assets ?? [])
+    setTotal(data?.total ?? 0)
+    setLoading(false)
+  }, [query, page])
+
+  useEffect(() => {
+    loadAssets()
+  }, [loadAssets])
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  const showDetails = (asset: MediaAsset | null) => {
+    setCurrent(asset)
+    setDetails({ alt_text: asset?.alt_text ?? '', caption: asset?.caption ?? '' })
+  }
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setPage(1)
+    setQuery(search.trim())
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+    setError(null)
+    setMessage('')
+
+    if (files.some((file) => !MEDIA_TYPES.includes(file.type))) {
+      setError(t.media.invalidType)
+      return
+    }
+    if (files.some((file) => file.size > MAX_MEDIA_SIZE)) {
+      setError(t.media.tooLarge)
+      return
+    }
+
+    setWorking(true)
+    let last: MediaAsset | null = null
+    for (const file of files) {
+      const { data: stored, error: uploadError } = await uploadMedia(supabase, file)
+      if (uploadError) {
+        setError(uploadError.message)
+        break
+      }
+
+      const size = await readImageSize(file)
+      const { data, error } = await addMedia({
+        ...stored,
+        file_name: file.name,
+        mime_type: file.type,
+        size_bytes: file.size,
+        width: size?.width ?? null,
+        height: size?.height ?? null,
+        alt_text: null,
+        caption: null
+      })
+      if (error || !data) {
+        setError(actionErrorMessage(t, error))
+        break
+      }
+      last = data
+    }
+
+    if (last) {
+      setMessage(t.media.uploaded)
+      showDetails(last)
+      if (page === 1 && !query) await loadAssets()
+      else {
+        setSearch('')
+        setQuery('')
+        setPage(1)
+      }
+    }
+    setWorking(false)
+  }
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!current) return
+    setWorking(true)
+    setError(null)
+    setMessage('')
+
+    const { data, error } = await updateMedia(current.id, details)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setAssets(prev => prev.map((asset) => asset.id === data.id ? data : asset))
+      showDetails(data)
+      setMessage(t.media.saved)
+    }
+
+    setWorking(false)
+  }
+
+  const handleDelete = async () => {
+    if (!current || !window.confirm(t.media.confirmDelete)) return
+    setWorking(true)
+    setError(null)
+    setMessage('')
+
+    const { error } = await deleteMedia(current.id)
+    if (error) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      showDetails(null)
+      setMessage(t.media.deleted)
+      await loadAssets()
+    }
+
+    setWorking(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-800">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-start gap-4 justify-between">
+        <form onSubmit={handleSearch} className="flex gap-2 flex-1 min-w-[16rem]">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t.media.searchPlaceholder}
+            className={`${inputClassName} flex-1`}
+          />
+          <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+            {t.media.search}
+          </button>
+        </form>
+        <div className="text-end">
+          <label className={`inline-block cursor-pointer bg-gray-800 text-white px-4 py-2 rounded-md hover:bg-gray-900 ${working ? 'opacity-50 pointer-events-none' : ''}`}>
+            {working ? t.media.uploading : t.media.upload}
+            <input type="file" multiple accept={MEDIA_TYPES.join(',')} onChange={handleUpload} disabled={working} className="sr-only" />
+          </label>
+          <p className="mt-1 text-xs text-gray-500">{t.media.uploadHint}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : assets.length === 0 ? (
+            <p className="text-gray-500">{t.media.empty}</p>
+          ) : (
+            <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              {assets.map((asset) => (
+                <li key={asset.id}>
+                  <button
+                    type="button"
+                    onClick={() => showDetails(asset)}
+                    aria-pressed={current?.id === asset.id}
+                    title={asset.alt_text ?? asset.file_name}
+                    className={`relative block w-full aspect-square overflow-hidden rounded-md bg-gray-100 ring-offset-2 ${
+                      current?.id === asset.id ? 'ring-2 ring-blue-600' : selectedId === asset.id ? 'ring-2 ring-green-600' : 'hover:opacity-90'
+                    }`}
+                  >
+                    <Image
+                      src={asset.url}
+                      alt={asset.alt_text ?? ''}
+                      fill
+                      sizes="(min-width: 1024px) 12rem, (min-width: 640px) 33vw, 50vw"
+                      className="object-cover"
+                    />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-between text-sm">
+            {page > 1 ? (
+              <button type="button" onClick={() => setPage(page - 1)} className="text-blue-600 hover:text-blue-500">{t.media.previous}</button>
+            ) : <span />}
+            <span className="text-gray-500">
+              {t.media.page} {page} {t.media.of} {pageCount}
+            </span>
+            {page < pageCount ? (
+              <button type="button" onClick={() => setPage(page + 1)} className="text-blue-600 hover:text-blue-500">{t.media.next}</button>
+            ) : <span />}
+          </div>
+        </div>
+
+        <div className="border rounded-lg p-4">
+          <h2 className="font-semibold text-gray-900 mb-4">{t.media.details}</h2>
+          {!current ? (
+            <p className="text-sm text-gray-500">{t.media.selectHint}</p>
+          ) : (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="relative w-full aspect-video rounded-md overflow-hidden bg-gray-100">
+                <Image
+                  src={current.url}
+                  alt={current.alt_text ?? ''}
+                  fill
+                  sizes="(min-width: 1024px) 20rem, 100vw"
+                  className="object-contain"
+                />
+              </div>
+              <div className="text-xs text-gray-500 space-y-1">
+                <p className="break-all">{current.file_name}</p>
+                <p>
+                  {current.width && current.height ? `${current.width} × ${current.height} · ` : ''}
+                  {Math.ceil(current.size_bytes / 1024)} KB · {new Date(current.created_at).toLocaleDateString(locale)}
+                </p>
+              </div>
+              <div>
+                <label htmlFor="media-alt-text" className="block text-sm font-medium text-gray-700 mb-1">{t.media.altText}</label>
+                <input
+                  id="media-alt-text"
+                  value={details.alt_text}
+                  onChange={(e) => setDetails(prev => ({ ...prev, alt_text: e.target.value }))}
+                  className={inputClassName}
+                />
+                <p className="mt-1 text-xs text-gray-500">{t.media.altTextHint}</p>
+              </div>
+              <div>
+                <label htmlFor="media-caption" className="block text-sm font-medium text-gray-700 mb-1">{t.media.caption}</label>
+                <textarea
+                  id="media-caption"
+                  rows={3}
+                  value={details.caption}
+                  onChange={(e) => setDetails(prev => ({ ...prev, caption: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="submit"
+                  disabled={working}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {working ? t.media.saving : t.media.save}
+                </button>
+                {onSelect && (
+                  <button
+                    type="button"
+                    onClick={() => onSelect(current)}
+                    disabled={working}
+                    className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {t.media.useImage}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={working}
+                  className="px-4 py-2 rounded-md text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  {t.media.delete}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+// components/media/MediaManager.tsx
+'use client'
+
+import Link from 'next/link'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import MediaLibrary from '@/components/media/MediaLibrary'
+
+export default function MediaManager() {
+  const { t, href } = useI18n()
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.media.manage}</h1>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <MediaLibrary />
+        </div>
+      </div>
+    </div>
+  )
+}
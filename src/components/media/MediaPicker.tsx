@@ -0,0 +1,51 @@
+// components/media/MediaPicker.tsx
+'use client'
+
+import { useState } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import type { MediaAsset } from '@/lib/db/types'
+import { useI18n } from '@/components/i18n/I18nProvider'
+import MediaLibrary from '@/components/media/MediaLibrary'
+
+interface MediaPickerProps {
+  selectedId: string | null
+  onSelect: (asset: MediaAsset) => void
+}
+
+export default function MediaPicker({ selectedId, onSelect }: MediaPickerProps) {
+  const { t } = useI18n()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Dialog.Root open={open} onOpenChange={setOpen}>
+      <Dialog.Trigger className="bg-gray-800 text-white text-sm px-3 py-2 rounded-md hover:bg-gray-900">
+        {t.media.chooseFromLibrary}
+      </Dialog.Trigger>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/40" />
+        {/* The picker sits inside the article form; React bubbles submit
+            events through the portal, so keep the library's forms to itself */}
+        <Dialog.Content
+          onSubmit={(e) => e.stopPropagation()}
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[calc(100%-2rem)] max-w-5xl max-h-[90vh] overflow-y-auto bg-white rounded-lg shadow-lg p-6 space-y-4"
+        >
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Dialog.Title className="text-lg font-semibold text-gray-900">{t.media.pickerTitle}</Dialog.Title>
+              <Dialog.Description className="text-sm text-gray-600">{t.media.pickerDescription}</Dialog.Description>
+            </div>
+            <Dialog.Close className="px-3 py-1 text-gray-600 hover:text-gray-900">{t.media.close}</Dialog.Close>
+          </div>
+          {/* Only mounted while open, so the library loads on demand */}
+          <MediaLibrary
+            selectedId={selectedId}
+            onSelect={(asset) => {
+              onSelect(asset)
+              setOpen(false)
+            }}
+          />
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,137 @@
+// components/notifications/NotificationBell.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Bell } from 'lucide-react'
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu'
+import { supabase } from '@/lib/supabase/client'
+import * as notificationsDb from '@/lib/db/notifications'
+import { markNotificationsRead } from '@/lib/notifications/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { notificationPath } from '@/lib/notifications/events'
+import { notificationsChannel } from '@/lib/realtime/channels'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface NotificationBellProps {
+  userId: string
+}
+
+// Bell with the unread count and a menu of recent notifications. New
+// notifications arrive over realtime.
+export default function NotificationBell({ userId }: NotificationBellProps) {
+  const { locale, t, href } = useI18n()
+  const [notifications, setNotifications] = useState<notificationsDb.NotificationEntry[]>([])
+  const [unread, setUnread] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadNotifications = useCallback(async () => {
+    const [recent, count] = await Promise.all([
+      notificationsDb.listRecent(supabase, userId),
+      notificationsDb.countUnread(supabase, userId)
+    ])
+
+    setError(recent.error?.message ?? count.error?.message ?? null)
+    setNotifications(recent.data || [])
+    setUnread(count.data ?? 0)
+  }, [userId])
+
+  useEffect(() => {
+    loadNotifications()
+
+    const channel = supabase
+      .channel(notificationsChannel(userId))
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => loadNotifications()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, loadNotifications])
+
+  const markRead = async (ids?: string[]) => {
+    const { error } = await markNotificationsRead(ids)
+    if (error) setError(actionErrorMessage(t, error))
+    else await loadNotifications()
+  }
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger
+        aria-label={`${t.notifications.open}${unread > 0 ? ` (${unread} ${t.notifications.unread})` : ''}`}
+        className="relative rounded-md p-2 text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+      >
+        <Bell className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -end-0.5 min-w-5 rounded-full bg-red-600 px-1 text-center text-xs font-semibold leading-5 text-white">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </DropdownMenu.Trigger>
+
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          align="end"
+          sideOffset={8}
+          className="z-50 w-80 rounded-lg border border-gray-200 bg-white shadow-lg"
+        >
+          <div className="flex items-center justify-between gap-2 border-b border-gray-100 px-4 py-3">
+            <DropdownMenu.Label className="font-semibold text-gray-900">{t.notifications.title}</DropdownMenu.Label>
+            {unread > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead()}
+                className="text-xs font-medium text-blue-600 hover:text-blue-500"
+              >
+                {t.notifications.markAllRead}
+              </button>
+            )}
+          </div>
+
+          {error && <p className="px-4 py-2 text-sm text-red-600">{error}</p>}
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">{t.notifications.empty}</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <DropdownMenu.Item key={notification.id} asChild>
+                  <Link
+                    href={notificationPath(locale, notification.event, notification.article_id, notification.articles)}
+                    onClick={() => !notification.read_at && markRead([notification.id])}
+                    className={`block border-b border-gray-100 px-4 py-3 text-sm outline-none last:border-0 hover:bg-gray-50 focus:bg-gray-50 ${notification.read_at ? 'text-gray-500' : 'text-gray-900'}`}
+                  >
+                    <span className="flex items-start gap-2">
+                      {!notification.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-600" aria-hidden="true" />}
+                      <span className="space-y-0.5">
+                        <span className="block font-medium">{t.notifications.messages[notification.event]}</span>
+                        {notification.articles && <span dir="auto" className="block">{notification.articles.title}</span>}
+                        <span className="block text-xs text-gray-500">
+                          {notification.actor && `${notification.actor.full_name || notification.actor.email} · `}
+                          {new Date(notification.created_at).toLocaleString(locale)}
+                        </span>
+                      </span>
+                    </span>
+                  </Link>
+                </DropdownMenu.Item>
+              ))}
+            </div>
+          )}
+
+          <DropdownMenu.Item asChild>
+            <Link
+              href={href('/dashboard/notifications')}
+              className="block border-t border-gray-100 px-4 py-2 text-center text-sm font-medium text-blue-600 outline-none hover:bg-gray-50 focus:bg-gray-50"
+            >
+              {t.notifications.settings}
+            </Link>
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  )
+}
@@ -0,0 +1,117 @@
+// components/notifications/NotificationPreferences.tsx
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import type { NotificationEvent, NotificationPreference, Role } from '@/lib/db/types'
+import { can } from '@/lib/auth/permissions'
+import { EVENT_PERMISSIONS, NOTIFICATION_EVENTS } from '@/lib/notifications/events'
+import { saveNotificationPreferences } from '@/lib/notifications/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface NotificationPreferencesProps {
+  role: Role
+  // Stored rows only; missing events have both channels on
+  preferences: NotificationPreference[]
+}
+
+type Channels = Pick<NotificationPreference, 'in_app' | 'email'>
+
+// Per-event channel switches, limited to the events the user's role can
+// receive.
+export default function NotificationPreferences({ role, preferences }: NotificationPreferencesProps) {
+  const { t, href } = useI18n()
+  const events = NOTIFICATION_EVENTS.filter((event) => {
+    const permission = EVENT_PERMISSIONS[event]
+    return !permission || can(role, permission)
+  })
+  const [channels, setChannels] = useState<Record<NotificationEvent, Channels>>(() => Object.fromEntries(
+    NOTIFICATION_EVENTS.map((event) => {
+      const stored = preferences.find((preference) => preference.event === event)
+      return [event, { in_app: stored?.in_app ?? true, email: stored?.email ?? true }]
+    })
+  ) as Record<NotificationEvent, Channels>)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const toggle = (event: NotificationEvent, channel: keyof Channels) => {
+    setChannels(prev => ({ ...prev, [event]: { ...prev[event], [channel]: !prev[event][channel] } }))
+    setMessage('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    setMessage('')
+
+    const { error } = await saveNotificationPreferences(events.map((event) => ({ event, ...channels[event] })))
+    if (error) setError(actionErrorMessage(t, error))
+    else setMessage(t.notifications.saved)
+
+    setSaving(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.notifications.settings}</h1>
+          <p className="mt-1 text-sm text-gray-500">{t.notifications.settingsDescription}</p>
+        </div>
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 border-b">
+                <th className="py-2 text-start font-medium">{t.notifications.event}</th>
+                <th className="py-2 text-center font-medium">{t.notifications.inApp}</th>
+                <th className="py-2 text-center font-medium">{t.notifications.email}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event} className="border-b last:border-0">
+                  <td className="py-3 pe-4 text-gray-900">{t.notifications.events[event]}</td>
+                  {(['in_app', 'email'] as const).map((channel) => (
+                    <td key={channel} className="py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={channels[event][channel]}
+                        onChange={() => toggle(event, channel)}
+                        aria-label={`${t.notifications.events[event]}: ${channel === 'in_app' ? t.notifications.inApp : t.notifications.email}`}
+                        className="h-4 w-4"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? t.notifications.saving : t.notifications.save}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
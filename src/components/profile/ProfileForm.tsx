@@ -0,0 +1,172 @@
+// components/profile/ProfileForm.tsx
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { supabase } from '@/lib/supabase/client'
+import type { Profile } from '@/lib/db/types'
+import { MAX_NAME_LENGTH } from '@/lib/db/schemas'
+import { updateProfile } from '@/lib/profiles/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { AVATAR_TYPES, cropAvatar, uploadAvatar } from '@/lib/profiles/avatar'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface ProfileFormProps {
+  profile: Profile
+  onSaved: (profile: Profile) => void
+}
+
+interface ProfileFormValues {
+  full_name: string
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function ProfileForm({ profile, onSaved }: ProfileFormProps) {
+  const { t, href } = useI18n()
+  const schema = useMemo(() => z.object({
+    full_name: z.string().trim().max(MAX_NAME_LENGTH, t.profile.nameTooLong)
+  }), [t])
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<ProfileFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { full_name: profile.full_name ?? '' }
+  })
+  // Cropped image waiting to be uploaded on save, or null to remove the avatar
+  const [pendingAvatar, setPendingAvatar] = useState<Blob | null | undefined>(undefined)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (!pendingAvatar) {
+      setPreview(null)
+      return
+    }
+    const url = URL.createObjectURL(pendingAvatar)
+    setPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [pendingAvatar])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setError(null)
+    setMessage('')
+
+    if (!AVATAR_TYPES.includes(file.type)) {
+      setError(t.profile.invalidImage)
+      return
+    }
+
+    try {
+      setPendingAvatar(await cropAvatar(file))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.profile.invalidImage)
+    }
+  }
+
+  const onSubmit = handleSubmit(async ({ full_name }) => {
+    setError(null)
+    setMessage('')
+
+    let avatarUrl = profile.avatar_url
+    if (pendingAvatar) {
+      const { data, error } = await uploadAvatar(supabase, profile.id, pendingAvatar)
+      if (error) {
+        setError(error.message)
+        return
+      }
+      avatarUrl = data
+    } else if (pendingAvatar === null) {
+      avatarUrl = null
+    }
+
+    const { data, error } = await updateProfile({ full_name, avatar_url: avatarUrl })
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setPendingAvatar(undefined)
+      setMessage(t.profile.saved)
+      onSaved(data)
+    }
+  })
+
+  const shownAvatar = pendingAvatar === null ? null : preview ?? profile.avatar_url
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t.profile.editTitle}</h3>
+        <Link href={href(`/authors/${profile.id}`)} className="text-sm text-blue-600 hover:text-blue-500">
+          {t.profile.viewPublicPage}
+        </Link>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-800">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">{t.profile.avatar}</span>
+        <div className="flex items-center gap-4">
+          {shownAvatar ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={shownAvatar} alt="" className="h-20 w-20 rounded-full object-cover" />
+          ) : (
+            <div className="h-20 w-20 rounded-full bg-gray-200" />
+          )}
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <label className="cursor-pointer bg-gray-800 text-white text-sm px-3 py-2 rounded-md hover:bg-gray-900">
+                {t.profile.chooseAvatar}
+                <input type="file" accept={AVATAR_TYPES.join(',')} onChange={handleFile} className="sr-only" />
+              </label>
+              {shownAvatar && (
+                <button
+                  type="button"
+                  onClick={() => setPendingAvatar(null)}
+                  className="text-sm px-3 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100"
+                >
+                  {t.profile.removeAvatar}
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">{t.profile.avatarHint}</p>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="full_name" className="block text-sm font-medium text-gray-700 mb-2">{t.profile.fullName}</label>
+        <input
+          id="full_name"
+          autoComplete="name"
+          aria-invalid={Boolean(errors.full_name)}
+          {...register('full_name')}
+          className={inputClassName}
+        />
+        {errors.full_name && <p className="mt-1 text-sm text-red-600">{errors.full_name.message}</p>}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isSubmitting ? t.profile.saving : t.profile.save}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,45 @@
+// components/public/ArticleCard.tsx
+import Link from 'next/link'
+import type { ArticleSummary } from '@/lib/public-content'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import FeaturedImage from '@/components/media/FeaturedImage'
+
+interface ArticleCardProps {
+  locale: Locale
+  article: ArticleSummary
+}
+
+export default function ArticleCard({ locale, article }: ArticleCardProps) {
+  return (
+    <article className="bg-white rounded-lg shadow-md overflow-hidden">
+      {article.featured_image && (
+        <FeaturedImage
+          src={article.featured_image}
+          alt={article.featured_media?.alt_text ?? null}
+          sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+          className="w-full h-48"
+        />
+      )}
+      <div className="p-4">
+        {article.categories && (
+          <Link
+            href={localizePath(locale, `/${article.categories.slug}`)}
+            className="text-xs font-semibold uppercase tracking-wide text-blue-600 hover:text-blue-500"
+          >
+            {article.categories.name}
+          </Link>
+        )}
+        <h2 className="mt-1 text-lg font-semibold text-gray-900">
+          <Link href={localizePath(locale, `/articles/${article.slug}`)} className="hover:underline">
+            {article.title}
+          </Link>
+        </h2>
+        {article.excerpt && <p className="mt-2 text-sm text-gray-600">{article.excerpt}</p>}
+        <p className="mt-3 text-xs text-gray-500">
+          {article.profiles?.full_name && `${article.profiles.full_name} · `}
+          {article.published_at && new Date(article.published_at).toLocaleDateString(locale)}
+        </p>
+      </div>
+    </article>
+  )
+}
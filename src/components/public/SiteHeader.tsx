@@ -0,0 +1,53 @@
+// components/public/SiteHeader.tsx
+import Link from 'next/link'
+import type { Category } from '@/lib/db/types'
+import { localizePath, type Locale } from '@/lib/i18n/config'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import LocaleSwitcher from '@/components/i18n/LocaleSwitcher'
+
+interface SiteHeaderProps {
+  locale: Locale
+  t: Dictionary
+  categories: Category[]
+}
+
+export default function SiteHeader({ locale, t, categories }: SiteHeaderProps) {
+  return (
+    <header className="bg-white border-b border-gray-200">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center py-4">
+          <Link href={localizePath(locale, '/')} className="text-2xl font-bold text-gray-900">
+            {t.common.siteName}
+          </Link>
+          <div className="flex items-center gap-6">
+            <form action={localizePath(locale, '/search')} method="get" role="search">
+              <label htmlFor="site-search" className="sr-only">{t.search.title}</label>
+              <input
+                id="site-search"
+                name="q"
+                type="search"
+                placeholder={t.search.placeholder}
+                className="w-40 sm:w-56 px-3 py-1.5 text-sm border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </form>
+            <LocaleSwitcher />
+            <Link href={localizePath(locale, '/dashboard')} className="text-sm font-medium text-blue-600 hover:text-blue-500">
+              {t.common.dashboard}
+            </Link>
+          </div>
+        </div>
+        <nav className="flex gap-6 overflow-x-auto pb-3" aria-label="Categories">
+          {categories.map((category) => (
+            <Link
+              key={category.id}
+              href={localizePath(locale, `/${category.slug}`)}
+              className="text-sm font-medium text-gray-600 hover:text-gray-900 whitespace-nowrap"
+            >
+              {category.name}
+            </Link>
+          ))}
+        </nav>
+      </div>
+    </header>
+  )
+}
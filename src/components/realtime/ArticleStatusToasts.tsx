@@ -0,0 +1,102 @@
+// components/realtime/ArticleStatusToasts.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { X } from 'lucide-react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase/client'
+import type { Article, ArticleStatus } from '@/lib/db/types'
+import * as articlesDb from '@/lib/db/articles'
+import { authorChannel } from '@/lib/realtime/channels'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface StatusToast {
+  id: string
+  articleId: string
+  title: string
+  status: ArticleStatus
+}
+
+const TOAST_DURATION_MS = 8000
+
+// Tells the signed-in user when one of their articles changes status,
+// whether a colleague or the scheduler moved it.
+export default function ArticleStatusToasts() {
+  const { t, href } = useI18n()
+  const [toasts, setToasts] = useState<StatusToast[]>([])
+
+  const dismiss = useCallback((id: string) => {
+    setToasts(prev => prev.filter((toast) => toast.id !== id))
+  }, [])
+
+  useEffect(() => {
+    let channel: RealtimeChannel | null = null
+    let cancelled = false
+
+    const subscribe = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user || cancelled) return
+
+      // Change events carry only the new row, so the previous status of
+      // each article is remembered here
+      const { data } = await articlesDb.listStatusesByAuthor(supabase, user.id)
+      if (cancelled) return
+      const statuses = new Map((data ?? []).map((article) => [article.id, article.status]))
+
+      channel = supabase
+        .channel(authorChannel(user.id))
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'articles', filter: `author_id=eq.${user.id}` },
+          (payload) => {
+            if (payload.eventType === 'DELETE') return
+            const article = payload.new as Article
+            const previous = statuses.get(article.id)
+            statuses.set(article.id, article.status)
+            if (!previous || previous === article.status) return
+
+            const toast = { id: crypto.randomUUID(), articleId: article.id, title: article.title, status: article.status }
+            setToasts(prev => [...prev, toast])
+            setTimeout(() => dismiss(toast.id), TOAST_DURATION_MS)
+          }
+        )
+        .subscribe()
+    }
+
+    subscribe()
+    return () => {
+      cancelled = true
+      if (channel) supabase.removeChannel(channel)
+    }
+  }, [dismiss])
+
+  return (
+    <div aria-live="polite" className="fixed bottom-4 end-4 z-50 flex w-80 flex-col gap-2">
+      {toasts.map((toast) => (
+        <div key={toast.id} role="status" className="flex items-start gap-3 rounded-lg border border-gray-200 bg-white p-4 shadow-lg">
+          <div className="flex-1 space-y-1 text-sm">
+            <p className="font-medium text-gray-900">{t.realtime.statusChanged}</p>
+            <p dir="auto" className="text-gray-700">{toast.title}</p>
+            <p className="text-gray-500">{t.editor.movedTo} {t.editor.statuses[toast.status]}</p>
+            <Link
+              href={href(`/dashboard/articles/${toast.articleId}/edit`)}
+              onClick={() => dismiss(toast.id)}
+              className="inline-block font-medium text-blue-600 hover:text-blue-500"
+            >
+              {t.realtime.openArticle}
+            </Link>
+          </div>
+          <button
+            type="button"
+            onClick={() => dismiss(toast.id)}
+            aria-label={t.realtime.dismiss}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
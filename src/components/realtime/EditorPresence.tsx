@@ -0,0 +1,91 @@
+// components/realtime/EditorPresence.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase/client'
+import * as profilesDb from '@/lib/db/profiles'
+import { editorChannel, type PresentEditor } from '@/lib/realtime/channels'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface EditorPresenceProps {
+  articleId: string
+}
+
+// Announces the signed-in user as an editor of the article and lists the
+// other people who have it open, so they do not overwrite each other.
+export default function EditorPresence({ articleId }: EditorPresenceProps) {
+  const { t } = useI18n()
+  const [others, setOthers] = useState<PresentEditor[]>([])
+
+  useEffect(() => {
+    let channel: RealtimeChannel | null = null
+    let cancelled = false
+
+    const join = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user || cancelled) return
+      const { data: profile } = await profilesDb.get(supabase, user.id)
+      if (cancelled) return
+
+      const presence: PresentEditor = {
+        user_id: user.id,
+        full_name: profile?.full_name ?? null,
+        avatar_url: profile?.avatar_url ?? null,
+        joined_at: new Date().toISOString()
+      }
+
+      // Keyed by user, so the same person in two tabs shows up once
+      channel = supabase.channel(editorChannel(articleId), { config: { presence: { key: user.id } } })
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel?.presenceState<PresentEditor>() ?? {}
+          setOthers(Object.entries(state)
+            .filter(([key]) => key !== user.id)
+            .map(([, entries]) => entries[0])
+            .filter(Boolean)
+            .sort((a, b) => a.joined_at.localeCompare(b.joined_at)))
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') channel?.track(presence)
+        })
+    }
+
+    join()
+    return () => {
+      cancelled = true
+      if (channel) supabase.removeChannel(channel)
+    }
+  }, [articleId])
+
+  if (others.length === 0) return null
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-md p-4 flex flex-wrap items-center gap-3">
+      <div className="flex -space-x-2 rtl:space-x-reverse">
+        {others.map((person) => person.avatar_url ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={person.user_id}
+            src={person.avatar_url}
+            alt=""
+            className="h-8 w-8 rounded-full border-2 border-white object-cover"
+          />
+        ) : (
+          <span
+            key={person.user_id}
+            aria-hidden="true"
+            className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-white bg-amber-200 text-xs font-semibold text-amber-900"
+          >
+            {(person.full_name || '?').charAt(0).toUpperCase()}
+          </span>
+        ))}
+      </div>
+      <p className="text-sm text-amber-900">
+        <span className="font-medium">{t.realtime.alsoEditing}</span>{' '}
+        {others.map((person) => person.full_name || t.common.unknown).join(', ')}.{' '}
+        {t.realtime.overwriteWarning}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+// components/realtime/LiveRefresh.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { supabase } from '@/lib/supabase/client'
+import { changesChannel, type RealtimeTable } from '@/lib/realtime/channels'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface LiveRefreshProps {
+  tables: RealtimeTable[]
+}
+
+// Changes often arrive in bursts (a save touches several rows), so the page
+// is refreshed once they settle.
+const REFRESH_DELAY_MS = 1000
+
+// Renders the server data of the page again whenever a row in one of the
+// tables changes, and shows whether updates are live.
+export default function LiveRefresh({ tables }: LiveRefreshProps) {
+  const router = useRouter()
+  const { t } = useI18n()
+  const [connected, setConnected] = useState(false)
+  // A string, so a new array with the same tables keeps the subscription
+  const tableList = tables.join(',')
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const refresh = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => router.refresh(), REFRESH_DELAY_MS)
+    }
+
+    const subscribed = tableList.split(',') as RealtimeTable[]
+    const channel = supabase.channel(changesChannel(subscribed))
+    for (const table of subscribed) {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table }, refresh)
+    }
+    channel.subscribe((status) => setConnected(status === 'SUBSCRIBED'))
+
+    return () => {
+      clearTimeout(timer)
+      supabase.removeChannel(channel)
+    }
+  }, [tableList, router])
+
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs text-gray-500" title={connected ? t.realtime.liveHint : undefined}>
+      <span className={`h-2 w-2 rounded-full ${connected ? 'bg-green-500' : 'bg-gray-300'}`} aria-hidden="true" />
+      {connected ? t.realtime.live : t.realtime.offline}
+    </span>
+  )
+}
@@ -0,0 +1,261 @@
+// components/reviews/ReviewNotes.tsx
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import type { ArticleStatus, Role } from '@/lib/db/types'
+import * as reviewsDb from '@/lib/db/reviews'
+import { MAX_REVIEW_TEXT_LENGTH } from '@/lib/db/schemas'
+import { canAnnotate } from '@/lib/articles/workflow'
+import { anchorNote, highlightSegments, textOffset, type TextRange } from '@/lib/reviews/ranges'
+import { addReviewNote, deleteReviewNote, setReviewNoteResolved } from '@/lib/reviews/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface ReviewNotesProps {
+  articleId: string
+  role: Role
+  status: ArticleStatus
+  content: string
+}
+
+// The article content with review notes highlighted on the ranges they
+// refer to. While the article is in review, selecting text starts a note.
+export default function ReviewNotes({ articleId, role, status, content }: ReviewNotesProps) {
+  const { locale, t } = useI18n()
+  const contentRef = useRef<HTMLDivElement>(null)
+  const [notes, setNotes] = useState<reviewsDb.ReviewNoteEntry[]>([])
+  const [userId, setUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showResolved, setShowResolved] = useState(false)
+  const [selection, setSelection] = useState<(TextRange & { quote: string }) | null>(null)
+  const [body, setBody] = useState('')
+  const [activeId, setActiveId] = useState<string | null>(null)
+
+  const loadNotes = useCallback(async () => {
+    const [{ data: { user } }, { data, error }] = await Promise.all([
+      supabase.auth.getUser(),
+      reviewsDb.listNotes(supabase, articleId)
+    ])
+
+    if (error) setError(error.message)
+    setUserId(user?.id ?? null)
+    setNotes(data || [])
+    setLoading(false)
+  }, [articleId])
+
+  useEffect(() => {
+    loadNotes()
+  }, [loadNotes])
+
+  const anchored = useMemo(
+    () => notes.map((note) => ({ note, range: anchorNote(content, note) })),
+    [notes, content]
+  )
+  const segments = useMemo(() => highlightSegments(content, anchored.flatMap(({ note, range }) =>
+    range && !note.resolved_at ? [{ id: note.id, ...range }] : []
+  )), [anchored, content])
+
+  const annotate = canAnnotate(role, status)
+  const visible = anchored.filter(({ note }) => showResolved || !note.resolved_at)
+  const resolvedCount = notes.filter((note) => note.resolved_at).length
+
+  // Offsets are counted in the rendered text, which is the content as is
+  const handleSelect = () => {
+    const container = contentRef.current
+    const selected = window.getSelection()
+    if (!annotate || !container || !selected || selected.isCollapsed || selected.rangeCount === 0) return
+
+    const range = selected.getRangeAt(0)
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return
+
+    const start = textOffset(container, range.startContainer, range.startOffset)
+    const end = textOffset(container, range.endContainer, range.endOffset)
+    if (end > start) setSelection({ start, end, quote: content.slice(start, end) })
+  }
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!selection) return
+    setWorking(true)
+    setError(null)
+
+    const { data, error } = await addReviewNote({
+      article_id: articleId,
+      range_start: selection.start,
+      range_end: selection.end,
+      quote: selection.quote,
+      body
+    })
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setNotes(prev => [...prev, data].sort((a, b) => a.range_start - b.range_start))
+      setSelection(null)
+      setBody('')
+      setActiveId(data.id)
+    }
+
+    setWorking(false)
+  }
+
+  const handleResolve = async (note: reviewsDb.ReviewNoteEntry) => {
+    setWorking(true)
+    setError(null)
+
+    const { data, error } = await setReviewNoteResolved(note.id, !note.resolved_at)
+    if (error || !data) setError(actionErrorMessage(t, error))
+    else setNotes(prev => prev.map((item) => (item.id === data.id ? data : item)))
+
+    setWorking(false)
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(t.review.confirmDelete)) return
+    setWorking(true)
+    setError(null)
+
+    const { error } = await deleteReviewNote(id)
+    if (error) setError(actionErrorMessage(t, error))
+    else setNotes(prev => prev.filter((note) => note.id !== id))
+
+    setWorking(false)
+  }
+
+  const focusNote = (id: string) => {
+    setActiveId(id)
+    document.getElementById(`review-note-${id}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }
+
+  const person = (profile: reviewsDb.ReviewNoteEntry['author']) => profile?.full_name || profile?.email || t.common.unknown
+
+  return (
+    <section className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-gray-900">{t.review.notesTitle}</h2>
+          <p className="text-sm text-gray-500">{t.review.notesDescription}</p>
+        </div>
+        {resolvedCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+            {t.review.showResolved} ({resolvedCount})
+          </label>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {content ? (
+        <div
+          ref={contentRef}
+          dir="auto"
+          onMouseUp={handleSelect}
+          onKeyUp={handleSelect}
+          className="max-h-96 overflow-y-auto whitespace-pre-wrap break-words rounded-md border border-gray-200 bg-gray-50 p-4 text-sm text-gray-800"
+        >
+          {segments.map((segment) => segment.noteIds.length > 0 ? (
+            <mark
+              key={segment.start}
+              onClick={() => focusNote(segment.noteIds[0])}
+              className={`cursor-pointer rounded-sm ${segment.noteIds.includes(activeId ?? '') ? 'bg-yellow-300' : 'bg-yellow-100'}`}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={segment.start}>{segment.text}</span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">{t.review.noContent}</p>
+      )}
+
+      {annotate && selection && (
+        <form onSubmit={handleAdd} className="space-y-2 rounded-md border border-blue-200 bg-blue-50 p-4">
+          <p className="text-xs font-medium text-blue-900">{t.review.selection}</p>
+          <blockquote dir="auto" className="line-clamp-3 border-s-2 border-blue-300 ps-2 text-sm italic text-blue-900">
+            {selection.quote}
+          </blockquote>
+          <label htmlFor="review-note" className="sr-only">{t.review.note}</label>
+          <textarea
+            id="review-note"
+            required
+            rows={3}
+            dir="auto"
+            maxLength={MAX_REVIEW_TEXT_LENGTH}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setSelection(null)}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              {t.review.cancel}
+            </button>
+            <button
+              type="submit"
+              disabled={working || !body.trim()}
+              className="bg-blue-600 text-white text-sm px-3 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {working ? t.review.adding : t.review.addNote}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">{t.review.loading}</p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500">{t.review.noNotes}</p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map(({ note, range }) => (
+            <li
+              key={note.id}
+              id={`review-note-${note.id}`}
+              onClick={() => setActiveId(note.id)}
+              className={`rounded-md border p-3 text-sm ${activeId === note.id ? 'border-yellow-400 bg-yellow-50' : 'border-gray-200'} ${note.resolved_at ? 'opacity-60' : ''}`}
+            >
+              <blockquote dir="auto" className="line-clamp-2 border-s-2 border-gray-300 ps-2 italic text-gray-600">
+                {note.quote}
+              </blockquote>
+              {!range && <p className="mt-1 text-xs text-amber-700">{t.review.outdated}</p>}
+              <p dir="auto" className="mt-2 whitespace-pre-wrap text-gray-900">{note.body}</p>
+              <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+                <span>
+                  {person(note.author)}, {new Date(note.created_at).toLocaleString(locale)}
+                  {note.resolved_at && ` | ${t.review.resolvedBy} ${person(note.resolver)}`}
+                </span>
+                <span className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(note)}
+                    disabled={working}
+                    className="font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                  >
+                    {note.resolved_at ? t.review.reopen : t.review.resolve}
+                  </button>
+                  {note.author_id === userId && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(note.id)}
+                      disabled={working}
+                      className="font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                    >
+                      {t.review.delete}
+                    </button>
+                  )}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,211 @@
+// components/reviews/ReviewSignOff.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { supabase } from '@/lib/supabase/client'
+import type { ArticleStatus, Role } from '@/lib/db/types'
+import type { StatusChange } from '@/lib/db/articles'
+import * as reviewsDb from '@/lib/db/reviews'
+import { MAX_REVIEW_TEXT_LENGTH } from '@/lib/db/schemas'
+import { canSignOff } from '@/lib/articles/workflow'
+import { approveArticle, requestArticleChanges } from '@/lib/reviews/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface ReviewSignOffProps {
+  articleId: string
+  role: Role
+  status: ArticleStatus
+  approval: reviewsDb.ReviewEntry | null
+  onApprovalChange: (approval: reviewsDb.ReviewEntry | null) => void
+  onChangesRequested: (change: StatusChange) => void
+}
+
+// The approval an article needs before publishing, the reviewer's approve
+// and request changes actions, and the decisions made so far.
+export default function ReviewSignOff({
+  articleId,
+  role,
+  status,
+  approval,
+  onApprovalChange,
+  onChangesRequested
+}: ReviewSignOffProps) {
+  const { locale, t } = useI18n()
+  const [decisions, setDecisions] = useState<reviewsDb.ReviewEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [reason, setReason] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReview = useCallback(async () => {
+    const [history, current] = await Promise.all([
+      reviewsDb.listDecisions(supabase, articleId),
+      reviewsDb.getCurrentApproval(supabase, articleId)
+    ])
+
+    if (history.error || current.error) setError((history.error ?? current.error)?.message ?? null)
+    setDecisions(history.data || [])
+    if (!current.error) onApprovalChange(current.data)
+    setLoading(false)
+  }, [articleId, onApprovalChange])
+
+  useEffect(() => {
+    loadReview()
+  }, [loadReview])
+
+  const handleApprove = async () => {
+    setWorking(true)
+    setError(null)
+
+    const { data, error } = await approveArticle(articleId)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setDecisions(prev => [data, ...prev])
+      onApprovalChange(data)
+    }
+
+    setWorking(false)
+  }
+
+  const handleRequestChanges = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setWorking(true)
+    setError(null)
+
+    const { data, error } = await requestArticleChanges(articleId, reason)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+      setWorking(false)
+    } else {
+      // The parent remounts this panel for the new status
+      setDialogOpen(false)
+      onChangesRequested(data)
+    }
+  }
+
+  const reviewer = (entry: reviewsDb.ReviewEntry) => entry.reviewer?.full_name || entry.reviewer?.email || t.common.unknown
+  const latest = decisions[0]
+  const signOff = canSignOff(role, status)
+
+  return (
+    <section className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-gray-900">{t.review.signOffTitle}</h2>
+          <p className="text-sm text-gray-500">{t.review.signOffDescription}</p>
+        </div>
+        {signOff && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleApprove}
+              disabled={working || loading || Boolean(approval)}
+              className="bg-green-600 text-white text-sm px-3 py-2 rounded-md hover:bg-green-700 disabled:opacity-50"
+            >
+              {working && !dialogOpen ? t.review.approving : t.review.approve}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setReason('')
+                setError(null)
+                setDialogOpen(true)
+              }}
+              disabled={working || loading}
+              className="bg-amber-600 text-white text-sm px-3 py-2 rounded-md hover:bg-amber-700 disabled:opacity-50"
+            >
+              {t.review.requestChanges}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && !dialogOpen && <p className="text-sm text-red-600">{error}</p>}
+
+      {approval ? (
+        <p className="text-sm text-green-800">
+          {t.review.approvedBy} {reviewer(approval)}, {new Date(approval.created_at).toLocaleString(locale)}
+        </p>
+      ) : status === 'review' && !loading && (
+        <p className="text-sm text-gray-600">{t.review.notApproved}</p>
+      )}
+
+      {status === 'draft' && latest?.decision === 'changes_requested' && (
+        <div className="bg-amber-50 border border-amber-200 rounded-md p-4 space-y-1">
+          <p className="text-sm font-medium text-amber-900">
+            {t.review.changesRequested}: {reviewer(latest)}, {new Date(latest.created_at).toLocaleString(locale)}
+          </p>
+          <p dir="auto" className="whitespace-pre-wrap text-sm text-amber-900">{latest.reason}</p>
+        </div>
+      )}
+
+      <div>
+        <h3 className="mb-2 text-sm font-medium text-gray-700">{t.review.history}</h3>
+        {loading ? (
+          <p className="text-sm text-gray-500">{t.review.loading}</p>
+        ) : decisions.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.review.noHistory}</p>
+        ) : (
+          <ul className="max-h-60 overflow-y-auto divide-y divide-gray-200 rounded-md border border-gray-200 text-sm">
+            {decisions.map((decision) => (
+              <li key={decision.id} className="px-3 py-2">
+                <p className="text-gray-600">
+                  <span className={decision.decision === 'approved' ? 'font-medium text-green-700' : 'font-medium text-amber-700'}>
+                    {t.review.decisions[decision.decision]}
+                  </span>
+                  {' '}{reviewer(decision)}, {new Date(decision.created_at).toLocaleString(locale)}
+                </p>
+                {decision.reason && <p dir="auto" className="mt-1 whitespace-pre-wrap text-gray-800">{decision.reason}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <Dialog.Root open={dialogOpen} onOpenChange={setDialogOpen}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/40" />
+          <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-white rounded-lg shadow-lg p-6">
+            <form onSubmit={handleRequestChanges} className="space-y-4">
+              <Dialog.Title className="text-lg font-semibold text-gray-900">{t.review.requestChanges}</Dialog.Title>
+              <Dialog.Description className="text-sm text-gray-600">{t.review.requestChangesDescription}</Dialog.Description>
+
+              <div>
+                <label htmlFor="review-reason" className="block text-sm font-medium text-gray-700 mb-2">{t.review.reason}</label>
+                <textarea
+                  id="review-reason"
+                  required
+                  rows={5}
+                  dir="auto"
+                  maxLength={MAX_REVIEW_TEXT_LENGTH}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-700">{error}</p>}
+
+              <div className="flex justify-end gap-2">
+                <Dialog.Close type="button" className="px-4 py-2 text-gray-600 hover:text-gray-900">
+                  {t.review.cancel}
+                </Dialog.Close>
+                <button
+                  type="submit"
+                  disabled={working || !reason.trim()}
+                  className="bg-amber-600 text-white px-4 py-2 rounded-md hover:bg-amber-700 disabled:opacity-50"
+                >
+                  {working ? t.review.sending : t.review.send}
+                </button>
+              </div>
+            </form>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </section>
+  )
+}
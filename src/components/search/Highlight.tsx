@@ -0,0 +1,26 @@
+// components/search/Highlight.tsx
+import { Fragment } from 'react'
+import { HIGHLIGHT_END, HIGHLIGHT_START } from '@/lib/db/search'
+
+interface HighlightProps {
+  text: string
+}
+
+// Renders search_articles output, turning the match delimiters into <mark>
+// elements. The text itself is never parsed as HTML.
+export default function Highlight({ text }: HighlightProps) {
+  return (
+    <>
+      {text.split(HIGHLIGHT_START).map((part, index) => {
+        if (index === 0) return <Fragment key={index}>{part}</Fragment>
+        const [match, rest = ''] = part.split(HIGHLIGHT_END)
+        return (
+          <Fragment key={index}>
+            <mark className="bg-yellow-100 text-inherit rounded-sm px-0.5">{match}</mark>
+            {rest}
+          </Fragment>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,85 @@
+// components/search/SearchFilters.tsx
+import Link from 'next/link'
+import type { Category } from '@/lib/db/types'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import { ARTICLE_STATUSES } from '@/lib/articles/workflow'
+import { MAX_QUERY_LENGTH, type SearchFilters as Filters } from '@/lib/search/params'
+
+interface SearchFiltersProps {
+  t: Dictionary
+  // Localized path of the search page the form submits to
+  action: string
+  filters: Filters
+  categories: Category[]
+  showStatus?: boolean
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+const labelClassName = 'block text-sm font-medium text-gray-700 mb-1'
+
+// A plain GET form, so searches are shareable URLs and work without
+// JavaScript.
+export default function SearchFilters({ t, action, filters, categories, showStatus = false }: SearchFiltersProps) {
+  return (
+    <form action={action} method="get" role="search" className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <div className="flex gap-2">
+        <label htmlFor="search-q" className="sr-only">{t.search.keywords}</label>
+        <input
+          id="search-q"
+          name="q"
+          type="search"
+          defaultValue={filters.q}
+          maxLength={MAX_QUERY_LENGTH}
+          placeholder={t.search.placeholder}
+          className={`${inputClassName} flex-1`}
+        />
+        <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+          {t.search.submit}
+        </button>
+      </div>
+
+      <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${showStatus ? 'lg:grid-cols-5' : 'lg:grid-cols-4'}`}>
+        <div>
+          <label htmlFor="search-lang" className={labelClassName}>{t.search.language}</label>
+          <select id="search-lang" name="lang" defaultValue={filters.lang ?? ''} className={inputClassName}>
+            <option value="">{t.search.anyLanguage}</option>
+            <option value="en">{t.common.languages.en}</option>
+            <option value="ar">{t.common.languages.ar}</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="search-category" className={labelClassName}>{t.search.category}</label>
+          <select id="search-category" name="category" defaultValue={filters.category ?? ''} className={inputClassName}>
+            <option value="">{t.search.anyCategory}</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+        {showStatus && (
+          <div>
+            <label htmlFor="search-status" className={labelClassName}>{t.search.status}</label>
+            <select id="search-status" name="status" defaultValue={filters.status ?? ''} className={inputClassName}>
+              <option value="">{t.search.anyStatus}</option>
+              {ARTICLE_STATUSES.map((status) => (
+                <option key={status} value={status}>{t.editor.statuses[status]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="search-from" className={labelClassName}>{t.search.from}</label>
+          <input id="search-from" name="from" type="date" defaultValue={filters.from ?? ''} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="search-to" className={labelClassName}>{t.search.to}</label>
+          <input id="search-to" name="to" type="date" defaultValue={filters.to ?? ''} className={inputClassName} />
+        </div>
+      </div>
+
+      <Link href={filters.q ? `${action}?q=${encodeURIComponent(filters.q)}` : action} className="inline-block text-sm text-blue-600 hover:text-blue-500">
+        {t.search.clear}
+      </Link>
+    </form>
+  )
+}
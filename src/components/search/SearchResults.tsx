@@ -0,0 +1,86 @@
+// components/search/SearchResults.tsx
+import Link from 'next/link'
+import type { SearchResult } from '@/lib/db/search'
+import { localeDirection, localizePath, type Locale } from '@/lib/i18n/config'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import { searchQueryString, SEARCH_PAGE_SIZE, type SearchFilters } from '@/lib/search/params'
+import Highlight from '@/components/search/Highlight'
+
+interface SearchResultsProps {
+  t: Dictionary
+  locale: Locale
+  // Localized path of the search page, for pagination links
+  action: string
+  filters: SearchFilters
+  results: SearchResult[]
+  total: number
+  // Dashboard results open the editor and show the status
+  variant: 'public' | 'dashboard'
+}
+
+export default function SearchResults({ t, locale, action, filters, results, total, variant }: SearchResultsProps) {
+  if (!filters.q) return <p className="text-gray-500">{t.search.prompt}</p>
+  if (results.length === 0) return <p className="text-gray-500">{t.search.noResults}</p>
+
+  const pageCount = Math.max(1, Math.ceil(total / SEARCH_PAGE_SIZE))
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        {total} {t.search.resultsFor} &ldquo;{filters.q}&rdquo;
+      </p>
+
+      <ul className="space-y-4">
+        {results.map((result) => {
+          const date = result.published_at ?? result.created_at
+          return (
+            <li
+              key={result.id}
+              lang={result.language}
+              dir={localeDirection(result.language)}
+              className="bg-white p-6 rounded-lg shadow-md space-y-2"
+            >
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                {result.category_name && (
+                  <span className="font-semibold uppercase tracking-wide text-blue-600">{result.category_name}</span>
+                )}
+                <span>{t.common.languages[result.language]}</span>
+                {variant === 'dashboard' && (
+                  <span className="rounded-full bg-gray-100 px-2 py-0.5 text-gray-700">{t.editor.statuses[result.status]}</span>
+                )}
+                <time dateTime={date}>{new Date(date).toLocaleDateString(locale)}</time>
+              </div>
+              <h2 className="text-lg font-semibold text-gray-900">
+                <Link
+                  href={variant === 'dashboard'
+                    ? localizePath(locale, `/dashboard/articles/${result.id}/edit`)
+                    : localizePath(result.language, `/articles/${result.slug}`)}
+                  className="hover:underline"
+                >
+                  <Highlight text={result.title_highlight} />
+                </Link>
+              </h2>
+              {result.snippet && (
+                <p className="text-sm text-gray-600">
+                  <Highlight text={result.snippet} />
+                </p>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      <div className="flex items-center justify-between text-sm">
+        {filters.page > 1 ? (
+          <Link href={`${action}${searchQueryString(filters, filters.page - 1)}`} className="text-blue-600 hover:text-blue-500">{t.search.previous}</Link>
+        ) : <span />}
+        <span className="text-gray-500">
+          {t.search.page} {filters.page} {t.search.of} {pageCount}
+        </span>
+        {filters.page < pageCount ? (
+          <Link href={`${action}${searchQueryString(filters, filters.page + 1)}`} className="text-blue-600 hover:text-blue-500">{t.search.next}</Link>
+        ) : <span />}
+      </div>
+    </div>
+  )
+}
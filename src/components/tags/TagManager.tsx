@@ -0,0 +1,201 @@
+// components/tags/TagManager.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase/client'
+import type { Tag } from '@/lib/db/types'
+import * as tagsDb from '@/lib/db/tags'
+import { createTag, deleteTag, mergeTags, updateTag } from '@/lib/tags/actions'
+import { actionErrorMessage, type ActionError } from '@/lib/actions'
+import { slugify } from '@/lib/slug'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function TagManager() {
+  const { t, href } = useI18n()
+  const [tags, setTags] = useState<tagsDb.TagWithCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newTag, setNewTag] = useState({ name: '', slug: '' })
+  const [editing, setEditing] = useState<{ id: string; name: string; slug: string } | null>(null)
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({})
+
+  const loadTags = useCallback(async () => {
+    const { data, error } = await tagsDb.listWithCounts(supabase)
+
+    if (error) setError(error.message)
+    setTags(data || [])
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadTags()
+  }, [loadTags])
+
+  // Runs an action and reloads the list when it succeeds
+  const run = async (action: () => Promise<{ error: ActionError | null }>) => {
+    setWorking(true)
+    setError(null)
+    const { error } = await action()
+    if (error) setError(actionErrorMessage(t, error))
+    else await loadTags()
+    setWorking(false)
+    return !error
+  }
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const created = await run(() => createTag(newTag.name, newTag.slug))
+    if (created) setNewTag({ name: '', slug: '' })
+  }
+
+  const handleRename = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!editing) return
+    const saved = await run(() => updateTag(editing.id, editing.name, editing.slug))
+    if (saved) setEditing(null)
+  }
+
+  const handleDelete = (tag: Tag) => {
+    if (!window.confirm(t.tags.confirmDelete)) return
+    run(() => deleteTag(tag.id))
+  }
+
+  const handleMerge = (tag: Tag) => {
+    const targetId = mergeTargets[tag.id]
+    if (!targetId || !window.confirm(t.tags.confirmMerge)) return
+    run(() => mergeTags(tag.id, targetId))
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.tags.manage}</h1>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow-md flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[12rem]">
+            <label htmlFor="tag-name" className="block text-sm font-medium text-gray-700 mb-2">{t.tags.name}</label>
+            <input
+              id="tag-name"
+              required
+              value={newTag.name}
+              onChange={(e) => setNewTag(prev => ({ ...prev, name: e.target.value }))}
+              className={`w-full ${inputClassName}`}
+            />
+          </div>
+          <div className="flex-1 min-w-[12rem]">
+            <label htmlFor="tag-slug" className="block text-sm font-medium text-gray-700 mb-2">{t.tags.slug}</label>
+            <input
+              id="tag-slug"
+              value={newTag.slug}
+              onChange={(e) => setNewTag(prev => ({ ...prev, slug: e.target.value }))}
+              placeholder={slugify(newTag.name) || t.tags.slugHint}
+              className={`w-full ${inputClassName}`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={working}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {working ? t.tags.creating : t.tags.create}
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {loading ? (
+            <p className="p-6 text-gray-500">{t.common.loading}</p>
+          ) : tags.length === 0 ? (
+            <p className="p-6 text-gray-500">{t.tags.empty}</p>
+          ) : (
+            tags.map((tag) => (
+              <div key={tag.id} className="p-4 flex flex-wrap items-center gap-4">
+                {editing?.id === tag.id ? (
+                  <form onSubmit={handleRename} className="flex flex-1 flex-wrap items-center gap-2">
+                    <input
+                      required
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      aria-label={t.tags.name}
+                      className={inputClassName}
+                    />
+                    <input
+                      value={editing.slug}
+                      onChange={(e) => setEditing({ ...editing, slug: e.target.value })}
+                      placeholder={slugify(editing.name)}
+                      aria-label={t.tags.slug}
+                      className={inputClassName}
+                    />
+                    <button type="submit" disabled={working} className="text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50">
+                      {t.tags.save}
+                    </button>
+                    <button type="button" onClick={() => setEditing(null)} className="text-sm text-gray-600 hover:text-gray-900">
+                      {t.tags.cancel}
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex-1">
+                    <Link href={href(`/tags/${tag.slug}`)} className="font-semibold text-gray-900 hover:underline">
+                      {tag.name}
+                    </Link>
+                    <p className="text-sm text-gray-500">
+                      {tag.slug} · {tag.article_tags[0]?.count ?? 0} {t.tags.articles}
+                    </p>
+                  </div>
+                )}
+
+                {editing?.id !== tag.id && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      onClick={() => setEditing({ id: tag.id, name: tag.name, slug: tag.slug })}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                    >
+                      {t.tags.rename}
+                    </button>
+                    <select
+                      value={mergeTargets[tag.id] ?? ''}
+                      onChange={(e) => setMergeTargets(prev => ({ ...prev, [tag.id]: e.target.value }))}
+                      aria-label={t.tags.mergeInto}
+                      className="text-sm border border-gray-300 rounded-md px-2 py-1"
+                    >
+                      <option value="">{t.tags.mergeInto}</option>
+                      {tags.filter((other) => other.id !== tag.id).map((other) => (
+                        <option key={other.id} value={other.id}>{other.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleMerge(tag)}
+                      disabled={working || !mergeTargets[tag.id]}
+                      className="text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+                    >
+                      {t.tags.merge}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(tag)}
+                      disabled={working}
+                      className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      {t.tags.delete}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
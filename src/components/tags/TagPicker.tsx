@@ -0,0 +1,148 @@
+// components/tags/TagPicker.tsx
+'use client'
+
+import { useState } from 'react'
+import type { Tag } from '@/lib/db/types'
+import { createTag } from '@/lib/tags/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { slugify } from '@/lib/slug'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface TagPickerProps {
+  tags: Tag[]
+  selectedIds: string[]
+  onChange: (ids: string[]) => void
+  onTagCreated: (tag: Tag) => void
+}
+
+const MAX_SUGGESTIONS = 8
+
+export default function TagPicker({ tags, selectedIds, onChange, onTagCreated }: TagPickerProps) {
+  const { t } = useI18n()
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = selectedIds
+    .map((id) => tags.find((tag) => tag.id === id))
+    .filter((tag): tag is Tag => Boolean(tag))
+
+  const needle = query.trim().toLowerCase()
+  const suggestions = needle
+    ? tags
+        .filter((tag) => !selectedIds.includes(tag.id))
+        .filter((tag) => tag.name.toLowerCase().includes(needle))
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+  const exactMatch = tags.some((tag) => tag.name.toLowerCase() === needle || tag.slug === slugify(needle))
+
+  const add = (tag: Tag) => {
+    onChange([...selectedIds, tag.id])
+    setQuery('')
+    setHighlighted(0)
+  }
+
+  const create = async () => {
+    setError(null)
+    const { data, error } = await createTag(query)
+    if (error || !data) {
+      setError(actionErrorMessage(t, error))
+      return
+    }
+    onTagCreated(data)
+    add(data)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted((index) => Math.min(index + 1, suggestions.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted((index) => Math.max(index - 1, 0))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (suggestions[highlighted]) add(suggestions[highlighted])
+      else if (needle && !exactMatch) create()
+    } else if (e.key === 'Backspace' && !query && selectedIds.length > 0) {
+      onChange(selectedIds.slice(0, -1))
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div>
+      <label htmlFor="tag-picker" className="block text-sm font-medium text-gray-700 mb-2">{t.tags.pickerLabel}</label>
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500">
+          {selected.map((tag) => (
+            <span key={tag.id} className="inline-flex items-center gap-1 bg-gray-100 text-gray-700 text-sm px-2 py-0.5 rounded-full">
+              {tag.name}
+              <button
+                type="button"
+                onClick={() => onChange(selectedIds.filter((id) => id !== tag.id))}
+                aria-label={`${t.tags.remove} ${tag.name}`}
+                className="text-gray-500 hover:text-gray-900"
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+          <input
+            id="tag-picker"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setOpen(true)
+              setHighlighted(0)
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setTimeout(() => setOpen(false), 100)}
+            onKeyDown={handleKeyDown}
+            placeholder={t.tags.pickerPlaceholder}
+            role="combobox"
+            aria-expanded={open && suggestions.length > 0}
+            aria-controls="tag-picker-suggestions"
+            autoComplete="off"
+            className="flex-1 min-w-[8rem] outline-none text-sm"
+          />
+        </div>
+
+        {open && needle && (
+          <ul id="tag-picker-suggestions" role="listbox" className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg">
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag.id}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  add(tag)
+                }}
+                className={`px-3 py-2 text-sm cursor-pointer ${index === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+              >
+                {tag.name}
+              </li>
+            ))}
+            {!exactMatch && (
+              <li
+                role="option"
+                aria-selected={suggestions.length === 0}
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  create()
+                }}
+                className="px-3 py-2 text-sm cursor-pointer text-blue-600 hover:bg-blue-50"
+              >
+                {t.tags.pickerCreate} &ldquo;{query.trim()}&rdquo;
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+      {error && <p className="mt-1 text-sm text-red-700">{error}</p>}
+    </div>
+  )
+}
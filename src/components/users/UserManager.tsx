@@ -0,0 +1,216 @@
+// components/users/UserManager.tsx
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import * as Dialog from '@radix-ui/react-dialog'
+import type { Profile, Role } from '@/lib/db/types'
+import type { RoleChangeEntry } from '@/lib/db/role-changes'
+import { roleSchema } from '@/lib/db/schemas'
+import { changeUserRole } from '@/lib/users/actions'
+import { actionErrorMessage } from '@/lib/actions'
+import { useI18n } from '@/components/i18n/I18nProvider'
+
+interface UserManagerProps {
+  profiles: Profile[]
+  total: number
+  page: number
+  pageSize: number
+  query: string
+  changes: RoleChangeEntry[]
+  currentUserId: string
+}
+
+const ROLES = roleSchema.options
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function UserManager({ profiles, total, page, pageSize, query, changes, currentUserId }: UserManagerProps) {
+  const router = useRouter()
+  const { locale, t, href } = useI18n()
+  const [search, setSearch] = useState(query)
+  const [pending, setPending] = useState<{ profile: Profile; role: Role } | null>(null)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+
+  const listHref = (nextPage: number, nextQuery = query) => {
+    const params = new URLSearchParams()
+    if (nextQuery) params.set('q', nextQuery)
+    if (nextPage > 1) params.set('page', String(nextPage))
+    const qs = params.toString()
+    return href(`/admin/users${qs ? `?${qs}` : ''}`)
+  }
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    router.push(listHref(1, search.trim()))
+  }
+
+  const handleConfirm = async () => {
+    if (!pending) return
+    setWorking(true)
+    setError(null)
+
+    const { error } = await changeUserRole(pending.profile.id, pending.role)
+    if (error) {
+      setError(actionErrorMessage(t, error))
+    } else {
+      setPending(null)
+      setMessage(t.users.changed)
+      router.refresh()
+    }
+
+    setWorking(false)
+  }
+
+  const displayName = (person: Pick<Profile, 'full_name' | 'email'> | null) =>
+    person?.full_name || person?.email || t.common.unknown
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <Link href={href('/dashboard')} className="text-sm text-blue-600 hover:text-blue-500">{t.common.backToDashboard}</Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t.users.manage}</h1>
+        </div>
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        <div className="bg-white p-6 rounded-lg shadow-md space-y-4">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t.users.searchPlaceholder}
+              className={`${inputClassName} flex-1`}
+            />
+            <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700">
+              {t.users.search}
+            </button>
+          </form>
+
+          {profiles.length === 0 ? (
+            <p className="text-gray-500">{t.users.noUsers}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-start text-gray-500 border-b">
+                    <th className="py-2 text-start font-medium">{t.users.name}</th>
+                    <th className="py-2 text-start font-medium">{t.users.email}</th>
+                    <th className="py-2 text-start font-medium">{t.users.joined}</th>
+                    <th className="py-2 text-start font-medium">{t.users.role}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profiles.map((profile) => (
+                    <tr key={profile.id} className="border-b last:border-0">
+                      <td className="py-2 pe-4">
+                        {profile.full_name || t.common.notSet}
+                        {profile.id === currentUserId && <span className="ms-1 text-gray-500">{t.users.you}</span>}
+                      </td>
+                      <td className="py-2 pe-4 text-gray-600">{profile.email}</td>
+                      <td className="py-2 pe-4 text-gray-600">{new Date(profile.created_at).toLocaleDateString(locale)}</td>
+                      <td className="py-2">
+                        <select
+                          value={profile.role}
+                          onChange={(e) => {
+                            setError(null)
+                            setMessage('')
+                            setPending({ profile, role: e.target.value as Role })
+                          }}
+                          className={inputClassName}
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>{t.users.roles[role]}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-sm">
+            {page > 1 ? (
+              <Link href={listHref(page - 1)} className="text-blue-600 hover:text-blue-500">{t.users.previous}</Link>
+            ) : <span />}
+            <span className="text-gray-500">
+              {t.users.page} {page} {t.users.of} {pageCount}
+            </span>
+            {page < pageCount ? (
+              <Link href={listHref(page + 1)} className="text-blue-600 hover:text-blue-500">{t.users.next}</Link>
+            ) : <span />}
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-md space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">{t.users.auditTitle}</h2>
+          {changes.length === 0 ? (
+            <p className="text-gray-500">{t.users.noChanges}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {changes.map((change) => (
+                <li key={change.id} className="py-2 flex flex-wrap justify-between gap-2">
+                  <span>
+                    <strong>{displayName(change.profile)}</strong>{' '}
+                    {t.users.from} {t.users.roles[change.old_role]} {t.users.to} {t.users.roles[change.new_role]}{' '}
+                    <span className="text-gray-500">{t.users.changedBy} {displayName(change.changer)}</span>
+                  </span>
+                  <time dateTime={change.created_at} className="text-gray-500">
+                    {new Date(change.created_at).toLocaleString(locale)}
+                  </time>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <Dialog.Root open={Boolean(pending)} onOpenChange={(open) => !open && setPending(null)}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/40" />
+          <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {t.users.confirmTitle}: {displayName(pending?.profile ?? null)}
+            </Dialog.Title>
+            {pending && (
+              <p className="text-sm text-gray-700">
+                {t.users.from} <strong>{t.users.roles[pending.profile.role]}</strong> {t.users.to} <strong>{t.users.roles[pending.role]}</strong>
+              </p>
+            )}
+            <Dialog.Description className="text-sm text-gray-600">
+              {t.users.confirmDescription}
+            </Dialog.Description>
+
+            {error && <p className="text-sm text-red-700">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Dialog.Close className="px-4 py-2 text-gray-600 hover:text-gray-900">
+                {t.users.cancel}
+              </Dialog.Close>
+              <button
+                onClick={handleConfirm}
+                disabled={working}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {working ? t.users.changing : t.users.confirm}
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+// lib/actions.ts
+import { UNIQUE_VIOLATION, VALIDATION_ERROR, type DbError } from '@/lib/db/result'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+
+// Actions report what went wrong as a key of the dictionary's errors, so
+// the client shows it in the reader's language. Failures from the
+// database or the AI provider also carry their own, untranslated message.
+export interface ActionError {
+  code: keyof Dictionary['errors']
+  detail?: string
+}
+
+// Shape returned by every server action, mirroring supabase-js responses.
+export interface ActionResult<T = null> {
+  data: T | null
+  error: ActionError | null
+}
+
+// Error for a failed repository call; unique violations get the caller's
+// more specific code when one is given.
+export function dbError(error: DbError, duplicateCode?: ActionError['code']): ActionError {
+  if (error.code === UNIQUE_VIOLATION && duplicateCode) return { code: duplicateCode }
+  if (error.code === VALIDATION_ERROR) return { code: 'invalidInput', detail: error.message }
+  return { code: 'requestFailed', detail: error.message }
+}
+
+// The message to show for an action's error, or a generic one when the
+// action returned neither data nor an error.
+export function actionErrorMessage(t: Dictionary, error: ActionError | null): string {
+  if (!error) return t.auth.genericError
+  return error.detail ? `${t.errors[error.code]}: ${error.detail}` : t.errors[error.code]
+}
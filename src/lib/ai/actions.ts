@@ -0,0 +1,146 @@
+'use server'
+
+import type { Article, Language } from '@/lib/db/types'
+import type { ArticleInput } from '@/lib/db/schemas'
+import * as articlesDb from '@/lib/db/articles'
+import { getAiProvider } from '@/lib/ai/provider'
+import { requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionError, type ActionResult } from '@/lib/actions'
+import { slugify } from '@/lib/slug'
+
+const MAX_TOPIC_LENGTH = 500
+
+function toInput(article: Article): ArticleInput {
+  return {
+    title: article.title,
+    slug: article.slug,
+    excerpt: article.excerpt,
+    content: article.content,
+    featured_image: article.featured_image,
+    featured_media_id: article.featured_media_id,
+    category_id: article.category_id,
+    language: article.language,
+    translation_group_id: article.translation_group_id
+  }
+}
+
+// Generated titles often repeat, so AI drafts get a short random suffix to
+// keep their slugs unique. Editors can tidy it up before publishing.
+function draftSlug(title: string): string {
+  return `${slugify(title) || 'draft'}-${crypto.randomUUID().slice(0, 6)}`
+}
+
+function providerError(error: unknown): ActionError {
+  return { code: 'aiFailed', detail: error instanceof Error ? error.message : undefined }
+}
+
+// Asks the provider for a first draft on a topic and saves it as a new
+// AI-generated draft.
+export async function generateArticleDraft(topic: string, language: Language): Promise<ActionResult<{ id: string }>> {
+  const { actor, error: denied } = await requirePermission('article:create')
+  if (!actor) return { data: null, error: denied }
+
+  const trimmed = topic.trim()
+  if (!trimmed) return { data: null, error: { code: 'topicRequired' } }
+  if (trimmed.length > MAX_TOPIC_LENGTH) return { data: null, error: { code: 'topicTooLong' } }
+
+  let draft
+  try {
+    draft = await getAiProvider().generateDraft({ topic: trimmed, language })
+  } catch (error) {
+    return { data: null, error: providerError(error) }
+  }
+
+  const { data, error } = await articlesDb.create(actor.supabase, {
+    title: draft.title,
+    slug: draftSlug(draft.title),
+    excerpt: null,
+    content: draft.content,
+    featured_image: null,
+    featured_media_id: null,
+    category_id: null,
+    language,
+    translation_group_id: crypto.randomUUID()
+  }, actor.user.id, { aiGenerated: true })
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data: { id: data.id }, error: null }
+}
+
+// Replaces the excerpt of a draft with an AI summary of its saved content.
+export async function summarizeArticle(id: string): Promise<ActionResult<{ excerpt: string }>> {
+  const { actor, error: denied } = await requirePermission('article:edit')
+  if (!actor) return { data: null, error: denied }
+
+  const { data: article, error: loadError } = await articlesDb.get(actor.supabase, id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+  if (article.status !== 'draft') return { data: null, error: { code: 'aiDraftOnly' } }
+  if (!article.content?.trim()) return { data: null, error: { code: 'summaryNeedsContent' } }
+
+  let excerpt
+  try {
+    excerpt = (await getAiProvider().summarize({ title: article.title, content: article.content, language: article.language })).trim()
+  } catch (error) {
+    return { data: null, error: providerError(error) }
+  }
+  if (!excerpt) return { data: null, error: { code: 'aiEmptySummary' } }
+
+  const { error } = await articlesDb.update(actor.supabase, id, { ...toInput(article), excerpt }, { aiGenerated: true })
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data: { excerpt }, error: null }
+}
+
+// Translates an English article into a new Arabic draft in the same
+// translation group.
+export async function translateArticleToArabic(id: string): Promise<ActionResult<{ id: string }>> {
+  const { actor, error: denied } = await requirePermission('article:create')
+  if (!actor) return { data: null, error: denied }
+  const { supabase } = actor
+
+  const { data: article, error: loadError } = await articlesDb.get(supabase, id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+  if (article.language !== 'en') return { data: null, error: { code: 'translationEnglishOnly' } }
+  if (!article.content?.trim()) return { data: null, error: { code: 'translationNeedsContent' } }
+
+  const { data: existing, error: existingError } = await articlesDb.findTranslation(supabase, article.translation_group_id, 'ar')
+  if (existingError) return { data: null, error: dbError(existingError) }
+  if (existing) return { data: null, error: { code: 'translationExists' } }
+
+  let translation
+  try {
+    translation = await getAiProvider().translate({
+      title: article.title,
+      excerpt: article.excerpt,
+      content: article.content,
+      from: 'en',
+      to: 'ar'
+    })
+  } catch (error) {
+    return { data: null, error: providerError(error) }
+  }
+
+  const slug = `${article.slug}-ar`
+  const { data, error } = await articlesDb.create(supabase, {
+    ...toInput(article),
+    title: translation.title,
+    slug,
+    excerpt: translation.excerpt,
+    content: translation.content,
+    language: 'ar'
+  }, actor.user.id, { aiGenerated: true })
+  if (error) return { data: null, error: dbError(error, 'articleSlugTaken') }
+
+  return { data: { id: data.id }, error: null }
+}
+
+export async function acknowledgeAiContent(id: string): Promise<ActionResult<{ ai_reviewed_at: string }>> {
+  const { actor, error: denied } = await requirePermission('article:edit')
+  if (!actor) return { data: null, error: denied }
+
+  const { data, error } = await articlesDb.acknowledgeAi(actor.supabase, id, actor.user.id)
+  if (error) return { data: null, error: dbError(error) }
+  if (!data.ai_reviewed_at) return { data: null, error: { code: 'aiReviewFailed' } }
+
+  return { data: { ai_reviewed_at: data.ai_reviewed_at }, error: null }
+}
@@ -0,0 +1,58 @@
+// lib/ai/mock.ts
+import type { AiProvider } from '@/lib/ai/provider'
+import { createExcerpt } from '@/lib/content/markdown'
+
+// Deterministic stand-in for a language model, for local development and
+// demos without an API key. Output is obviously canned so nobody mistakes
+// it for real copy.
+export const mockProvider: AiProvider = {
+  name: 'mock',
+
+  async generateDraft({ topic, language }) {
+    const title = topic.charAt(0).toUpperCase() + topic.slice(1)
+
+    if (language === 'ar') {
+      return {
+        title,
+        content: [
+          `## نظرة عامة`,
+          `تتناول هذه المسودة موضوع "${topic}". أضف هنا الفكرة الرئيسية للمقال.`,
+          `## أبرز النقاط`,
+          `- النقطة الأولى\n- النقطة الثانية\n- النقطة الثالثة`,
+          `## الخلاصة`,
+          `اختم المقال بملخص قصير ودعوة للقراء.`,
+          `> مسودة تجريبية من مزوّد الذكاء الاصطناعي المحلي.`
+        ].join('\n\n')
+      }
+    }
+
+    return {
+      title,
+      content: [
+        `## Overview`,
+        `This draft covers "${topic}". Replace this paragraph with the main idea of the article.`,
+        `## Key points`,
+        `- First point\n- Second point\n- Third point`,
+        `## Conclusion`,
+        `Close with a short summary and a takeaway for readers.`,
+        `> Placeholder draft from the local mock AI provider.`
+      ].join('\n\n')
+    }
+  },
+
+  async summarize({ content }) {
+    return createExcerpt(content) ?? ''
+  },
+
+  async translate({ title, excerpt, content, to }) {
+    const note = to === 'ar'
+      ? '> ترجمة تجريبية من مزوّد الذكاء الاصطناعي المحلي؛ النص الأصلي أدناه.'
+      : '> Placeholder translation from the local mock AI provider; original text below.'
+
+    return {
+      title: `${title} (${to.toUpperCase()})`,
+      excerpt,
+      content: `${note}\n\n${content}`
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// lib/ai/openai.ts
+import { z } from 'zod'
+import type { AiProvider } from '@/lib/ai/provider'
+import type { Language } from '@/lib/db/types'
+
+interface OpenAiConfig {
+  apiKey: string
+  model: string
+  baseUrl: string
+}
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  ar: 'Modern Standard Arabic'
+}
+
+const FORMAT = 'Write the body in GitHub Flavored Markdown without raw HTML. Do not invent quotes, statistics or sources.'
+
+const draftSchema = z.object({ title: z.string().min(1), content: z.string().min(1) })
+const translationSchema = z.object({ title: z.string().min(1), excerpt: z.string().nullable(), content: z.string() })
+
+// Provider for any OpenAI compatible chat completions endpoint.
+export function createOpenAiProvider({ apiKey, model, baseUrl }: OpenAiConfig): AiProvider {
+  const complete = async (system: string, user: string, json: boolean): Promise<string> => {
+    if (!apiKey) throw new Error('AI_API_KEY is not set')
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'system', content: system }, { role: 'user', content: user }],
+        ...(json ? { response_format: { type: 'json_object' } } : {})
+      })
+    })
+    if (!response.ok) throw new Error(`AI provider responded with ${response.status}`)
+
+    const body = await response.json()
+    const text = body?.choices?.[0]?.message?.content
+    if (typeof text !== 'string' || !text.trim()) throw new Error('AI provider returned an empty response')
+    return text.trim()
+  }
+
+  const completeJson = async <T>(schema: z.ZodType<T>, system: string, user: string): Promise<T> => {
+    const parsed = schema.safeParse(JSON.parse(await complete(system, user, true)))
+    if (!parsed.success) throw new Error('AI provider returned an unexpected response')
+    return parsed.data
+  }
+
+  return {
+    name: 'openai',
+
+    generateDraft({ topic, language }) {
+      return completeJson(
+        draftSchema,
+        `You draft news articles in ${LANGUAGE_NAMES[language]} for editors to review. ${FORMAT} Reply with a JSON object {"title", "content"}.`,
+        topic
+      )
+    },
+
+    summarize({ title, content, language }) {
+      return complete(
+        `Summarize the article in ${LANGUAGE_NAMES[language]} in at most two sentences of plain text, for use as its excerpt.`,
+        `# ${title}\n\n${content}`,
+        false
+      )
+    },
+
+    translate({ title, excerpt, content, from, to }) {
+      return completeJson(
+        translationSchema,
+        `Translate the article from ${LANGUAGE_NAMES[from]} to ${LANGUAGE_NAMES[to]}, keeping its Markdown structure. ${FORMAT} Reply with a JSON object {"title", "excerpt", "content"}; excerpt is null when none is given.`,
+        JSON.stringify({ title, excerpt, content })
+      )
+    }
+  }
+}
@@ -0,0 +1,58 @@
+// lib/ai/provider.ts
+import type { Language } from '@/lib/db/types'
+import { mockProvider } from '@/lib/ai/mock'
+import { createOpenAiProvider } from '@/lib/ai/openai'
+
+export interface DraftRequest {
+  topic: string
+  language: Language
+}
+
+export interface GeneratedDraft {
+  title: string
+  // Markdown, in the format described in lib/content/markdown.ts
+  content: string
+}
+
+export interface SummaryRequest {
+  title: string
+  content: string
+  language: Language
+}
+
+export interface TranslationRequest {
+  title: string
+  excerpt: string | null
+  content: string
+  from: Language
+  to: Language
+}
+
+export interface Translation {
+  title: string
+  excerpt: string | null
+  content: string
+}
+
+// Everything the editor's AI actions need from a language model. Providers
+// throw on failure; the server actions turn that into an error message.
+export interface AiProvider {
+  name: string
+  generateDraft(request: DraftRequest): Promise<GeneratedDraft>
+  summarize(request: SummaryRequest): Promise<string>
+  translate(request: TranslationRequest): Promise<Translation>
+}
+
+// Picks the provider from AI_PROVIDER. "openai" talks to any OpenAI
+// compatible chat completions API (AI_API_KEY, AI_MODEL, AI_BASE_URL);
+// anything else, including an unset variable, uses the offline mock.
+export function getAiProvider(): AiProvider {
+  if (process.env.AI_PROVIDER === 'openai') {
+    return createOpenAiProvider({
+      apiKey: process.env.AI_API_KEY ?? '',
+      model: process.env.AI_MODEL ?? 'gpt-4o-mini',
+      baseUrl: process.env.AI_BASE_URL ?? 'https://api.openai.com/v1'
+    })
+  }
+  return mockProvider
+}
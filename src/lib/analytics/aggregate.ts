@@ -0,0 +1,56 @@
+// lib/analytics/aggregate.ts
+import type { Article } from '@/lib/db/types'
+
+// Aggregates are computed by the analytics_* functions in the database;
+// see supabase/migrations/20261019320000_analytics_reports.sql.
+
+export interface Totals {
+  views: number
+  shares: number
+}
+
+export interface RangeTotals extends Totals {
+  articles: number
+}
+
+export interface DailyPoint extends Totals {
+  date: string
+}
+
+export interface ArticleTotals extends Totals {
+  article_id: string
+  title: string | null
+  slug: string | null
+  language: Article['language'] | null
+}
+
+export interface CategoryTotals extends Totals {
+  category_id: string | null
+  name: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 'YYYY-MM-DD' for a date, in UTC to match Postgres current_date on Supabase.
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function defaultRange(days = 30): { from: string; to: string } {
+  const to = new Date()
+  return { from: toDateKey(new Date(to.getTime() - (days - 1) * DAY_MS)), to: toDateKey(to) }
+}
+
+// One point per day between from and to (inclusive); days missing from
+// `days` count as zero.
+export function dailySeries(days: DailyPoint[], from: string, to: string): DailyPoint[] {
+  const byDate = new Map(days.map((day) => [day.date, day]))
+
+  const points: DailyPoint[] = []
+  const end = Date.parse(to)
+  for (let time = Date.parse(from); time <= end; time += DAY_MS) {
+    const date = toDateKey(new Date(time))
+    points.push(byDate.get(date) ?? { date, views: 0, shares: 0 })
+  }
+  return points
+}
@@ -0,0 +1,23 @@
+// lib/analytics/events.ts
+export type AnalyticsEvent = 'view' | 'share'
+
+export const ANALYTICS_ENDPOINT = '/api/analytics'
+
+export const ANALYTICS_SESSION_COOKIE = 'idel_sid'
+
+// Fire-and-forget; analytics must never break the page.
+export function trackArticleEvent(articleId: string, event: AnalyticsEvent) {
+  const body = JSON.stringify({ articleId, event })
+
+  if (typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    navigator.sendBeacon(ANALYTICS_ENDPOINT, new Blob([body], { type: 'application/json' }))
+    return
+  }
+
+  fetch(ANALYTICS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    keepalive: true
+  }).catch(() => {})
+}
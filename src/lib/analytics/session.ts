@@ -0,0 +1,50 @@
+// lib/analytics/session.ts
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import type { NextRequest } from 'next/server'
+import { ANALYTICS_SESSION_COOKIE } from '@/lib/analytics/events'
+
+// Session ids are signed so a client cannot mint a fresh one per request
+// and have every view counted. The service role key is already a server
+// secret the analytics route depends on.
+function sign(id: string, secret: string): string {
+  return createHmac('sha256', secret).update(id).digest('base64url')
+}
+
+function verify(value: string, secret: string): string | null {
+  const [id, signature] = value.split('.')
+  if (!id || !signature) return null
+
+  const expected = Buffer.from(sign(id, secret))
+  const received = Buffer.from(signature)
+  return received.length === expected.length && timingSafeEqual(received, expected) ? id : null
+}
+
+// The client address as seen by the nearest trusted proxy. Each proxy
+// appends the address it received the request from to X-Forwarded-For, so
+// with TRUSTED_PROXY_COUNT proxies in front of the app the client is that
+// many entries from the end; anything before it is whatever the client
+// sent. Without proxies the header is not trusted at all.
+function clientAddress(req: NextRequest): string {
+  const proxies = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? '0', 10) || 0
+  if (proxies < 1) return 'unknown'
+
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean)
+  return forwarded[forwarded.length - proxies] ?? 'unknown'
+}
+
+// The session a request belongs to. Without a valid cookie the id is
+// derived from the client address and user agent, so dropping the cookie
+// does not start a new session either. `cookie` is set when the response
+// should store the session.
+export function readAnalyticsSession(req: NextRequest, secret: string): { id: string; cookie: string | null } {
+  const value = req.cookies.get(ANALYTICS_SESSION_COOKIE)?.value
+  const id = value ? verify(value, secret) : null
+  if (id) return { id, cookie: null }
+
+  const fingerprint = createHash('sha256')
+    .update(`${clientAddress(req)}|${req.headers.get('user-agent') ?? ''}`)
+    .digest('base64url')
+    .slice(0, 32)
+
+  return { id: fingerprint, cookie: `${fingerprint}.${sign(fingerprint, secret)}` }
+}
@@ -0,0 +1,36 @@
+'use server'
+
+import * as apiKeysDb from '@/lib/db/api-keys'
+import { requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { generateApiKey } from '@/lib/api/keys'
+
+// Creates a key for the public API. The key is returned only here; the
+// database keeps its hash.
+export async function createApiKey(name: string, rateLimit: number): Promise<ActionResult<{ apiKey: apiKeysDb.ApiKeySummary; key: string }>> {
+  const { actor, error: denied } = await requirePermission('api:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const { key, prefix, hash } = generateApiKey()
+  const { data, error } = await apiKeysDb.create(actor.supabase, {
+    name,
+    rate_limit: rateLimit,
+    key_prefix: prefix,
+    key_hash: hash,
+    created_by: actor.user.id
+  })
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: { apiKey: data, key }, error: null }
+}
+
+// Revoked keys stop working on their next request and cannot be restored.
+export async function revokeApiKey(id: string): Promise<ActionResult<apiKeysDb.ApiKeySummary>> {
+  const { actor, error: denied } = await requirePermission('api:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const { data, error } = await apiKeysDb.revoke(actor.supabase, id)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data, error: null }
+}
@@ -0,0 +1,73 @@
+// lib/api/http.ts
+import { createHash } from 'node:crypto'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { publicSupabase } from '@/lib/supabase/public'
+import * as apiKeysDb from '@/lib/db/api-keys'
+import { hashApiKey, readApiKey } from '@/lib/api/keys'
+
+// Responses depend only on the URL, but every request must carry a key, so
+// shared caches must not answer on the API's behalf.
+const CACHE_CONTROL = 'private, max-age=60, must-revalidate'
+
+export function apiError(status: number, message: string, headers?: HeadersInit): NextResponse {
+  return NextResponse.json({ error: message }, { status, headers })
+}
+
+// Checks the API key and counts the request against its rate limit. On
+// success returns the rate limit headers every response carries; otherwise
+// the error response to send.
+export async function authenticateApiRequest(
+  req: NextRequest
+): Promise<{ headers: Headers; response: null } | { headers: null; response: NextResponse }> {
+  const key = readApiKey(req.headers)
+  if (!key) {
+    return { headers: null, response: apiError(401, 'An API key is required', { 'WWW-Authenticate': 'Bearer' }) }
+  }
+
+  const { data: usage, error } = await apiKeysDb.use(publicSupabase, hashApiKey(key))
+  if (error) return { headers: null, response: apiError(500, error.message) }
+  if (!usage) {
+    return { headers: null, response: apiError(401, 'Invalid or revoked API key', { 'WWW-Authenticate': 'Bearer' }) }
+  }
+
+  const resetAt = new Date(usage.reset_at).getTime()
+  const headers = new Headers({
+    'X-RateLimit-Limit': String(usage.rate_limit),
+    'X-RateLimit-Remaining': String(Math.max(0, usage.rate_limit - usage.requests)),
+    'X-RateLimit-Reset': String(Math.ceil(resetAt / 1000))
+  })
+
+  if (usage.requests > usage.rate_limit) {
+    headers.set('Retry-After', String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))))
+    return { headers: null, response: apiError(429, 'Rate limit exceeded', headers) }
+  }
+
+  return { headers, response: null }
+}
+
+function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  return ifNoneMatch.split(',').some((tag) => {
+    const value = tag.trim()
+    return value === '*' || value.replace(/^W\//, '') === etag
+  })
+}
+
+// JSON response with an ETag of its body. Clients that send the ETag back
+// in If-None-Match get an empty 304 when nothing changed.
+export function apiJson(req: NextRequest, body: unknown, headers: Headers): NextResponse {
+  const json = JSON.stringify(body)
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`
+
+  headers.set('ETag', etag)
+  headers.set('Cache-Control', CACHE_CONTROL)
+  headers.set('Vary', 'Authorization, X-API-Key')
+
+  if (etagMatches(req.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  headers.set('Content-Type', 'application/json')
+  return new NextResponse(json, { status: 200, headers })
+}
@@ -0,0 +1,24 @@
+// lib/api/keys.ts
+import { createHash, randomBytes } from 'node:crypto'
+
+const KEY_PREFIX = 'idel_'
+// Characters of the key kept in the database to tell keys apart
+const VISIBLE_LENGTH = KEY_PREFIX.length + 6
+
+// Keys are random, so a fast unsalted hash is enough to look them up
+// without storing them.
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+  return { key, prefix: key.slice(0, VISIBLE_LENGTH), hash: hashApiKey(key) }
+}
+
+// Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>".
+export function readApiKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization')
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim() || null
+  return headers.get('x-api-key')?.trim() || null
+}
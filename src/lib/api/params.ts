@@ -0,0 +1,57 @@
+// lib/api/params.ts
+import { z } from 'zod'
+import { languageSchema, slugSchema } from '@/lib/db/schemas'
+import type { Article } from '@/lib/db/types'
+
+export const DEFAULT_API_LIMIT = 20
+export const MAX_API_LIMIT = 100
+
+type CursorPosition = Pick<Article, 'id' | 'published_at'>
+
+const cursorSchema = z.tuple([z.iso.datetime({ offset: true }), z.uuid()])
+
+// Opaque cursors hide the keyset, so the ordering can change without
+// breaking clients.
+export function encodeCursor(article: CursorPosition): string {
+  return Buffer.from(JSON.stringify([article.published_at, article.id])).toString('base64url')
+}
+
+function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')))
+    return parsed.success ? { published_at: parsed.data[0], id: parsed.data[1] } : null
+  } catch {
+    return null
+  }
+}
+
+const articleListSchema = z.object({
+  language: languageSchema.optional(),
+  category: slugSchema.optional(),
+  limit: z.coerce.number()
+    .int('limit must be a whole number')
+    .min(1, 'limit must be at least 1')
+    .max(MAX_API_LIMIT, `limit is at most ${MAX_API_LIMIT}`)
+    .default(DEFAULT_API_LIMIT),
+  cursor: z.string()
+    .transform((value, ctx) => {
+      const position = decodeCursor(value)
+      if (!position) ctx.addIssue({ code: 'custom', message: 'Invalid cursor' })
+      return position ?? z.NEVER
+    })
+    .optional()
+})
+
+export type ArticleListParams = z.output<typeof articleListSchema>
+
+// Query string of GET /api/v1/articles. Unlike the dashboard, bad values
+// are rejected so API clients notice their mistakes.
+export function parseArticleListParams(searchParams: URLSearchParams): { params: ArticleListParams; error: null } | { params: null; error: string } {
+  const parsed = articleListSchema.safeParse(Object.fromEntries(
+    ['language', 'category', 'limit', 'cursor']
+      .filter((name) => searchParams.has(name))
+      .map((name) => [name, searchParams.get(name)])
+  ))
+  if (!parsed.success) return { params: null, error: parsed.error.issues.map((issue) => issue.message).join('; ') }
+  return { params: parsed.data, error: null }
+}
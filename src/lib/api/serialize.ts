@@ -0,0 +1,44 @@
+// lib/api/serialize.ts
+import type { ArticleDetail, ArticleSummary } from '@/lib/db/articles'
+import type { Article, Category, Tag } from '@/lib/db/types'
+import { absoluteUrl, articlePath } from '@/lib/seo/site'
+
+// Shapes returned by /api/v1. Database rows are mapped explicitly so schema
+// changes do not leak into the public API.
+
+export function toApiCategory(category: Category) {
+  return { name: category.name, slug: category.slug, description: category.description }
+}
+
+export function toApiTag(tag: Pick<Tag, 'name' | 'slug'>) {
+  return { name: tag.name, slug: tag.slug }
+}
+
+export function toApiArticleSummary(article: ArticleSummary) {
+  return {
+    id: article.id,
+    title: article.title,
+    slug: article.slug,
+    language: article.language,
+    excerpt: article.excerpt,
+    url: absoluteUrl(articlePath(article)),
+    featured_image: article.featured_image
+      ? { url: absoluteUrl(article.featured_image), alt: article.featured_media?.alt_text ?? null }
+      : null,
+    published_at: article.published_at,
+    category: article.categories ? { name: article.categories.name, slug: article.categories.slug } : null,
+    author: { name: article.profiles?.full_name ?? null }
+  }
+}
+
+export function toApiArticle(article: ArticleDetail, translation: Pick<Article, 'slug' | 'language'> | null) {
+  return {
+    ...toApiArticleSummary(article),
+    content: article.content,
+    updated_at: article.updated_at,
+    tags: article.article_tags.map(({ tags }) => toApiTag(tags)),
+    translation: translation
+      ? { language: translation.language, slug: translation.slug, url: absoluteUrl(articlePath(translation)) }
+      : null
+  }
+}
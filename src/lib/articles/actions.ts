@@ -0,0 +1,140 @@
+'use server'
+
+import type { Article, ArticleStatus } from '@/lib/db/types'
+import type { ArticleInput, ArticleSchedule } from '@/lib/db/schemas'
+import * as articlesDb from '@/lib/db/articles'
+import * as reviewsDb from '@/lib/db/reviews'
+import * as revisionsDb from '@/lib/db/revisions'
+import * as tagsDb from '@/lib/db/tags'
+import { canEditContent, canSchedulePublish, canScheduleArchive, canTransition, needsAiReview } from '@/lib/articles/workflow'
+import { getActor, requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { queueEmailDelivery } from '@/lib/notifications/delivery'
+
+export async function createArticle(input: ArticleInput): Promise<ActionResult<{ id: string }>> {
+  const { actor, error: denied } = await requirePermission('article:create')
+  if (!actor) return { data: null, error: denied }
+
+  const { data, error } = await articlesDb.create(actor.supabase, input, actor.user.id)
+  if (error) return { data: null, error: dbError(error, 'articleSlugTaken') }
+
+  return { data: { id: data.id }, error: null }
+}
+
+export async function updateArticle(id: string, input: ArticleInput): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('article:edit')
+  if (!actor) return { data: null, error: denied }
+
+  const { data: article, error: loadError } = await articlesDb.get(actor.supabase, id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+  if (!canEditContent(article.status)) return { data: null, error: { code: 'articleLocked' } }
+
+  const { error } = await articlesDb.update(actor.supabase, id, input)
+  if (error) return { data: null, error: dbError(error, 'articleSlugTaken') }
+
+  return { data: null, error: null }
+}
+
+export async function changeArticleStatus(id: string, status: ArticleStatus): Promise<ActionResult<articlesDb.StatusChange>> {
+  const actor = await getActor()
+  if (!actor) return { data: null, error: { code: 'signedOut' } }
+  const { supabase, role } = actor
+
+  const { data: article, error: loadError } = await articlesDb.get(supabase, id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+
+  if (!canTransition(role, article.status, status)) {
+    return { data: null, error: { code: 'transitionNotAllowed' } }
+  }
+  if (status === 'published' && needsAiReview(article)) {
+    return { data: null, error: { code: 'aiReviewRequired' } }
+  }
+  if (status === 'published') {
+    const { data: approval, error: approvalError } = await reviewsDb.getCurrentApproval(supabase, id)
+    if (approvalError) return { data: null, error: dbError(approvalError) }
+    if (!approval) return { data: null, error: { code: 'approvalRequired' } }
+  }
+
+  const { data, error } = await articlesDb.updateStatus(supabase, id, status)
+  if (error) return { data: null, error: dbError(error) }
+
+  // The status trigger may have queued notifications
+  queueEmailDelivery()
+  return { data, error: null }
+}
+
+function sameTime(a: string | null, b: string | null): boolean {
+  return a === b || (a !== null && b !== null && new Date(a).getTime() === new Date(b).getTime())
+}
+
+// Sets or clears the publish and archive times of an article. Only times
+// that change are checked, so an existing schedule can be kept as it is.
+export async function scheduleArticle(
+  id: string,
+  input: ArticleSchedule
+): Promise<ActionResult<Pick<Article, 'publish_at' | 'archive_at'>>> {
+  const actor = await getActor()
+  if (!actor) return { data: null, error: { code: 'signedOut' } }
+  const { supabase, role } = actor
+
+  const { data: article, error: loadError } = await articlesDb.get(supabase, id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+
+  const now = Date.now()
+  const publishChanged = !sameTime(article.publish_at, input.publish_at)
+  const archiveChanged = !sameTime(article.archive_at, input.archive_at)
+
+  if (publishChanged && !canSchedulePublish(role, article.status)) {
+    return { data: null, error: { code: 'schedulePublishNotAllowed' } }
+  }
+  if (archiveChanged && !canScheduleArchive(role, article.status)) {
+    return { data: null, error: { code: 'scheduleArchiveNotAllowed' } }
+  }
+  if ((publishChanged && input.publish_at && new Date(input.publish_at).getTime() <= now)
+    || (archiveChanged && input.archive_at && new Date(input.archive_at).getTime() <= now)) {
+    return { data: null, error: { code: 'scheduleInPast' } }
+  }
+
+  const { data, error } = await articlesDb.schedule(supabase, id, input)
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data, error: null }
+}
+
+// Copies an older revision into a new draft, leaving the article and its
+// history untouched. The draft keeps the article's category, language, image
+// and tags, and gets its own slug and translation group.
+export async function restoreRevision(revisionId: string): Promise<ActionResult<{ id: string }>> {
+  const { actor, error: denied } = await requirePermission('article:create')
+  if (!actor) return { data: null, error: denied }
+  const { supabase } = actor
+
+  const { data: revision, error: revisionError } = await revisionsDb.get(supabase, revisionId)
+  if (revisionError) return { data: null, error: dbError(revisionError) }
+
+  const [article, tagIds] = await Promise.all([
+    articlesDb.get(supabase, revision.article_id),
+    tagsDb.listArticleTagIds(supabase, revision.article_id)
+  ])
+  if (article.error) return { data: null, error: dbError(article.error) }
+  if (tagIds.error) return { data: null, error: dbError(tagIds.error) }
+
+  // AI content needs a fresh review, even if the article was reviewed
+  const { data, error } = await articlesDb.create(supabase, {
+    title: revision.title,
+    slug: `${article.data.slug}-${crypto.randomUUID().slice(0, 6)}`,
+    excerpt: revision.excerpt,
+    content: revision.content,
+    featured_image: article.data.featured_image,
+    featured_media_id: article.data.featured_media_id,
+    category_id: article.data.category_id,
+    language: article.data.language,
+    translation_group_id: crypto.randomUUID()
+  }, actor.user.id, { aiGenerated: article.data.ai_generated })
+  if (error) return { data: null, error: dbError(error) }
+
+  const { error: tagsError } = await tagsDb.setArticleTags(supabase, data.id, tagIds.data)
+  if (tagsError) return { data: null, error: dbError(tagsError) }
+
+  return { data: { id: data.id }, error: null }
+}
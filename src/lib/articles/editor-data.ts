@@ -0,0 +1,58 @@
+// lib/articles/editor-data.ts
+import type { Article, Category, Role, Tag } from '@/lib/db/types'
+import { ok, type DbClient, type DbResult } from '@/lib/db/result'
+import * as articlesDb from '@/lib/db/articles'
+import * as categoriesDb from '@/lib/db/categories'
+import * as reviewsDb from '@/lib/db/reviews'
+import * as tagsDb from '@/lib/db/tags'
+
+export interface EditorData {
+  role: Role
+  categories: Category[]
+  candidates: articlesDb.TranslationCandidate[]
+  tags: Tag[]
+  article: Article | null
+  tagIds: string[]
+  approval: reviewsDb.ReviewEntry | null
+}
+
+// Loads everything the article editor needs before its first render.
+export async function loadEditorData(client: DbClient, role: Role, articleId?: string): Promise<DbResult<EditorData>> {
+  const [categories, candidates, tags] = await Promise.all([
+    categoriesDb.list(client),
+    articlesDb.listTranslationCandidates(client),
+    tagsDb.list(client)
+  ])
+
+  if (categories.error) return categories
+  if (candidates.error) return candidates
+  if (tags.error) return tags
+
+  const data: EditorData = {
+    role,
+    categories: categories.data,
+    candidates: candidates.data.filter((candidate) => candidate.id !== articleId),
+    tags: tags.data,
+    article: null,
+    tagIds: [],
+    approval: null
+  }
+
+  if (articleId) {
+    const [article, tagIds, approval] = await Promise.all([
+      articlesDb.get(client, articleId),
+      tagsDb.listArticleTagIds(client, articleId),
+      reviewsDb.getCurrentApproval(client, articleId)
+    ])
+
+    if (article.error) return article
+    if (tagIds.error) return tagIds
+    if (approval.error) return approval
+
+    data.article = article.data
+    data.tagIds = tagIds.data
+    data.approval = approval.data
+  }
+
+  return ok(data)
+}
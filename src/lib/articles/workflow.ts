@@ -0,0 +1,59 @@
+// lib/articles/workflow.ts
+import type { Article, ArticleStatus, Role } from '@/lib/db/types'
+import { can, type Permission } from '@/lib/auth/permissions'
+
+export const ARTICLE_STATUSES: ArticleStatus[] = ['draft', 'review', 'published', 'archived']
+
+// The permission needed to move an article from one status to another.
+// Mirrors the enforce_article_status_transition trigger in supabase/migrations.
+export const ARTICLE_TRANSITIONS: Record<ArticleStatus, Partial<Record<ArticleStatus, Permission>>> = {
+  draft: { review: 'article:submit', archived: 'article:archive' },
+  review: { draft: 'article:submit', published: 'article:publish', archived: 'article:archive' },
+  published: { archived: 'article:archive' },
+  archived: { draft: 'article:archive' }
+}
+
+export function canTransition(role: Role, from: ArticleStatus, to: ArticleStatus): boolean {
+  const permission = ARTICLE_TRANSITIONS[from][to]
+  return permission ? can(role, permission) : false
+}
+
+export function allowedTransitions(role: Role, from: ArticleStatus): ArticleStatus[] {
+  return ARTICLE_STATUSES.filter((to) => canTransition(role, from, to))
+}
+
+// Published and archived articles keep their approved text; they go back to
+// draft to be edited. Mirrors the lock_published_content trigger.
+export function canEditContent(status: ArticleStatus): boolean {
+  return status === 'draft' || status === 'review'
+}
+
+// AI-generated articles stay unpublishable until an editor acknowledges
+// reviewing them. Mirrors the require_ai_review trigger.
+export function needsAiReview(article: Pick<Article, 'ai_generated' | 'ai_reviewed_at'>): boolean {
+  return article.ai_generated && !article.ai_reviewed_at
+}
+
+// Editors leave notes on articles in review, and reviewers approve them or
+// send them back to draft. Mirrors the review_notes and article_reviews
+// policies. Publishing also needs a current approval, which only the
+// database can tell (see current_article_approval).
+export function canAnnotate(role: Role, status: ArticleStatus): boolean {
+  return can(role, 'article:edit') && status === 'review'
+}
+
+export function canSignOff(role: Role, status: ArticleStatus): boolean {
+  return can(role, 'article:publish') && status === 'review'
+}
+
+// Who can schedule what, and on which articles. Mirrors the
+// enforce_article_schedule trigger; publish_at is cleared when an article
+// goes back to draft, and the scheduler only publishes articles that are
+// approved by the time publish_at passes.
+export function canSchedulePublish(role: Role, status: ArticleStatus): boolean {
+  return can(role, 'article:edit') && status === 'review'
+}
+
+export function canScheduleArchive(role: Role, status: ArticleStatus): boolean {
+  return can(role, 'article:edit') && status !== 'archived'
+}
@@ -0,0 +1,33 @@
+// lib/auth/actor.ts
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { createActionSupabase } from '@/lib/supabase/server'
+import type { Role } from '@/lib/db/types'
+import * as profilesDb from '@/lib/db/profiles'
+import { can, type Permission } from '@/lib/auth/permissions'
+import type { ActionError } from '@/lib/actions'
+
+export interface Actor {
+  supabase: SupabaseClient
+  user: User
+  role: Role
+}
+
+// Resolves the signed-in user and their profile role. Server actions use
+// the default client; server components and route handlers pass their own.
+export async function getActor(supabase: SupabaseClient = createActionSupabase()): Promise<Actor | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  return { supabase, user, role: await profilesDb.getRole(supabase, user.id) }
+}
+
+// Like getActor, but fails with an action error when the user is signed out or
+// lacks the permission, so actions can bail out with a single check.
+export async function requirePermission(
+  permission: Permission
+): Promise<{ actor: Actor; error: null } | { actor: null; error: ActionError }> {
+  const actor = await getActor()
+  if (!actor) return { actor: null, error: { code: 'signedOut' } }
+  if (!can(actor.role, permission)) return { actor: null, error: { code: 'forbidden' } }
+  return { actor, error: null }
+}
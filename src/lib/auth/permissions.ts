@@ -0,0 +1,67 @@
+// lib/auth/permissions.ts
+import type { Role } from '@/lib/db/types'
+
+export type Permission =
+  | 'article:create'
+  | 'article:edit'
+  | 'article:submit'
+  | 'article:publish'
+  | 'article:archive'
+  | 'comment:moderate'
+  | 'tag:manage'
+  | 'media:manage'
+  | 'category:manage'
+  | 'analytics:view'
+  | 'user:manage'
+  | 'api:manage'
+  | 'admin:access'
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  'article:create',
+  'article:edit',
+  'article:submit',
+  'comment:moderate',
+  'tag:manage',
+  'media:manage',
+  'analytics:view'
+]
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  reader: [],
+  editor: EDITOR_PERMISSIONS,
+  admin: [
+    ...EDITOR_PERMISSIONS,
+    'article:publish',
+    'article:archive',
+    'category:manage',
+    'user:manage',
+    'api:manage',
+    'admin:access'
+  ]
+}
+
+// Route prefixes and the permission needed to open them. Checked in order by
+// middleware; the first matching prefix wins. Prefixes without a permission
+// only require a session.
+export const ROUTE_PERMISSIONS: { prefix: string; permission: Permission | null }[] = [
+  { prefix: '/admin/categories', permission: 'category:manage' },
+  { prefix: '/admin/users', permission: 'user:manage' },
+  { prefix: '/admin/api-keys', permission: 'api:manage' },
+  { prefix: '/admin', permission: 'admin:access' },
+  { prefix: '/dashboard/articles', permission: 'article:edit' },
+  { prefix: '/dashboard/search', permission: 'article:edit' },
+  { prefix: '/dashboard/comments', permission: 'comment:moderate' },
+  { prefix: '/dashboard/tags', permission: 'tag:manage' },
+  { prefix: '/dashboard/media', permission: 'media:manage' },
+  { prefix: '/dashboard/analytics', permission: 'analytics:view' },
+  { prefix: '/dashboard', permission: null }
+]
+
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+  if (!role) return false
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function routePermission(pathname: string) {
+  return ROUTE_PERMISSIONS.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+}
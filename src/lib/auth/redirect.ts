@@ -0,0 +1,33 @@
+// lib/auth/redirect.ts
+import { localizePath, type Locale } from '@/lib/i18n/config'
+
+// Query parameter carrying the page to return to after signing in
+export const NEXT_PARAM = 'next'
+
+// Stand-in origin for resolving paths; only used to compare against
+const BASE_ORIGIN = 'http://localhost'
+
+// Only same-site paths are followed, so the login page and auth callback
+// cannot be used as open redirects. The value is resolved the way a browser
+// would, as the URL parser drops tabs and newlines and treats backslashes
+// as slashes, and the normalized path is returned.
+export function safeNextPath(value: string | null | undefined, fallback: string): string {
+  if (!value || !value.startsWith('/') || /[\s\\]/.test(value)) return fallback
+
+  let url: URL
+  try {
+    url = new URL(value, BASE_ORIGIN)
+  } catch {
+    return fallback
+  }
+  if (url.origin !== BASE_ORIGIN) return fallback
+  return `${url.pathname}${url.search}${url.hash}`
+}
+
+// Where Supabase sends email links (confirmation, magic link, password
+// reset); the callback route exchanges the code and continues to next.
+export function authCallbackUrl(origin: string, locale: Locale, next: string): string {
+  const url = new URL(localizePath(locale, '/auth/callback'), origin)
+  url.searchParams.set(NEXT_PARAM, next)
+  return url.toString()
+}
@@ -0,0 +1,39 @@
+// lib/auth/schemas.ts
+import { z } from 'zod'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+
+export const MIN_PASSWORD_LENGTH = 8
+
+// Form schemas for the auth screens. They are built from the active
+// dictionary so inline errors show in the reader's language.
+export function createAuthSchemas(messages: Dictionary['auth']['validation']) {
+  const email = z.email(messages.emailInvalid)
+  const newPassword = z.string().min(MIN_PASSWORD_LENGTH, messages.passwordTooShort)
+
+  return {
+    // Existing accounts may predate the length rule, so sign-in only
+    // requires a password to be entered
+    signIn: z.object({
+      email,
+      password: z.string().min(1, messages.passwordRequired)
+    }),
+    signUp: z.object({
+      email,
+      password: newPassword
+    }),
+    email: z.object({ email }),
+    updatePassword: z.object({
+      password: newPassword,
+      confirmPassword: z.string()
+    }).refine((values) => values.password === values.confirmPassword, {
+      message: messages.passwordsDontMatch,
+      path: ['confirmPassword']
+    })
+  }
+}
+
+type AuthSchemas = ReturnType<typeof createAuthSchemas>
+
+export type CredentialsValues = z.infer<AuthSchemas['signIn']>
+export type EmailValues = z.infer<AuthSchemas['email']>
+export type UpdatePasswordValues = z.infer<AuthSchemas['updatePassword']>
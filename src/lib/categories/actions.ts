@@ -0,0 +1,82 @@
+'use server'
+
+import type { Category } from '@/lib/db/types'
+import type { CategoryInput } from '@/lib/db/schemas'
+import * as categoriesDb from '@/lib/db/categories'
+import { requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionError, type ActionResult } from '@/lib/actions'
+import { slugify } from '@/lib/slug'
+
+// Category pages live at /[locale]/[slug], so a category cannot take the
+// name of a static route next to it.
+const RESERVED_SLUGS = ['admin', 'api', 'articles', 'auth', 'authors', 'dashboard', 'login', 'reset-password', 'search', 'tags', 'update-password']
+
+// Fills in the slug from the name; the repository validates the rest.
+function categoryFields(input: CategoryInput): CategoryInput | ActionError {
+  const slug = input.slug.trim() || slugify(input.name.trim())
+  if (RESERVED_SLUGS.includes(slug)) return { code: 'categorySlugReserved', detail: slug }
+
+  return { ...input, slug }
+}
+
+export async function createCategory(input: CategoryInput): Promise<ActionResult<Category>> {
+  const { actor, error: denied } = await requirePermission('category:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const fields = categoryFields(input)
+  if ('code' in fields) return { data: null, error: fields }
+
+  const { data, error } = await categoriesDb.create(actor.supabase, fields)
+
+  if (error) return { data: null, error: dbError(error, 'categorySlugTaken') }
+  return { data, error: null }
+}
+
+export async function updateCategory(id: string, input: CategoryInput): Promise<ActionResult<Category>> {
+  const { actor, error: denied } = await requirePermission('category:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const fields = categoryFields(input)
+  if ('code' in fields) return { data: null, error: fields }
+
+  const { data, error } = await categoriesDb.update(actor.supabase, id, fields)
+
+  if (error) return { data: null, error: dbError(error, 'categorySlugTaken') }
+  return { data, error: null }
+}
+
+// Deletes a category. When articles still use it they are moved to
+// reassignTo first; without a target the delete is refused.
+export async function deleteCategory(id: string, reassignTo: string | null = null): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('category:manage')
+  if (!actor) return { data: null, error: denied }
+
+  if (reassignTo === id) return { data: null, error: { code: 'categorySameTarget' } }
+
+  const { data: count, error: countError } = await categoriesDb.countArticles(actor.supabase, id)
+  if (countError) return { data: null, error: dbError(countError) }
+
+  if (count > 0) {
+    if (!reassignTo) {
+      return { data: null, error: { code: 'categoryInUse' } }
+    }
+
+    const { error: moveError } = await categoriesDb.reassignArticles(actor.supabase, id, reassignTo)
+    if (moveError) return { data: null, error: dbError(moveError) }
+  }
+
+  const { error } = await categoriesDb.remove(actor.supabase, id)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: null, error: null }
+}
+
+export async function reorderCategories(ids: string[]): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('category:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const { error } = await categoriesDb.reorder(actor.supabase, ids)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: null, error: null }
+}
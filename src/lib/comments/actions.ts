@@ -0,0 +1,46 @@
+'use server'
+
+import type { CommentStatus } from '@/lib/db/types'
+import * as articlesDb from '@/lib/db/articles'
+import * as commentsDb from '@/lib/db/comments'
+import { getActor, requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { queueEmailDelivery } from '@/lib/notifications/delivery'
+
+export async function postComment(articleId: string, content: string, parentId: string | null = null): Promise<ActionResult> {
+  const actor = await getActor()
+  if (!actor) return { data: null, error: { code: 'commentSignedOut' } }
+
+  const { data: published } = await articlesDb.isPublished(actor.supabase, articleId)
+  if (!published) return { data: null, error: { code: 'commentsClosed' } }
+
+  if (parentId) {
+    const { data: parent } = await commentsDb.getApproved(actor.supabase, parentId, articleId)
+    if (!parent) return { data: null, error: { code: 'replyNotAllowed' } }
+  }
+
+  const { error } = await commentsDb.create(actor.supabase, {
+    article_id: articleId,
+    author_id: actor.user.id,
+    parent_id: parentId,
+    content
+  })
+
+  if (error) return { data: null, error: dbError(error) }
+  queueEmailDelivery()
+  return { data: null, error: null }
+}
+
+export async function moderateComments(ids: string[], status: Exclude<CommentStatus, 'pending'>): Promise<ActionResult<{ count: number }>> {
+  const { actor, error: denied } = await requirePermission('comment:moderate')
+  if (!actor) return { data: null, error: denied }
+
+  if (ids.length === 0) return { data: { count: 0 }, error: null }
+  if (status !== 'approved' && status !== 'rejected') return { data: null, error: { code: 'unknownModerationStatus' } }
+
+  const { data, error } = await commentsDb.updateStatus(actor.supabase, ids, status)
+
+  if (error) return { data: null, error: dbError(error) }
+  queueEmailDelivery()
+  return { data: { count: data }, error: null }
+}
@@ -0,0 +1,19 @@
+// lib/comments/thread.ts
+import type { Comment } from '@/lib/db/types'
+
+export type CommentNode<T extends Pick<Comment, 'id' | 'parent_id'>> = T & { replies: CommentNode<T>[] }
+
+// Nests a flat, chronologically ordered list of comments under their parents.
+// Replies whose parent is missing (e.g. not approved) are dropped so a thread
+// never shows an answer to something readers cannot see.
+export function buildThread<T extends Pick<Comment, 'id' | 'parent_id'>>(comments: T[]): CommentNode<T>[] {
+  const nodes = new Map<string, CommentNode<T>>()
+  for (const comment of comments) nodes.set(comment.id, { ...comment, replies: [] })
+
+  const roots: CommentNode<T>[] = []
+  for (const node of nodes.values()) {
+    if (!node.parent_id) roots.push(node)
+    else nodes.get(node.parent_id)?.replies.push(node)
+  }
+  return roots
+}
@@ -0,0 +1,33 @@
+// lib/content/markdown.ts
+
+// Article bodies are stored as GitHub Flavored Markdown: headings, lists,
+// links, images, block quotes, code and tables. Raw HTML is not part of the
+// format; ArticleContent drops it when rendering.
+
+export const EXCERPT_LENGTH = 200
+
+// Reduces Markdown to its readable text, for excerpts and search snippets.
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')               // fenced code blocks
+    .replace(/<[^>]*>/g, ' ')                      // raw HTML
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')      // images -> alt text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')       // links -> link text
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '') // block markers
+    .replace(/^\s*([-*_]\s*){3,}$/gm, ' ')         // horizontal rules
+    .replace(/(\*\*|__|\*|_|~~|`)/g, '')           // emphasis and inline code
+    .replace(/\|/g, ' ')                           // table pipes
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// First sentences of the content, cut at a word boundary.
+export function createExcerpt(markdown: string | null, maxLength = EXCERPT_LENGTH): string | null {
+  const text = markdownToText(markdown ?? '')
+  if (!text) return null
+  if (text.length <= maxLength) return text
+
+  const cut = text.slice(0, maxLength)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?،؛]+$/, '')}…`
+}
@@ -0,0 +1,119 @@
+// lib/dashboard/data.ts
+import type { User } from '@supabase/supabase-js'
+import type { Article, ArticleAnalytics, ArticleStatus, Category, Comment, CommentStatus, Profile, Tag } from '@/lib/db/types'
+import { loadClampedPage, ok, type DbClient, type DbResult } from '@/lib/db/result'
+import * as analyticsDb from '@/lib/db/analytics'
+import * as articlesDb from '@/lib/db/articles'
+import * as categoriesDb from '@/lib/db/categories'
+import * as commentsDb from '@/lib/db/comments'
+import * as profilesDb from '@/lib/db/profiles'
+import * as tagsDb from '@/lib/db/tags'
+import { DASHBOARD_PAGE_SIZE, type DashboardQuery } from '@/lib/dashboard/query'
+
+export interface DashboardCounts {
+  articles: number
+  scheduled: number
+  categories: number
+  tags: number
+  comments: number
+  analytics: number
+}
+
+export interface DashboardData {
+  profile: Profile | null
+  categories: Category[]
+  authors: profilesDb.Author[]
+  counts: DashboardCounts
+  // Only the list of the open tab is loaded, one page at a time
+  articles: Article[]
+  tags: Tag[]
+  comments: Comment[]
+  analytics: ArticleAnalytics[]
+  // Rows matching the filters of the open tab, for pagination
+  total: number
+  // The page shown, which is the last one when the URL asks for a later one
+  page: number
+  // First failure, if any; whatever did load is still returned
+  error: string | null
+}
+
+type ListPage = Pick<DashboardData, 'articles' | 'tags' | 'comments' | 'analytics' | 'total'>
+
+const EMPTY_PAGE: ListPage = { articles: [], tags: [], comments: [], analytics: [], total: 0 }
+
+async function loadListPage(client: DbClient, query: DashboardQuery, pageNumber: number): Promise<DbResult<ListPage>> {
+  const page = {
+    ascending: query.dir === 'asc',
+    page: pageNumber,
+    pageSize: DASHBOARD_PAGE_SIZE
+  }
+
+  switch (query.tab) {
+    case 'articles': {
+      const result = await articlesDb.listPage(client, {
+        ...page,
+        sort: query.sort as articlesDb.ArticleSort,
+        status: query.status as ArticleStatus | undefined,
+        language: query.lang,
+        categoryId: query.category,
+        authorId: query.author
+      })
+      return result.error ? result : ok({ ...EMPTY_PAGE, ...result.data })
+    }
+    case 'scheduled': {
+      const result = await articlesDb.listPage(client, { ...page, sort: query.sort as articlesDb.ArticleSort, scheduled: true })
+      return result.error ? result : ok({ ...EMPTY_PAGE, ...result.data })
+    }
+    case 'tags': {
+      const result = await tagsDb.listPage(client, { ...page, sort: query.sort as tagsDb.TagSort })
+      return result.error ? result : ok({ ...EMPTY_PAGE, ...result.data })
+    }
+    case 'comments': {
+      const result = await commentsDb.listPage(client, {
+        ...page,
+        sort: query.sort as commentsDb.CommentSort,
+        status: query.status as CommentStatus | undefined
+      })
+      return result.error ? result : ok({ ...EMPTY_PAGE, ...result.data })
+    }
+    case 'analytics': {
+      const result = await analyticsDb.listPage(client, { ...page, sort: query.sort as analyticsDb.AnalyticsSort })
+      return result.error ? result : ok({ ...EMPTY_PAGE, ...result.data })
+    }
+    default:
+      return ok(EMPTY_PAGE)
+  }
+}
+
+// What the dashboard shows for one URL: tab counts from count queries and
+// a single page of the open tab's list.
+export async function loadDashboardData(client: DbClient, user: User, query: DashboardQuery): Promise<DashboardData> {
+  // Load or create profile
+  const profileResult = await profilesDb.ensure(client, user)
+
+  const [categoriesResult, authorsResult, { page, result: listResult }, ...countResults] = await Promise.all([
+    categoriesDb.list(client),
+    query.tab === 'articles' ? profilesDb.listAuthors(client) : Promise.resolve(ok([])),
+    loadClampedPage(query.page, DASHBOARD_PAGE_SIZE, (page) => loadListPage(client, query, page)),
+    articlesDb.count(client),
+    articlesDb.countScheduled(client),
+    categoriesDb.count(client),
+    tagsDb.count(client),
+    commentsDb.count(client),
+    analyticsDb.count(client)
+  ])
+  const [articles, scheduled, categories, tags, comments, analytics] = countResults.map((result) => result.data ?? 0)
+
+  const failed = [profileResult, categoriesResult, authorsResult, listResult, ...countResults]
+    .find((result) => result.error)
+
+  return {
+    profile: profileResult.data,
+    categories: categoriesResult.data || [],
+    authors: authorsResult.data || [],
+    counts: { articles, scheduled, categories, tags, comments, analytics },
+    ...(listResult.data ?? EMPTY_PAGE),
+    page,
+    error: failed?.error?.message ?? null
+  }
+}
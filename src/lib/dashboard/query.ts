@@ -0,0 +1,113 @@
+// lib/dashboard/query.ts
+import { z } from 'zod'
+import type { AnalyticsSort } from '@/lib/db/analytics'
+import type { ArticleSort } from '@/lib/db/articles'
+import type { CommentSort } from '@/lib/db/comments'
+import type { TagSort } from '@/lib/db/tags'
+import type { ArticleStatus, CommentStatus, Language } from '@/lib/db/types'
+import { articleStatusSchema, commentStatusSchema, languageSchema } from '@/lib/db/schemas'
+
+export const DASHBOARD_PAGE_SIZE = 20
+
+export const DASHBOARD_TABS = ['overview', 'profile', 'articles', 'scheduled', 'categories', 'tags', 'comments', 'analytics'] as const
+export type DashboardTab = typeof DASHBOARD_TABS[number]
+
+export type SortDirection = 'asc' | 'desc'
+
+// Sortable columns of each paginated tab, with the sort used when the URL
+// does not pick one.
+export const LIST_SORTS = {
+  articles: { columns: ['created_at', 'updated_at', 'published_at', 'title', 'status'] as ArticleSort[], sort: 'created_at', dir: 'desc' },
+  scheduled: { columns: ['publish_at', 'archive_at', 'title'] as ArticleSort[], sort: 'publish_at', dir: 'asc' },
+  tags: { columns: ['name', 'created_at'] as TagSort[], sort: 'name', dir: 'asc' },
+  comments: { columns: ['created_at', 'status'] as CommentSort[], sort: 'created_at', dir: 'desc' },
+  analytics: { columns: ['date', 'views', 'shares'] as AnalyticsSort[], sort: 'date', dir: 'desc' }
+} as const
+
+export type ListTab = keyof typeof LIST_SORTS
+
+// Query string of the dashboard as it appears in the URL
+export interface DashboardParams {
+  tab?: string
+  page?: string
+  sort?: string
+  dir?: string
+  status?: string
+  lang?: string
+  category?: string
+  author?: string
+}
+
+// Unknown or malformed values are dropped rather than rejected, so a
+// hand-edited or stale URL still opens the dashboard.
+const paramsSchema = z.object({
+  tab: z.enum(DASHBOARD_TABS).catch('overview'),
+  page: z.coerce.number().int().min(1).catch(1),
+  sort: z.string().optional().catch(undefined),
+  dir: z.enum(['asc', 'desc']).optional().catch(undefined),
+  status: z.string().optional().catch(undefined),
+  lang: languageSchema.optional().catch(undefined),
+  category: z.uuid().optional().catch(undefined),
+  author: z.uuid().optional().catch(undefined)
+})
+
+export interface DashboardQuery {
+  tab: DashboardTab
+  page: number
+  sort: string
+  dir: SortDirection
+  // Article status on the articles tab, comment status on the comments tab
+  status?: ArticleStatus | CommentStatus
+  lang?: Language
+  category?: string
+  author?: string
+}
+
+export function isListTab(tab: DashboardTab): tab is ListTab {
+  return tab in LIST_SORTS
+}
+
+// Filters only apply to the tab they belong to, so switching tabs starts
+// from a clean list.
+export function parseDashboardParams(params: DashboardParams): DashboardQuery {
+  const { tab, page, sort, dir, status, lang, category, author } = paramsSchema.parse({ tab: 'overview', page: '1', ...params })
+  if (!isListTab(tab)) return { tab, page: 1, sort: '', dir: 'asc' }
+
+  const defaults = LIST_SORTS[tab]
+  const sortable: readonly string[] = defaults.columns
+  const query: DashboardQuery = {
+    tab,
+    page,
+    sort: sort && sortable.includes(sort) ? sort : defaults.sort,
+    dir: dir ?? defaults.dir
+  }
+
+  if (tab === 'articles') {
+    const articleStatus = articleStatusSchema.safeParse(status)
+    return { ...query, status: articleStatus.data, lang, category, author }
+  }
+  if (tab === 'comments') {
+    return { ...query, status: commentStatusSchema.safeParse(status).data }
+  }
+  return query
+}
+
+// Query string for the dashboard with some values changed. Default values
+// are left out to keep shared links short.
+export function dashboardQueryString(query: DashboardQuery, changes: Partial<DashboardQuery> = {}): string {
+  const next = { ...query, ...changes }
+  const params = new URLSearchParams()
+  if (next.tab !== 'overview') params.set('tab', next.tab)
+  if (isListTab(next.tab)) {
+    const defaults = LIST_SORTS[next.tab]
+    if (next.sort !== defaults.sort) params.set('sort', next.sort)
+    if (next.dir !== defaults.dir) params.set('dir', next.dir)
+  }
+  if (next.status) params.set('status', next.status)
+  if (next.lang) params.set('lang', next.lang)
+  if (next.category) params.set('category', next.category)
+  if (next.author) params.set('author', next.author)
+  if (next.page > 1) params.set('page', String(next.page))
+  const qs = params.toString()
+  return qs ? `?${qs}` : ''
+}
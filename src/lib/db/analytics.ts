@@ -0,0 +1,93 @@
+// lib/db/analytics.ts
+import type { ArticleAnalytics } from '@/lib/db/types'
+import type { ArticleTotals, CategoryTotals, DailyPoint, RangeTotals, Totals } from '@/lib/analytics/aggregate'
+import type { AnalyticsEvent } from '@/lib/analytics/events'
+import { fail, fromList, fromSingle, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export type AnalyticsSort = 'date' | 'views' | 'shares'
+
+export interface AnalyticsListQuery {
+  sort: AnalyticsSort
+  ascending: boolean
+  page: number
+  pageSize: number
+}
+
+// One page of daily rows (dashboard), with the total row count for pagination.
+export async function listPage(
+  client: DbClient,
+  { sort, ascending, page, pageSize }: AnalyticsListQuery
+): Promise<DbResult<{ analytics: ArticleAnalytics[]; total: number }>> {
+  const from = (page - 1) * pageSize
+  const { data, count, error } = await client
+    .from('article_analytics')
+    .select('*', { count: 'exact' })
+    .order(sort, { ascending })
+    .order('id')
+    .range(from, from + pageSize - 1)
+
+  if (error) return fail(error)
+  return ok({ analytics: (data ?? []) as ArticleAnalytics[], total: count ?? 0 })
+}
+
+export async function count(client: DbClient): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('article_analytics')
+    .select('id', { count: 'exact', head: true })
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+// Totals over a range of 'YYYY-MM-DD' dates (inclusive), for the
+// analytics dashboard. The sums are computed in the database.
+export async function getTotals(client: DbClient, from: string, to: string): Promise<DbResult<RangeTotals>> {
+  const response = await client
+    .rpc('analytics_totals', { p_from: from, p_to: to })
+    .single()
+
+  return fromSingle<RangeTotals>(response)
+}
+
+// Days with events in the range, oldest first.
+export async function listDaily(client: DbClient, from: string, to: string): Promise<DbResult<DailyPoint[]>> {
+  const response = await client.rpc('analytics_daily', { p_from: from, p_to: to })
+
+  return fromList<DailyPoint>(response)
+}
+
+export async function listTopArticles(
+  client: DbClient,
+  from: string,
+  to: string,
+  metric: keyof Totals,
+  limit = 10
+): Promise<DbResult<ArticleTotals[]>> {
+  const response = await client.rpc('analytics_top_articles', { p_from: from, p_to: to, p_metric: metric, p_limit: limit })
+
+  return fromList<ArticleTotals>(response)
+}
+
+// Views and shares per category, most viewed first; null for articles
+// without a category.
+export async function listCategoryTotals(client: DbClient, from: string, to: string): Promise<DbResult<CategoryTotals[]>> {
+  const response = await client.rpc('analytics_categories', { p_from: from, p_to: to })
+
+  return fromList<CategoryTotals>(response)
+}
+
+// Records a view or share; returns false when a repeat from the same
+// session was ignored. Needs the service role client.
+export async function recordEvent(
+  client: DbClient,
+  articleId: string,
+  event: AnalyticsEvent,
+  sessionId: string
+): Promise<DbResult<boolean>> {
+  const { data, error } = await client.rpc('record_article_event', {
+    p_article_id: articleId,
+    p_event: event,
+    p_session_id: sessionId
+  })
+
+  return error ? fail(error) : ok(Boolean(data))
+}
@@ -0,0 +1,69 @@
+// lib/db/api-keys.ts
+import type { ApiKey, Profile } from '@/lib/db/types'
+import { apiKeyCreateSchema, type ApiKeyCreate } from '@/lib/db/schemas'
+import { fromList, fromMaybe, fromSingle, invalid, type DbClient, type DbResult } from '@/lib/db/result'
+
+// Keys as listed to admins; the hash never leaves the database
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'> & {
+  creator: Pick<Profile, 'full_name' | 'email'> | null
+}
+
+// Result of counting one request against a key
+export interface ApiKeyUsage {
+  key_id: string
+  rate_limit: number
+  // Requests in the current window, including this one
+  requests: number
+  reset_at: string
+}
+
+const SUMMARY_COLUMNS = `
+  id, name, key_prefix, rate_limit, created_by, created_at, last_used_at, revoked_at,
+  creator:created_by(full_name, email)
+`
+
+// Active keys first, then newest first.
+export async function list(client: DbClient): Promise<DbResult<ApiKeySummary[]>> {
+  const response = await client
+    .from('api_keys')
+    .select(SUMMARY_COLUMNS)
+    .order('revoked_at', { ascending: false, nullsFirst: true })
+    .order('created_at', { ascending: false })
+
+  return fromList<ApiKeySummary>(response)
+}
+
+export async function create(client: DbClient, input: ApiKeyCreate): Promise<DbResult<ApiKeySummary>> {
+  const parsed = apiKeyCreateSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('api_keys')
+    .insert([parsed.data])
+    .select(SUMMARY_COLUMNS)
+    .single()
+
+  return fromSingle<ApiKeySummary>(response)
+}
+
+export async function revoke(client: DbClient, id: string): Promise<DbResult<ApiKeySummary>> {
+  const response = await client
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select(SUMMARY_COLUMNS)
+    .single()
+
+  return fromSingle<ApiKeySummary>(response)
+}
+
+// Counts a request against the key with this hash. Null when no active key
+// matches.
+export async function use(client: DbClient, keyHash: string): Promise<DbResult<ApiKeyUsage | null>> {
+  const response = await client
+    .rpc('use_api_key', { p_key_hash: keyHash })
+    .maybeSingle()
+
+  return fromMaybe<ApiKeyUsage>(response)
+}
@@ -0,0 +1,404 @@
+// lib/db/articles.ts
+import type { Article, ArticleStatus, Category, Language, MediaAsset, Profile, Tag } from '@/lib/db/types'
+import { articleInputSchema, articleScheduleSchema, type ArticleInput, type ArticleSchedule } from '@/lib/db/schemas'
+import { fail, fromList, fromMaybe, fromSingle, invalid, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export type ArticleSummary = Pick<Article, 'id' | 'title' | 'slug' | 'excerpt' | 'featured_image' | 'language' | 'published_at'> & {
+  categories: Pick<Category, 'name' | 'slug'> | null
+  profiles: Pick<Profile, 'full_name'> | null
+  featured_media: Pick<MediaAsset, 'alt_text' | 'caption'> | null
+}
+
+export type ArticleDetail = ArticleSummary & Pick<Article, 'content' | 'author_id' | 'translation_group_id' | 'updated_at'> & {
+  profiles: Pick<Profile, 'full_name' | 'avatar_url'> | null
+  article_tags: { tags: Tag }[]
+}
+
+export type TranslationCandidate = Pick<Article, 'id' | 'title' | 'language' | 'translation_group_id'>
+
+const SUMMARY_COLUMNS = `
+  id, title, slug, excerpt, featured_image, language, published_at,
+  categories(name, slug),
+  profiles:public_profiles!author_id(full_name),
+  featured_media:media_assets(alt_text, caption)
+`
+
+const DETAIL_COLUMNS = `
+  id, title, slug, excerpt, content, featured_image, language, published_at, updated_at, author_id, translation_group_id,
+  categories(name, slug),
+  profiles:public_profiles!author_id(full_name, avatar_url),
+  featured_media:media_assets(alt_text, caption),
+  article_tags(tags(id, name, slug, created_at))
+`
+
+export type ArticleSort = 'created_at' | 'updated_at' | 'published_at' | 'publish_at' | 'archive_at' | 'title' | 'status'
+
+export interface ArticleListQuery {
+  status?: ArticleStatus
+  language?: Language
+  categoryId?: string
+  authorId?: string
+  // Only articles waiting for the scheduler to publish or archive them
+  scheduled?: boolean
+  sort: ArticleSort
+  ascending: boolean
+  page: number
+  pageSize: number
+}
+
+// One page of articles with their category and author (dashboard), with
+// the total match count for pagination.
+export async function listPage(
+  client: DbClient,
+  { status, language, categoryId, authorId, scheduled, sort, ascending, page, pageSize }: ArticleListQuery
+): Promise<DbResult<{ articles: Article[]; total: number }>> {
+  let request = client
+    .from('articles')
+    .select(`
+      *,
+      categories(name, slug),
+      profiles(full_name, email)
+    `, { count: 'exact' })
+
+  if (status) request = request.eq('status', status)
+  if (language) request = request.eq('language', language)
+  if (categoryId) request = request.eq('category_id', categoryId)
+  if (authorId) request = request.eq('author_id', authorId)
+  if (scheduled) request = request.or('publish_at.not.is.null,archive_at.not.is.null')
+
+  const from = (page - 1) * pageSize
+  const { data, count, error } = await request
+    .order(sort, { ascending, nullsFirst: false })
+    .order('id')
+    .range(from, from + pageSize - 1)
+
+  if (error) return fail(error)
+  return ok({ articles: (data ?? []) as Article[], total: count ?? 0 })
+}
+
+export async function count(client: DbClient): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('articles')
+    .select('id', { count: 'exact', head: true })
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+export async function countScheduled(client: DbClient): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('articles')
+    .select('id', { count: 'exact', head: true })
+    .or('publish_at.not.is.null,archive_at.not.is.null')
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+export async function get(client: DbClient, id: string): Promise<DbResult<Article>> {
+  const response = await client
+    .from('articles')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  return fromSingle<Article>(response)
+}
+
+export async function listTranslationCandidates(client: DbClient): Promise<DbResult<TranslationCandidate[]>> {
+  const response = await client
+    .from('articles')
+    .select('id, title, language, translation_group_id')
+    .order('created_at', { ascending: false })
+
+  return fromList<TranslationCandidate>(response)
+}
+
+export type ArticleStatusEntry = Pick<Article, 'id' | 'title' | 'status'>
+
+// Current status of every article by one author.
+export async function listStatusesByAuthor(client: DbClient, authorId: string): Promise<DbResult<ArticleStatusEntry[]>> {
+  const response = await client
+    .from('articles')
+    .select('id, title, status')
+    .eq('author_id', authorId)
+
+  return fromList<ArticleStatusEntry>(response)
+}
+
+export interface WriteOptions {
+  // Content came from an AI provider: flag it and require a fresh review
+  aiGenerated?: boolean
+}
+
+function aiFields({ aiGenerated = false }: WriteOptions) {
+  return aiGenerated ? { ai_generated: true, ai_reviewed_at: null, ai_reviewed_by: null } : {}
+}
+
+// New articles always start as drafts.
+export async function create(
+  client: DbClient,
+  input: ArticleInput,
+  authorId: string,
+  options: WriteOptions = {}
+): Promise<DbResult<Pick<Article, 'id'>>> {
+  const parsed = articleInputSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('articles')
+    .insert([{ ...parsed.data, ...aiFields(options), author_id: authorId, status: 'draft' }])
+    .select('id')
+    .single()
+
+  return fromSingle<Pick<Article, 'id'>>(response)
+}
+
+export async function update(
+  client: DbClient,
+  id: string,
+  input: ArticleInput,
+  options: WriteOptions = {}
+): Promise<DbResult<null>> {
+  const parsed = articleInputSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const { error } = await client
+    .from('articles')
+    .update({ ...parsed.data, ...aiFields(options) })
+    .eq('id', id)
+
+  return error ? fail(error) : ok(null)
+}
+
+// Records that an editor reviewed the AI-generated content of an article.
+export async function acknowledgeAi(
+  client: DbClient,
+  id: string,
+  reviewerId: string
+): Promise<DbResult<Pick<Article, 'ai_reviewed_at' | 'ai_reviewed_by'>>> {
+  const response = await client
+    .from('articles')
+    .update({ ai_reviewed_at: new Date().toISOString(), ai_reviewed_by: reviewerId })
+    .eq('id', id)
+    .eq('ai_generated', true)
+    .select('ai_reviewed_at, ai_reviewed_by')
+    .single()
+
+  return fromSingle<Pick<Article, 'ai_reviewed_at' | 'ai_reviewed_by'>>(response)
+}
+
+// The article in a translation group written in the given language, in any
+// status.
+export async function findTranslation(
+  client: DbClient,
+  translationGroupId: string,
+  language: Language
+): Promise<DbResult<Pick<Article, 'id'> | null>> {
+  const response = await client
+    .from('articles')
+    .select('id')
+    .eq('translation_group_id', translationGroupId)
+    .eq('language', language)
+    .maybeSingle()
+
+  return fromMaybe<Pick<Article, 'id'>>(response)
+}
+
+export type StatusChange = Pick<Article, 'status' | 'published_at' | 'publish_at' | 'archive_at'>
+
+// Moves an article to a new status, stamping published_at on publish. The
+// schedule is returned too, as reaching a scheduled status clears it.
+export async function updateStatus(
+  client: DbClient,
+  id: string,
+  status: ArticleStatus
+): Promise<DbResult<StatusChange>> {
+  const changes: { status: ArticleStatus; published_at?: string } = { status }
+  if (status === 'published') changes.published_at = new Date().toISOString()
+
+  const response = await client
+    .from('articles')
+    .update(changes)
+    .eq('id', id)
+    .select('status, published_at, publish_at, archive_at')
+    .single()
+
+  return fromSingle<StatusChange>(response)
+}
+
+export async function schedule(
+  client: DbClient,
+  id: string,
+  input: ArticleSchedule
+): Promise<DbResult<Pick<Article, 'publish_at' | 'archive_at'>>> {
+  const parsed = articleScheduleSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('articles')
+    .update(parsed.data)
+    .eq('id', id)
+    .select('publish_at, archive_at')
+    .single()
+
+  return fromSingle<Pick<Article, 'publish_at' | 'archive_at'>>(response)
+}
+
+// Publishes and archives every article whose scheduled time has passed.
+// Needs the service role client; see run_article_schedule.
+export async function runSchedule(client: DbClient): Promise<DbResult<{ published: number; archived: number }>> {
+  const response = await client
+    .rpc('run_article_schedule')
+    .single()
+
+  return fromSingle<{ published: number; archived: number }>(response)
+}
+
+export async function remove(client: DbClient, id: string): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('articles')
+    .delete()
+    .eq('id', id)
+
+  return error ? fail(error) : ok(null)
+}
+
+export async function isPublished(client: DbClient, id: string): Promise<DbResult<boolean>> {
+  const response = await client
+    .from('articles')
+    .select('id')
+    .eq('id', id)
+    .eq('status', 'published')
+    .maybeSingle()
+
+  return response.error ? fail(response.error) : ok(Boolean(response.data))
+}
+
+// Number of articles using a library image as their featured image.
+export async function countUsingMedia(client: DbClient, mediaId: string): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('articles')
+    .select('id', { count: 'exact', head: true })
+    .eq('featured_media_id', mediaId)
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+export interface PublishedFilter {
+  // Both languages when omitted
+  language?: Language
+  categoryId?: string
+  tagId?: string
+  authorId?: string
+  limit?: number
+}
+
+export async function listPublished(client: DbClient, filter: PublishedFilter): Promise<DbResult<ArticleSummary[]>> {
+  let query = client
+    .from('articles')
+    .select(filter.tagId ? `${SUMMARY_COLUMNS}, article_tags!inner(tag_id)` : SUMMARY_COLUMNS)
+    .eq('status', 'published')
+
+  if (filter.language) query = query.eq('language', filter.language)
+  if (filter.categoryId) query = query.eq('category_id', filter.categoryId)
+  if (filter.tagId) query = query.eq('article_tags.tag_id', filter.tagId)
+  if (filter.authorId) query = query.eq('author_id', filter.authorId)
+
+  const response = await query
+    .order('published_at', { ascending: false })
+    .limit(filter.limit ?? 50)
+
+  return fromList<ArticleSummary>(response)
+}
+
+export interface PublishedPageQuery {
+  language?: Language
+  categoryId?: string
+  // Position of the last article of the previous page
+  after?: Pick<Article, 'id' | 'published_at'> | null
+  limit: number
+}
+
+// Keyset pagination over published articles, newest first. The id breaks
+// ties between articles published at the same moment.
+export async function listPublishedPage(
+  client: DbClient,
+  query: PublishedPageQuery
+): Promise<DbResult<{ items: ArticleSummary[]; hasMore: boolean }>> {
+  let request = client
+    .from('articles')
+    .select(SUMMARY_COLUMNS)
+    .eq('status', 'published')
+
+  if (query.language) request = request.eq('language', query.language)
+  if (query.categoryId) request = request.eq('category_id', query.categoryId)
+  if (query.after?.published_at) {
+    const { id, published_at: publishedAt } = query.after
+    request = request.or(`published_at.lt."${publishedAt}",and(published_at.eq."${publishedAt}",id.lt.${id})`)
+  }
+
+  // One extra row tells whether another page follows
+  const { data, error } = await request
+    .order('published_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(query.limit + 1)
+
+  if (error) return fail(error)
+  const rows = (data ?? []) as unknown as ArticleSummary[]
+  return ok({ items: rows.slice(0, query.limit), hasMore: rows.length > query.limit })
+}
+
+export async function getPublishedBySlug(client: DbClient, slug: string): Promise<DbResult<ArticleDetail | null>> {
+  const response = await client
+    .from('articles')
+    .select(DETAIL_COLUMNS)
+    .eq('status', 'published')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  return fromMaybe<ArticleDetail>(response)
+}
+
+export type SitemapArticle = Pick<Article, 'slug' | 'language' | 'translation_group_id' | 'updated_at'>
+
+// PostgREST returns at most this many rows per request
+const SITEMAP_BATCH_SIZE = 1000
+
+// Every published article in both languages, with what the sitemap needs to
+// link translations to each other. Fetched in batches up to `limit`.
+export async function listSitemapArticles(client: DbClient, limit: number): Promise<DbResult<SitemapArticle[]>> {
+  const articles: SitemapArticle[] = []
+
+  while (articles.length < limit) {
+    const from = articles.length
+    const { data, error } = await client
+      .from('articles')
+      .select('slug, language, translation_group_id, updated_at')
+      .eq('status', 'published')
+      .order('published_at', { ascending: false })
+      .order('id')
+      .range(from, Math.min(limit, from + SITEMAP_BATCH_SIZE) - 1)
+
+    if (error) return fail(error)
+    const batch = (data ?? []) as SitemapArticle[]
+    articles.push(...batch)
+    if (batch.length < Math.min(limit - from, SITEMAP_BATCH_SIZE)) break
+  }
+
+  return ok(articles)
+}
+
+// The published counterpart of an article in another language, if any.
+export async function getPublishedTranslation(
+  client: DbClient,
+  article: Pick<Article, 'id' | 'translation_group_id'>
+): Promise<DbResult<Pick<Article, 'slug' | 'language'> | null>> {
+  const response = await client
+    .from('articles')
+    .select('slug, language')
+    .eq('status', 'published')
+    .eq('translation_group_id', article.translation_group_id)
+    .neq('id', article.id)
+    .maybeSingle()
+
+  return fromMaybe<Pick<Article, 'slug' | 'language'>>(response)
+}
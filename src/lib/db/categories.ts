@@ -0,0 +1,111 @@
+// lib/db/categories.ts
+import type { Category } from '@/lib/db/types'
+import { categoryInputSchema, type CategoryInput } from '@/lib/db/schemas'
+import { fail, fromList, fromMaybe, fromSingle, invalid, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export type CategoryWithCount = Category & { articles: { count: number }[] }
+
+export async function list(client: DbClient): Promise<DbResult<Category[]>> {
+  const response = await client
+    .from('categories')
+    .select('*')
+    .order('priority', { ascending: true })
+
+  return fromList<Category>(response)
+}
+
+export async function count(client: DbClient): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('categories')
+    .select('id', { count: 'exact', head: true })
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+export async function listWithCounts(client: DbClient): Promise<DbResult<CategoryWithCount[]>> {
+  const response = await client
+    .from('categories')
+    .select('*, articles(count)')
+    .order('priority', { ascending: true })
+
+  return fromList<CategoryWithCount>(response)
+}
+
+export async function getBySlug(client: DbClient, slug: string): Promise<DbResult<Category | null>> {
+  const response = await client
+    .from('categories')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  return fromMaybe<Category>(response)
+}
+
+// New categories go to the end of the list.
+export async function create(client: DbClient, input: CategoryInput): Promise<DbResult<Category>> {
+  const parsed = categoryInputSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const last = await client
+    .from('categories')
+    .select('priority')
+    .order('priority', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (last.error) return fail(last.error)
+
+  const response = await client
+    .from('categories')
+    .insert([{ ...parsed.data, priority: (last.data?.priority ?? 0) + 1 }])
+    .select()
+    .single()
+
+  return fromSingle<Category>(response)
+}
+
+export async function update(client: DbClient, id: string, input: CategoryInput): Promise<DbResult<Category>> {
+  const parsed = categoryInputSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('categories')
+    .update(parsed.data)
+    .eq('id', id)
+    .select()
+    .single()
+
+  return fromSingle<Category>(response)
+}
+
+export async function remove(client: DbClient, id: string): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('categories')
+    .delete()
+    .eq('id', id)
+
+  return error ? fail(error) : ok(null)
+}
+
+export async function countArticles(client: DbClient, id: string): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('articles')
+    .select('id', { count: 'exact', head: true })
+    .eq('category_id', id)
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+export async function reassignArticles(client: DbClient, fromId: string, toId: string): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('articles')
+    .update({ category_id: toId })
+    .eq('category_id', fromId)
+
+  return error ? fail(error) : ok(null)
+}
+
+export async function reorder(client: DbClient, ids: string[]): Promise<DbResult<null>> {
+  const { error } = await client.rpc('reorder_categories', { category_ids: ids })
+  return error ? fail(error) : ok(null)
+}
@@ -0,0 +1,135 @@
+// lib/db/comments.ts
+import type { Article, Comment, CommentStatus, Profile } from '@/lib/db/types'
+import { commentCreateSchema, type CommentCreate } from '@/lib/db/schemas'
+import { fail, fromList, fromMaybe, invalid, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export type PublicComment = Pick<Comment, 'id' | 'parent_id' | 'content' | 'created_at'> & {
+  profiles: Pick<Profile, 'full_name'> | null
+}
+
+export type QueueComment = Comment & {
+  articles: Pick<Article, 'title' | 'slug' | 'language'> | null
+  parent: Pick<Comment, 'content'> | null
+  profiles: Pick<Profile, 'full_name' | 'email'> | null
+}
+
+export type CommentSort = 'created_at' | 'status'
+
+export interface CommentListQuery {
+  status?: CommentStatus
+  sort: CommentSort
+  ascending: boolean
+  page: number
+  pageSize: number
+}
+
+// One page of comments with their author (dashboard), with the total
+// match count for pagination.
+export async function listPage(
+  client: DbClient,
+  { status, sort, ascending, page, pageSize }: CommentListQuery
+): Promise<DbResult<{ comments: Comment[]; total: number }>> {
+  let request = client
+    .from('comments')
+    .select(`
+      *,
+      profiles(full_name, email)
+    `, { count: 'exact' })
+
+  if (status) request = request.eq('status', status)
+
+  const from = (page - 1) * pageSize
+  const { data, count, error } = await request
+    .order(sort, { ascending })
+    .order('id')
+    .range(from, from + pageSize - 1)
+
+  if (error) return fail(error)
+  return ok({ comments: (data ?? []) as Comment[], total: count ?? 0 })
+}
+
+export async function count(client: DbClient): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('comments')
+    .select('id', { count: 'exact', head: true })
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+// One page of the moderation queue for one status, with the total count
+// for pagination; pending comments oldest first.
+export async function listByStatus(
+  client: DbClient,
+  status: CommentStatus,
+  { page, pageSize }: { page: number; pageSize: number }
+): Promise<DbResult<{ comments: QueueComment[]; total: number }>> {
+  const from = (page - 1) * pageSize
+  const { data, count, error } = await client
+    .from('comments')
+    .select(`
+      *,
+      articles(title, slug, language),
+      parent:parent_id(content),
+      profiles(full_name, email)
+    `, { count: 'exact' })
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .order('id')
+    .range(from, from + pageSize - 1)
+
+  if (error) return fail(error)
+  return ok({ comments: (data ?? []) as QueueComment[], total: count ?? 0 })
+}
+
+export async function listApproved(client: DbClient, articleId: string): Promise<DbResult<PublicComment[]>> {
+  const response = await client
+    .from('comments')
+    .select('id, parent_id, content, created_at, profiles:public_profiles!author_id(full_name)')
+    .eq('article_id', articleId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: true })
+
+  return fromList<PublicComment>(response)
+}
+
+export async function getApproved(client: DbClient, id: string, articleId: string): Promise<DbResult<Pick<Comment, 'id'> | null>> {
+  const response = await client
+    .from('comments')
+    .select('id')
+    .eq('id', id)
+    .eq('article_id', articleId)
+    .eq('status', 'approved')
+    .maybeSingle()
+
+  return fromMaybe<Pick<Comment, 'id'>>(response)
+}
+
+export async function create(client: DbClient, input: CommentCreate): Promise<DbResult<null>> {
+  const parsed = commentCreateSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const { error } = await client
+    .from('comments')
+    .insert([parsed.data])
+
+  return error ? fail(error) : ok(null)
+}
+
+export async function updateStatus(client: DbClient, ids: string[], status: CommentStatus): Promise<DbResult<number>> {
+  const response = await client
+    .from('comments')
+    .update({ status })
+    .in('id', ids)
+    .select('id')
+
+  return response.error ? fail(response.error) : ok(response.data.length)
+}
+
+export async function remove(client: DbClient, id: string): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('comments')
+    .delete()
+    .eq('id', id)
+
+  return error ? fail(error) : ok(null)
+}
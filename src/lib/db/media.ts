@@ -0,0 +1,79 @@
+// lib/db/media.ts
+import type { MediaAsset } from '@/lib/db/types'
+import { mediaCreateSchema, mediaUpdateSchema, type MediaCreate, type MediaUpdate } from '@/lib/db/schemas'
+import { fail, fromSingle, invalid, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export interface MediaSearch {
+  query?: string
+  page: number
+  pageSize: number
+}
+
+// One page of assets matching a file name, alt text or caption fragment,
+// newest first.
+export async function search(
+  client: DbClient,
+  { query, page, pageSize }: MediaSearch
+): Promise<DbResult<{ assets: MediaAsset[]; total: number }>> {
+  let request = client
+    .from('media_assets')
+    .select('*', { count: 'exact' })
+
+  // Commas and parentheses would break out of the or() filter
+  const term = query?.trim().replace(/[,()%\\]/g, ' ')
+  if (term) request = request.or(`file_name.ilike.%${term}%,alt_text.ilike.%${term}%,caption.ilike.%${term}%`)
+
+  const from = (page - 1) * pageSize
+  const { data, count, error } = await request
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  if (error) return fail(error)
+  return ok({ assets: (data ?? []) as MediaAsset[], total: count ?? 0 })
+}
+
+export async function get(client: DbClient, id: string): Promise<DbResult<MediaAsset>> {
+  const response = await client
+    .from('media_assets')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  return fromSingle<MediaAsset>(response)
+}
+
+export async function create(client: DbClient, input: MediaCreate): Promise<DbResult<MediaAsset>> {
+  const parsed = mediaCreateSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('media_assets')
+    .insert([parsed.data])
+    .select()
+    .single()
+
+  return fromSingle<MediaAsset>(response)
+}
+
+export async function update(client: DbClient, id: string, input: MediaUpdate): Promise<DbResult<MediaAsset>> {
+  const parsed = mediaUpdateSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('media_assets')
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+
+  return fromSingle<MediaAsset>(response)
+}
+
+export async function remove(client: DbClient, id: string): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('media_assets')
+    .delete()
+    .eq('id', id)
+
+  return error ? fail(error) : ok(null)
+}
@@ -0,0 +1,109 @@
+// lib/db/notifications.ts
+import type { Article, Comment, EmailStatus, Notification, NotificationPreference, Profile } from '@/lib/db/types'
+import { fail, fromList, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export type NotificationEntry = Notification & {
+  articles: Pick<Article, 'title' | 'slug' | 'language'> | null
+  actor: Pick<Profile, 'full_name' | 'email'> | null
+}
+
+export type EmailNotification = NotificationEntry & {
+  recipient: Pick<Profile, 'full_name' | 'email'> | null
+  comments: Pick<Comment, 'content'> | null
+}
+
+const ENTRY_COLUMNS = `
+  *,
+  articles(title, slug, language),
+  actor:actor_id(full_name, email)
+`
+
+// Newest in-app notifications of one user.
+export async function listRecent(client: DbClient, userId: string, limit = 20): Promise<DbResult<NotificationEntry[]>> {
+  const response = await client
+    .from('notifications')
+    .select(ENTRY_COLUMNS)
+    .eq('user_id', userId)
+    .eq('in_app', true)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  return fromList<NotificationEntry>(response)
+}
+
+export async function countUnread(client: DbClient, userId: string): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('in_app', true)
+    .is('read_at', null)
+
+  if (error) return fail(error)
+  return ok(count ?? 0)
+}
+
+// Marks the given notifications read, or all of the user's when no ids are
+// given.
+export async function markRead(client: DbClient, userId: string, ids?: string[]): Promise<DbResult<null>> {
+  let query = client
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null)
+
+  if (ids) query = query.in('id', ids)
+
+  const { error } = await query
+  if (error) return fail(error)
+  return ok(null)
+}
+
+// Stored preferences only; events without a row have both channels on.
+export async function listPreferences(client: DbClient, userId: string): Promise<DbResult<NotificationPreference[]>> {
+  const response = await client
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+
+  return fromList<NotificationPreference>(response)
+}
+
+export async function savePreferences(client: DbClient, preferences: NotificationPreference[]): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('notification_preferences')
+    .upsert(preferences, { onConflict: 'user_id,event' })
+
+  if (error) return fail(error)
+  return ok(null)
+}
+
+// Claims up to `limit` pending emails for sending (service role only).
+export async function claimEmails(client: DbClient, limit: number): Promise<DbResult<string[]>> {
+  const response = await client.rpc('claim_notification_emails', { p_limit: limit })
+
+  return fromList<string>(response)
+}
+
+export async function listForEmail(client: DbClient, ids: string[]): Promise<DbResult<EmailNotification[]>> {
+  const response = await client
+    .from('notifications')
+    .select(`
+      ${ENTRY_COLUMNS},
+      recipient:user_id(full_name, email),
+      comments(content)
+    `)
+    .in('id', ids)
+
+  return fromList<EmailNotification>(response)
+}
+
+export async function setEmailStatus(client: DbClient, ids: string[], status: EmailStatus): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('notifications')
+    .update({ email_status: status })
+    .in('id', ids)
+
+  if (error) return fail(error)
+  return ok(null)
+}
@@ -0,0 +1,136 @@
+// lib/db/profiles.ts
+import type { User } from '@supabase/supabase-js'
+import type { Profile, Role } from '@/lib/db/types'
+import { profileCreateSchema, profileUpdateSchema, roleSchema, type ProfileCreate, type ProfileUpdate } from '@/lib/db/schemas'
+import { fail, fromList, fromMaybe, fromSingle, invalid, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+// The fields shown on public author pages, read from the public_profiles
+// view; email stays private.
+export type PublicProfile = Pick<Profile, 'id' | 'full_name' | 'avatar_url' | 'created_at'>
+
+export async function get(client: DbClient, id: string): Promise<DbResult<Profile | null>> {
+  const response = await client
+    .from('profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  return fromMaybe<Profile>(response)
+}
+
+export async function getPublic(client: DbClient, id: string): Promise<DbResult<PublicProfile | null>> {
+  const response = await client
+    .from('public_profiles')
+    .select('id, full_name, avatar_url, created_at')
+    .eq('id', id)
+    .maybeSingle()
+
+  return fromMaybe<PublicProfile>(response)
+}
+
+export interface ProfileSearch {
+  query?: string
+  page: number
+  pageSize: number
+}
+
+// One page of profiles matching a name or email fragment, newest first,
+// with the total match count for pagination.
+export async function search(
+  client: DbClient,
+  { query, page, pageSize }: ProfileSearch
+): Promise<DbResult<{ profiles: Profile[]; total: number }>> {
+  let request = client
+    .from('profiles')
+    .select('*', { count: 'exact' })
+
+  // Commas and parentheses would break out of the or() filter
+  const term = query?.trim().replace(/[,()%\\]/g, ' ')
+  if (term) request = request.or(`email.ilike.%${term}%,full_name.ilike.%${term}%`)
+
+  const from = (page - 1) * pageSize
+  const { data, count, error } = await request
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  if (error) return fail(error)
+  return ok({ profiles: (data ?? []) as Profile[], total: count ?? 0 })
+}
+
+export type Author = Pick<Profile, 'id' | 'full_name' | 'email'>
+
+// Editors and admins, who can write articles (dashboard author filter).
+export async function listAuthors(client: DbClient): Promise<DbResult<Author[]>> {
+  const response = await client
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('role', ['editor', 'admin'])
+    .order('full_name', { ascending: true, nullsFirst: false })
+
+  return fromList<Author>(response)
+}
+
+// The user's role, defaulting to reader when they have no profile yet.
+export async function getRole(client: DbClient, id: string): Promise<Role> {
+  const { data } = await client
+    .from('profiles')
+    .select('role')
+    .eq('id', id)
+    .maybeSingle()
+
+  return (data?.role ?? 'reader') as Role
+}
+
+export async function create(client: DbClient, input: ProfileCreate): Promise<DbResult<Profile>> {
+  const parsed = profileCreateSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('profiles')
+    .insert([parsed.data])
+    .select()
+    .single()
+
+  return fromSingle<Profile>(response)
+}
+
+export async function update(client: DbClient, id: string, input: ProfileUpdate): Promise<DbResult<Profile>> {
+  const parsed = profileUpdateSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('profiles')
+    .update(parsed.data)
+    .eq('id', id)
+    .select()
+    .single()
+
+  return fromSingle<Profile>(response)
+}
+
+// Role changes go through change_user_role, which checks the caller is an
+// admin, refuses to demote the last admin and writes the audit record.
+export async function changeRole(client: DbClient, id: string, role: Role): Promise<DbResult<Profile>> {
+  const parsed = roleSchema.safeParse(role)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .rpc('change_user_role', { p_profile_id: id, p_role: parsed.data })
+    .single()
+
+  return fromSingle<Profile>(response)
+}
+
+// Loads the user's profile, creating it on first sign-in. New profiles
+// are always readers; see default_profile_role.
+export async function ensure(client: DbClient, user: User): Promise<DbResult<Profile>> {
+  const existing = await get(client, user.id)
+  if (existing.error) return existing
+  if (existing.data) return ok(existing.data)
+
+  return create(client, {
+    id: user.id,
+    email: user.email || '',
+    full_name: user.user_metadata?.full_name || null
+  })
+}
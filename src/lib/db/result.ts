@@ -0,0 +1,70 @@
+// lib/db/result.ts
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js'
+import type { ZodError } from 'zod'
+
+// Repositories accept any Supabase client so the same queries run in the
+// browser, in server components and in server actions.
+export type DbClient = SupabaseClient
+
+export interface DbError {
+  message: string
+  code: string | null
+}
+
+export type DbResult<T> = { data: T; error: null } | { data: null; error: DbError }
+
+// Error codes the UI turns into friendlier messages
+export const UNIQUE_VIOLATION = '23505'
+// PostgREST: .single() matched no rows
+export const NO_ROWS = 'PGRST116'
+// PostgREST: .range() starts past the last row
+export const RANGE_NOT_SATISFIABLE = 'PGRST103'
+export const VALIDATION_ERROR = 'validation'
+
+export function ok<T>(data: T): DbResult<T> {
+  return { data, error: null }
+}
+
+export function fail(error: Pick<PostgrestError, 'message'> & { code?: string | null }): { data: null; error: DbError } {
+  return { data: null, error: { message: error.message, code: error.code ?? null } }
+}
+
+export function invalid(error: ZodError): { data: null; error: DbError } {
+  return fail({ message: error.issues.map((issue) => issue.message).join('; '), code: VALIDATION_ERROR })
+}
+
+type Response = { data: unknown; error: PostgrestError | null }
+
+// Result of a .single() query: exactly one row or an error.
+export function fromSingle<T>(response: Response): DbResult<T> {
+  if (response.error) return fail(response.error)
+  return ok(response.data as T)
+}
+
+// Result of a .maybeSingle() query: the row, or null when nothing matched.
+export function fromMaybe<T>(response: Response): DbResult<T | null> {
+  if (response.error) return fail(response.error)
+  return ok((response.data ?? null) as T | null)
+}
+
+// Loads a page of a paginated list. A page past the end (a stale link, or
+// rows removed since) fails with RANGE_NOT_SATISFIABLE, so the total is
+// counted on the first page and the last page loaded instead.
+export async function loadClampedPage<T extends { total: number }>(
+  page: number,
+  pageSize: number,
+  load: (page: number) => Promise<DbResult<T>>
+): Promise<{ page: number; result: DbResult<T> }> {
+  const result = await load(page)
+  if (result.error?.code !== RANGE_NOT_SATISFIABLE) return { page, result }
+
+  const first = await load(1)
+  const lastPage = first.data ? Math.max(1, Math.ceil(first.data.total / pageSize)) : 1
+  if (lastPage === 1) return { page: 1, result: first }
+  return { page: lastPage, result: await load(lastPage) }
+}
+
+export function fromList<T>(response: Response): DbResult<T[]> {
+  if (response.error) return fail(response.error)
+  return ok((response.data ?? []) as T[])
+}
@@ -0,0 +1,111 @@
+// lib/db/reviews.ts
+import type { ArticleReview, Profile, ReviewNote } from '@/lib/db/types'
+import type { StatusChange } from '@/lib/db/articles'
+import { reviewNoteCreateSchema, reviewReasonSchema, type ReviewNoteCreate } from '@/lib/db/schemas'
+import { fail, fromList, fromMaybe, fromSingle, invalid, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+type Person = Pick<Profile, 'full_name' | 'email'> | null
+
+export type ReviewNoteEntry = ReviewNote & {
+  author: Person
+  resolver: Person
+}
+
+export type ReviewEntry = ArticleReview & {
+  reviewer: Person
+}
+
+const NOTE_COLUMNS = '*, author:author_id(full_name, email), resolver:resolved_by(full_name, email)'
+const REVIEW_COLUMNS = '*, reviewer:reviewer_id(full_name, email)'
+
+// Notes in the order their ranges appear in the content.
+export async function listNotes(client: DbClient, articleId: string): Promise<DbResult<ReviewNoteEntry[]>> {
+  const response = await client
+    .from('review_notes')
+    .select(NOTE_COLUMNS)
+    .eq('article_id', articleId)
+    .order('range_start')
+    .order('created_at')
+
+  return fromList<ReviewNoteEntry>(response)
+}
+
+export async function createNote(client: DbClient, input: ReviewNoteCreate): Promise<DbResult<ReviewNoteEntry>> {
+  const parsed = reviewNoteCreateSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('review_notes')
+    .insert([parsed.data])
+    .select(NOTE_COLUMNS)
+    .single()
+
+  return fromSingle<ReviewNoteEntry>(response)
+}
+
+// Resolves a note for `userId`, or reopens it when `userId` is null.
+export async function setNoteResolved(client: DbClient, id: string, userId: string | null): Promise<DbResult<ReviewNoteEntry>> {
+  const response = await client
+    .from('review_notes')
+    .update({ resolved_at: userId ? new Date().toISOString() : null, resolved_by: userId })
+    .eq('id', id)
+    .select(NOTE_COLUMNS)
+    .single()
+
+  return fromSingle<ReviewNoteEntry>(response)
+}
+
+export async function removeNote(client: DbClient, id: string): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('review_notes')
+    .delete()
+    .eq('id', id)
+
+  return error ? fail(error) : ok(null)
+}
+
+// Every decision on an article, newest first.
+export async function listDecisions(client: DbClient, articleId: string): Promise<DbResult<ReviewEntry[]>> {
+  const response = await client
+    .from('article_reviews')
+    .select(REVIEW_COLUMNS)
+    .eq('article_id', articleId)
+    .order('created_at', { ascending: false })
+
+  return fromList<ReviewEntry>(response)
+}
+
+// The approval that currently allows publishing, if any. See
+// current_article_approval for when an approval stops counting.
+export async function getCurrentApproval(client: DbClient, articleId: string): Promise<DbResult<ReviewEntry | null>> {
+  const response = await client
+    .rpc('current_article_approval', { p_article_id: articleId })
+    .select(REVIEW_COLUMNS)
+    .maybeSingle()
+
+  return fromMaybe<ReviewEntry>(response)
+}
+
+export async function approve(client: DbClient, articleId: string, reviewerId: string): Promise<DbResult<ReviewEntry>> {
+  const response = await client
+    .from('article_reviews')
+    .insert([{ article_id: articleId, reviewer_id: reviewerId, decision: 'approved' }])
+    .select(REVIEW_COLUMNS)
+    .single()
+
+  return fromSingle<ReviewEntry>(response)
+}
+
+// Records the reason and sends the article back to draft in one
+// transaction; see request_article_changes.
+export async function requestChanges(client: DbClient, articleId: string, reason: string): Promise<DbResult<StatusChange>> {
+  const parsed = reviewReasonSchema.safeParse(reason)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .rpc('request_article_changes', { p_article_id: articleId, p_reason: parsed.data })
+    .select('status, published_at, publish_at, archive_at')
+    .single()
+
+  return fromSingle<StatusChange>(response)
+}
@@ -0,0 +1,31 @@
+// lib/db/revisions.ts
+import type { ArticleRevision, Profile } from '@/lib/db/types'
+import { fromList, fromSingle, type DbClient, type DbResult } from '@/lib/db/result'
+
+// Revisions are recorded by the record_article_revision trigger, so there
+// are no write functions here.
+
+export type RevisionSummary = Pick<ArticleRevision, 'id' | 'title' | 'created_at'> & {
+  profiles: Pick<Profile, 'full_name' | 'email'> | null
+}
+
+// Every revision of an article without its text, newest first.
+export async function list(client: DbClient, articleId: string): Promise<DbResult<RevisionSummary[]>> {
+  const response = await client
+    .from('article_revisions')
+    .select('id, title, created_at, profiles(full_name, email)')
+    .eq('article_id', articleId)
+    .order('created_at', { ascending: false })
+
+  return fromList<RevisionSummary>(response)
+}
+
+export async function get(client: DbClient, id: string): Promise<DbResult<ArticleRevision>> {
+  const response = await client
+    .from('article_revisions')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  return fromSingle<ArticleRevision>(response)
+}
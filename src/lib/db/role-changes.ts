@@ -0,0 +1,23 @@
+// lib/db/role-changes.ts
+import type { Profile, RoleChange } from '@/lib/db/types'
+import { fromList, type DbClient, type DbResult } from '@/lib/db/result'
+
+export type RoleChangeEntry = RoleChange & {
+  profile: Pick<Profile, 'full_name' | 'email'> | null
+  changer: Pick<Profile, 'full_name' | 'email'> | null
+}
+
+// Most recent role changes first, with who was changed and by whom.
+export async function listRecent(client: DbClient, limit = 20): Promise<DbResult<RoleChangeEntry[]>> {
+  const response = await client
+    .from('role_changes')
+    .select(`
+      *,
+      profile:profile_id(full_name, email),
+      changer:changed_by(full_name, email)
+    `)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  return fromList<RoleChangeEntry>(response)
+}
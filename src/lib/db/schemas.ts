@@ -0,0 +1,148 @@
+// lib/db/schemas.ts
+import { z } from 'zod'
+import { isValidSlug } from '@/lib/slug'
+import { createExcerpt } from '@/lib/content/markdown'
+
+const SLUG_MESSAGE = 'Slug may only contain lowercase letters, numbers and dashes'
+
+export const roleSchema = z.enum(['reader', 'editor', 'admin'])
+export const languageSchema = z.enum(['en', 'ar'], 'Unknown language')
+export const articleStatusSchema = z.enum(['draft', 'review', 'published', 'archived'])
+export const commentStatusSchema = z.enum(['pending', 'approved', 'rejected'])
+
+export const slugSchema = z.string().trim().refine(isValidSlug, SLUG_MESSAGE)
+
+// Empty strings from form fields are stored as null
+const optionalText = z.string().trim().nullable().transform((value) => value || null)
+
+export const profileCreateSchema = z.object({
+  id: z.uuid(),
+  email: z.string().trim(),
+  full_name: optionalText
+})
+
+export const MAX_NAME_LENGTH = 100
+
+export const profileUpdateSchema = z.object({
+  full_name: optionalText.refine(
+    (value) => !value || value.length <= MAX_NAME_LENGTH,
+    `Names are limited to ${MAX_NAME_LENGTH} characters`
+  ),
+  avatar_url: z.url().nullable()
+}).partial()
+
+export const categoryInputSchema = z.object({
+  name: z.string().trim().min(1, 'Category name is required'),
+  slug: slugSchema,
+  description: optionalText
+})
+
+export const articleInputSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(300, 'Titles are limited to 300 characters'),
+  slug: slugSchema,
+  excerpt: optionalText,
+  content: z.string().nullable(),
+  featured_image: z.url('Featured image must be a URL').nullable(),
+  featured_media_id: z.uuid().nullable(),
+  category_id: z.uuid().nullable(),
+  language: languageSchema,
+  translation_group_id: z.uuid('Missing translation group')
+}).transform((article) => ({
+  ...article,
+  // Left blank, the excerpt is taken from the start of the content
+  excerpt: article.excerpt ?? createExcerpt(article.content)
+}))
+
+// When the scheduler should publish or archive an article; null clears it.
+export const articleScheduleSchema = z.object({
+  publish_at: z.iso.datetime({ offset: true, message: 'Publish time must be a date and time' }).nullable(),
+  archive_at: z.iso.datetime({ offset: true, message: 'Archive time must be a date and time' }).nullable()
+}).refine(
+  ({ publish_at, archive_at }) => !publish_at || !archive_at || new Date(archive_at) > new Date(publish_at),
+  { message: 'Archive time must be after the publish time', path: ['archive_at'] }
+)
+
+export const tagInputSchema = z.object({
+  name: z.string().trim().min(1, 'Tag name is required'),
+  slug: slugSchema
+})
+
+export const MAX_COMMENT_LENGTH = 5000
+
+export const commentCreateSchema = z.object({
+  article_id: z.uuid(),
+  author_id: z.uuid(),
+  parent_id: z.uuid().nullable(),
+  content: z.string().trim()
+    .min(1, 'Comment cannot be empty')
+    .max(MAX_COMMENT_LENGTH, `Comments are limited to ${MAX_COMMENT_LENGTH} characters`),
+  status: commentStatusSchema.default('pending')
+})
+
+export const MAX_ALT_TEXT_LENGTH = 300
+export const MAX_CAPTION_LENGTH = 1000
+
+export const mediaUpdateSchema = z.object({
+  alt_text: optionalText.refine(
+    (value) => !value || value.length <= MAX_ALT_TEXT_LENGTH,
+    `Alt text is limited to ${MAX_ALT_TEXT_LENGTH} characters`
+  ),
+  caption: optionalText.refine(
+    (value) => !value || value.length <= MAX_CAPTION_LENGTH,
+    `Captions are limited to ${MAX_CAPTION_LENGTH} characters`
+  )
+})
+
+export const mediaCreateSchema = mediaUpdateSchema.extend({
+  path: z.string().min(1),
+  url: z.url(),
+  file_name: z.string().trim().min(1),
+  mime_type: z.string().startsWith('image/', 'Only images can be added to the library'),
+  size_bytes: z.number().int().nonnegative(),
+  width: z.number().int().positive().nullable(),
+  height: z.number().int().positive().nullable(),
+  uploaded_by: z.uuid()
+})
+
+export const MAX_API_RATE_LIMIT = 10000
+
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim()
+    .min(1, 'Key name is required')
+    .max(MAX_NAME_LENGTH, `Key names are limited to ${MAX_NAME_LENGTH} characters`),
+  rate_limit: z.number().int()
+    .min(1, 'The rate limit must be at least 1 request per minute')
+    .max(MAX_API_RATE_LIMIT, `The rate limit is at most ${MAX_API_RATE_LIMIT} requests per minute`),
+  key_prefix: z.string().min(1),
+  key_hash: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid key hash'),
+  created_by: z.uuid()
+})
+
+export const MAX_REVIEW_TEXT_LENGTH = 2000
+
+export const reviewNoteCreateSchema = z.object({
+  article_id: z.uuid(),
+  author_id: z.uuid(),
+  range_start: z.number().int().nonnegative(),
+  range_end: z.number().int().positive(),
+  quote: z.string().min(1, 'Select the text the note is about'),
+  body: z.string().trim()
+    .min(1, 'The note is empty')
+    .max(MAX_REVIEW_TEXT_LENGTH, `Notes are limited to ${MAX_REVIEW_TEXT_LENGTH} characters`)
+}).refine((note) => note.range_end > note.range_start, 'Select the text the note is about')
+
+export const reviewReasonSchema = z.string().trim()
+  .min(1, 'Give a reason for the changes')
+  .max(MAX_REVIEW_TEXT_LENGTH, `Reasons are limited to ${MAX_REVIEW_TEXT_LENGTH} characters`)
+
+export type ProfileCreate = z.input<typeof profileCreateSchema>
+export type ProfileUpdate = z.input<typeof profileUpdateSchema>
+export type CategoryInput = z.input<typeof categoryInputSchema>
+export type ArticleInput = z.input<typeof articleInputSchema>
+export type ArticleSchedule = z.input<typeof articleScheduleSchema>
+export type TagInput = z.input<typeof tagInputSchema>
+export type CommentCreate = z.input<typeof commentCreateSchema>
+export type MediaCreate = z.input<typeof mediaCreateSchema>
+export type MediaUpdate = z.input<typeof mediaUpdateSchema>
+export type ApiKeyCreate = z.input<typeof apiKeyCreateSchema>
+export type ReviewNoteCreate = z.input<typeof reviewNoteCreateSchema>
@@ -0,0 +1,57 @@
+// lib/db/search.ts
+import type { Article, ArticleStatus, Category, Language } from '@/lib/db/types'
+import { fail, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export interface ArticleSearch {
+  query: string
+  language?: Language
+  categoryId?: string
+  status?: ArticleStatus
+  // Inclusive start and exclusive end, compared with the publish date (or
+  // creation date for unpublished articles)
+  from?: string
+  to?: string
+  page: number
+  pageSize: number
+}
+
+export type SearchResult = Pick<
+  Article,
+  'id' | 'title' | 'slug' | 'excerpt' | 'language' | 'status' | 'category_id' | 'published_at' | 'created_at'
+> & {
+  category_name: Category['name'] | null
+  category_slug: Category['slug'] | null
+  rank: number
+  // Title and snippet with matches wrapped in HIGHLIGHT_START ... HIGHLIGHT_END
+  title_highlight: string
+  snippet: string
+}
+
+type SearchRow = SearchResult & { total: number }
+
+// Delimiters the search_articles function puts around matched words
+export const HIGHLIGHT_START = '\u0002'
+export const HIGHLIGHT_END = '\u0003'
+
+// Full-text search in each article's own language; see the search_articles
+// function in supabase/migrations.
+export async function searchArticles(
+  client: DbClient,
+  { query, language, categoryId, status, from, to, page, pageSize }: ArticleSearch
+): Promise<DbResult<{ results: SearchResult[]; total: number }>> {
+  const { data, error } = await client.rpc('search_articles', {
+    p_query: query,
+    p_language: language ?? null,
+    p_category_id: categoryId ?? null,
+    p_status: status ?? null,
+    p_from: from ?? null,
+    p_to: to ?? null,
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize
+  })
+
+  if (error) return fail(error)
+  // Every row carries the total number of matches
+  const rows = (data ?? []) as SearchRow[]
+  return ok({ results: rows, total: Number(rows[0]?.total ?? 0) })
+}
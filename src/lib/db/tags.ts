@@ -0,0 +1,128 @@
+// lib/db/tags.ts
+import type { Tag } from '@/lib/db/types'
+import { tagInputSchema, type TagInput } from '@/lib/db/schemas'
+import { fail, fromList, fromMaybe, fromSingle, invalid, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export type TagWithCount = Tag & { article_tags: { count: number }[] }
+
+export async function list(client: DbClient): Promise<DbResult<Tag[]>> {
+  const response = await client
+    .from('tags')
+    .select('*')
+    .order('name', { ascending: true })
+
+  return fromList<Tag>(response)
+}
+
+export type TagSort = 'name' | 'created_at'
+
+export interface TagListQuery {
+  sort: TagSort
+  ascending: boolean
+  page: number
+  pageSize: number
+}
+
+// One page of tags (dashboard), with the total tag count for pagination.
+export async function listPage(
+  client: DbClient,
+  { sort, ascending, page, pageSize }: TagListQuery
+): Promise<DbResult<{ tags: Tag[]; total: number }>> {
+  const from = (page - 1) * pageSize
+  const { data, count, error } = await client
+    .from('tags')
+    .select('*', { count: 'exact' })
+    .order(sort, { ascending })
+    .order('id')
+    .range(from, from + pageSize - 1)
+
+  if (error) return fail(error)
+  return ok({ tags: (data ?? []) as Tag[], total: count ?? 0 })
+}
+
+export async function count(client: DbClient): Promise<DbResult<number>> {
+  const { count, error } = await client
+    .from('tags')
+    .select('id', { count: 'exact', head: true })
+
+  return error ? fail(error) : ok(count ?? 0)
+}
+
+export async function listWithCounts(client: DbClient): Promise<DbResult<TagWithCount[]>> {
+  const response = await client
+    .from('tags')
+    .select('*, article_tags(count)')
+    .order('name', { ascending: true })
+
+  return fromList<TagWithCount>(response)
+}
+
+export async function getBySlug(client: DbClient, slug: string): Promise<DbResult<Tag | null>> {
+  const response = await client
+    .from('tags')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  return fromMaybe<Tag>(response)
+}
+
+export async function create(client: DbClient, input: TagInput): Promise<DbResult<Tag>> {
+  const parsed = tagInputSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('tags')
+    .insert([parsed.data])
+    .select()
+    .single()
+
+  return fromSingle<Tag>(response)
+}
+
+export async function update(client: DbClient, id: string, input: TagInput): Promise<DbResult<Tag>> {
+  const parsed = tagInputSchema.safeParse(input)
+  if (!parsed.success) return invalid(parsed.error)
+
+  const response = await client
+    .from('tags')
+    .update(parsed.data)
+    .eq('id', id)
+    .select()
+    .single()
+
+  return fromSingle<Tag>(response)
+}
+
+export async function remove(client: DbClient, id: string): Promise<DbResult<null>> {
+  const { error } = await client
+    .from('tags')
+    .delete()
+    .eq('id', id)
+
+  return error ? fail(error) : ok(null)
+}
+
+// Moves every article from the source tag to the target and deletes the source.
+export async function merge(client: DbClient, sourceId: string, targetId: string): Promise<DbResult<null>> {
+  const { error } = await client.rpc('merge_tags', { source_id: sourceId, target_id: targetId })
+  return error ? fail(error) : ok(null)
+}
+
+export async function listArticleTagIds(client: DbClient, articleId: string): Promise<DbResult<string[]>> {
+  const response = await client
+    .from('article_tags')
+    .select('tag_id')
+    .eq('article_id', articleId)
+
+  if (response.error) return fail(response.error)
+  return ok((response.data ?? []).map(({ tag_id }) => tag_id as string))
+}
+
+// Replaces the full set of tags on an article in one transaction; see
+// set_article_tags.
+export async function setArticleTags(client: DbClient, articleId: string, tagIds: string[]): Promise<DbResult<null>> {
+  const { error } = await client.rpc('set_article_tags', { p_article_id: articleId, p_tag_ids: [...new Set(tagIds)] })
+
+  return error ? fail(error) : ok(null)
+}
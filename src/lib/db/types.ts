@@ -0,0 +1,175 @@
+// lib/db/types.ts
+export type Role = 'reader' | 'editor' | 'admin'
+
+export type ArticleStatus = 'draft' | 'review' | 'published' | 'archived'
+
+export type Language = 'en' | 'ar'
+
+export type CommentStatus = 'pending' | 'approved' | 'rejected'
+
+export interface Profile {
+  id: string
+  email: string
+  full_name: string | null
+  avatar_url: string | null
+  role: Role
+  created_at: string
+  updated_at: string
+}
+
+export interface Category {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  priority: number
+  created_at: string
+}
+
+export interface Article {
+  id: string
+  title: string
+  slug: string
+  content: string | null
+  excerpt: string | null
+  featured_image: string | null
+  featured_media_id: string | null
+  category_id: string | null
+  author_id: string | null
+  status: ArticleStatus
+  language: Language
+  ai_generated: boolean
+  ai_reviewed_at: string | null
+  ai_reviewed_by: string | null
+  review_requested_at: string | null
+  translation_group_id: string
+  published_at: string | null
+  publish_at: string | null
+  archive_at: string | null
+  created_at: string
+  updated_at: string
+  categories?: Category
+  profiles?: Profile
+}
+
+export interface Tag {
+  id: string
+  name: string
+  slug: string
+  created_at: string
+}
+
+export interface Comment {
+  id: string
+  article_id: string
+  author_id: string | null
+  parent_id: string | null
+  content: string
+  status: CommentStatus
+  created_at: string
+  profiles?: Profile
+}
+
+export interface ArticleAnalytics {
+  id: string
+  article_id: string
+  views: number
+  shares: number
+  date: string
+}
+
+export interface RoleChange {
+  id: string
+  profile_id: string
+  changed_by: string | null
+  old_role: Role
+  new_role: Role
+  created_at: string
+}
+
+export interface MediaAsset {
+  id: string
+  path: string
+  url: string
+  file_name: string
+  mime_type: string
+  size_bytes: number
+  width: number | null
+  height: number | null
+  alt_text: string | null
+  caption: string | null
+  uploaded_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ArticleRevision {
+  id: string
+  article_id: string
+  title: string
+  excerpt: string | null
+  content: string | null
+  author_id: string | null
+  created_at: string
+}
+
+export interface ApiKey {
+  id: string
+  name: string
+  key_prefix: string
+  key_hash: string
+  rate_limit: number
+  created_by: string | null
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+export interface ReviewNote {
+  id: string
+  article_id: string
+  author_id: string | null
+  range_start: number
+  range_end: number
+  quote: string
+  body: string
+  resolved_at: string | null
+  resolved_by: string | null
+  created_at: string
+}
+
+export type ReviewDecision = 'approved' | 'changes_requested'
+
+export interface ArticleReview {
+  id: string
+  article_id: string
+  reviewer_id: string | null
+  decision: ReviewDecision
+  reason: string | null
+  created_at: string
+}
+
+export type NotificationEvent = 'review_requested' | 'article_published' | 'comment_pending' | 'comment_approved' | 'changes_requested'
+
+export type EmailStatus = 'pending' | 'sending' | 'sent' | 'failed'
+
+export interface Notification {
+  id: string
+  user_id: string
+  event: NotificationEvent
+  article_id: string | null
+  comment_id: string | null
+  actor_id: string | null
+  in_app: boolean
+  email_status: EmailStatus | null
+  email_claimed_at: string | null
+  read_at: string | null
+  created_at: string
+}
+
+export interface NotificationPreference {
+  user_id: string
+  event: NotificationEvent
+  in_app: boolean
+  email: boolean
+}
@@ -0,0 +1,27 @@
+// lib/email/adapter.ts
+import { consoleAdapter, createFileAdapter } from '@/lib/email/dev'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  // Plain text; every adapter can send it
+  text: string
+}
+
+// Everything notification delivery needs from an email service. Adapters
+// throw on failure; delivery marks the email failed and moves on.
+export interface EmailAdapter {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+// Picks the adapter from EMAIL_ADAPTER. "file" writes each message to
+// EMAIL_OUTBOX_DIR (default .email-outbox); anything else, including an
+// unset variable, logs messages to the console. A real email service plugs
+// in here with another adapter.
+export function getEmailAdapter(): EmailAdapter {
+  if (process.env.EMAIL_ADAPTER === 'file') {
+    return createFileAdapter(process.env.EMAIL_OUTBOX_DIR ?? '.email-outbox')
+  }
+  return consoleAdapter
+}
@@ -0,0 +1,30 @@
+// lib/email/dev.ts
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { EmailAdapter, EmailMessage } from '@/lib/email/adapter'
+
+function format(message: EmailMessage): string {
+  return `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+}
+
+// Development adapters: nothing leaves the machine.
+export const consoleAdapter: EmailAdapter = {
+  name: 'console',
+
+  async send(message) {
+    console.info(`[email]\n${format(message)}`)
+  }
+}
+
+// Writes one .eml file per message, named so they sort by time.
+export function createFileAdapter(directory: string): EmailAdapter {
+  return {
+    name: 'file',
+
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.eml`
+      await writeFile(path.join(directory, name), format(message), 'utf8')
+    }
+  }
+}
@@ -0,0 +1,47 @@
+// lib/i18n/config.ts
+import type { Language } from '@/lib/db/types'
+
+export type Locale = Language
+
+export const locales: Locale[] = ['en', 'ar']
+
+export const defaultLocale: Locale = 'en'
+
+export const LOCALE_COOKIE = 'NEXT_LOCALE'
+
+export function isLocale(value: string | undefined | null): value is Locale {
+  return locales.includes(value as Locale)
+}
+
+export function localeDirection(locale: Locale): 'ltr' | 'rtl' {
+  return locale === 'ar' ? 'rtl' : 'ltr'
+}
+
+// Prefixes an app path with the locale, e.g. ('ar', '/dashboard') -> '/ar/dashboard'.
+export function localizePath(locale: Locale, path: string): string {
+  return path === '/' ? `/${locale}` : `/${locale}${path}`
+}
+
+// Splits '/ar/dashboard' into { locale: 'ar', path: '/dashboard' }. Paths
+// without a known locale prefix come back with a null locale.
+export function splitLocale(pathname: string): { locale: Locale | null; path: string } {
+  const [, first, ...rest] = pathname.split('/')
+  if (!isLocale(first)) return { locale: null, path: pathname }
+  return { locale: first, path: `/${rest.join('/')}` }
+}
+
+// Picks the best supported locale from an Accept-Language header.
+export function matchLocale(acceptLanguage: string | null): Locale {
+  if (!acceptLanguage) return defaultLocale
+
+  const preferred = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, q] = part.trim().split(';q=')
+      return { language: tag.split('-')[0].toLowerCase(), q: q ? Number(q) : 1 }
+    })
+    .sort((a, b) => b.q - a.q)
+    .find(({ language }) => isLocale(language))
+
+  return preferred ? (preferred.language as Locale) : defaultLocale
+}
@@ -0,0 +1,575 @@
+// lib/i18n/dictionaries/ar.ts
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+
+const ar: Dictionary = {
+  common: {
+    siteName: 'IDEL',
+    loading: 'جارٍ التحميل...',
+    dashboard: 'لوحة التحكم',
+    backToDashboard: 'العودة إلى لوحة التحكم',
+    none: 'لا يوجد',
+    unknown: 'غير معروف',
+    notSet: 'غير محدد',
+    languages: {
+      en: 'الإنجليزية',
+      ar: 'العربية'
+    },
+    switchLanguage: 'English'
+  },
+  auth: {
+    signInTitle: 'تسجيل الدخول إلى حسابك',
+    signUpTitle: 'إنشاء حساب جديد',
+    noAccount: 'ليس لديك حساب؟',
+    haveAccount: 'لديك حساب بالفعل؟',
+    signIn: 'تسجيل الدخول',
+    signUp: 'إنشاء حساب',
+    email: 'البريد الإلكتروني',
+    emailPlaceholder: 'أدخل بريدك الإلكتروني',
+    password: 'كلمة المرور',
+    passwordPlaceholder: 'أدخل كلمة المرور',
+    processing: 'جارٍ المعالجة...',
+    checkEmail: 'تحقق من بريدك الإلكتروني للحصول على رابط التأكيد!',
+    genericError: 'حدث خطأ',
+    loggedIn: 'تم تسجيل الدخول بنجاح',
+    loggedOut: 'تم تسجيل الخروج بنجاح',
+    logout: 'تسجيل الخروج',
+    loggingOut: 'جارٍ تسجيل الخروج...',
+    logoutError: 'حدث خطأ أثناء تسجيل الخروج',
+    magicLink: 'أرسل لي رابط تسجيل دخول بدلاً من ذلك',
+    magicLinkTitle: 'تسجيل الدخول برابط سحري',
+    magicLinkIntro: 'سنرسل إليك رابطًا يتيح لك تسجيل الدخول دون كلمة مرور.',
+    sendMagicLink: 'إرسال رابط الدخول',
+    magicLinkSent: 'تحقق من بريدك الإلكتروني للحصول على رابط تسجيل الدخول',
+    usePassword: 'تسجيل الدخول بكلمة المرور بدلاً من ذلك',
+    forgotPassword: 'نسيت كلمة المرور؟',
+    resetTitle: 'إعادة تعيين كلمة المرور',
+    resetIntro: 'أدخل بريدك الإلكتروني وسنرسل إليك رابطًا لاختيار كلمة مرور جديدة.',
+    sendResetLink: 'إرسال رابط إعادة التعيين',
+    resetSent: 'إذا كان هناك حساب بهذا البريد، فسيصلك رابط إعادة التعيين قريبًا',
+    updatePasswordTitle: 'اختر كلمة مرور جديدة',
+    newPassword: 'كلمة المرور الجديدة',
+    confirmPassword: 'تأكيد كلمة المرور الجديدة',
+    updatePassword: 'تحديث كلمة المرور',
+    passwordUpdated: 'تم تحديث كلمة المرور',
+    resetLinkExpired: 'رابط إعادة التعيين غير صالح أو منتهي الصلاحية.',
+    requestNewLink: 'اطلب رابطًا جديدًا',
+    backToSignIn: 'العودة إلى تسجيل الدخول',
+    validation: {
+      emailInvalid: 'أدخل بريدًا إلكترونيًا صالحًا',
+      passwordRequired: 'أدخل كلمة المرور',
+      passwordTooShort: 'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل',
+      passwordsDontMatch: 'كلمتا المرور غير متطابقتين'
+    }
+  },
+  dashboard: {
+    title: 'لوحة اختبار قاعدة البيانات',
+    loggedInAs: 'مسجّل الدخول باسم:',
+    role: 'الدور',
+    profileId: 'معرّف الملف الشخصي',
+    testOperations: 'اختبار عمليات قاعدة البيانات',
+    testing: 'جارٍ الاختبار...',
+    testSuccess: 'اكتملت عمليات الاختبار بنجاح!',
+    testError: 'حدث خطأ أثناء اختبار عمليات قاعدة البيانات',
+    tabs: {
+      overview: 'نظرة عامة',
+      profile: 'الملف الشخصي',
+      articles: 'المقالات',
+      scheduled: 'المجدولة',
+      categories: 'الأقسام',
+      tags: 'الوسوم',
+      comments: 'التعليقات',
+      analytics: 'الإحصاءات'
+    },
+    profileInformation: 'معلومات الملف الشخصي',
+    id: 'المعرّف',
+    email: 'البريد الإلكتروني',
+    fullName: 'الاسم الكامل',
+    created: 'تاريخ الإنشاء',
+    updated: 'آخر تحديث',
+    newArticle: 'مقال جديد',
+    edit: 'تعديل',
+    noArticles: 'لا توجد مقالات.',
+    noScheduled: 'لا يوجد شيء مجدول.',
+    status: 'الحالة',
+    language: 'اللغة',
+    category: 'القسم',
+    author: 'الكاتب',
+    slug: 'المعرّف النصي',
+    priority: 'الأولوية',
+    noTags: 'لا توجد وسوم.',
+    moderationQueue: 'قائمة الإشراف',
+    noComments: 'لا توجد تعليقات.',
+    noAnalytics: 'لا توجد بيانات إحصائية.',
+    articleId: 'معرّف المقال',
+    views: 'المشاهدات',
+    shares: 'المشاركات',
+    date: 'التاريخ',
+    articleTitle: 'العنوان',
+    published: 'تاريخ النشر',
+    name: 'الاسم',
+    comment: 'التعليق',
+    anyStatus: 'كل الحالات',
+    anyLanguage: 'كل اللغات',
+    anyCategory: 'كل التصنيفات',
+    anyAuthor: 'كل الكتّاب',
+    applyFilters: 'تطبيق',
+    clearFilters: 'مسح عوامل التصفية',
+    previous: 'السابق',
+    next: 'التالي',
+    page: 'صفحة',
+    of: 'من'
+  },
+  editor: {
+    newArticle: 'مقال جديد',
+    editArticle: 'تعديل المقال',
+    status: 'الحالة',
+    published: 'تاريخ النشر',
+    title: 'العنوان',
+    slug: 'المعرّف النصي',
+    category: 'القسم',
+    language: 'اللغة',
+    translationOf: 'ترجمة للمقال',
+    featuredImage: 'رابط الصورة البارزة',
+    excerpt: 'المقتطف',
+    excerptHint: 'اتركه فارغًا لاستخدام بداية المقال.',
+    content: 'المحتوى',
+    markdownHint: 'يُنسّق المحتوى بصيغة Markdown. لا يُسمح باستخدام HTML.',
+    write: 'كتابة',
+    preview: 'معاينة',
+    nothingToPreview: 'لا يوجد ما يمكن معاينته بعد.',
+    toolbar: {
+      heading: 'عنوان',
+      bold: 'غامق',
+      italic: 'مائل',
+      bulletList: 'قائمة نقطية',
+      numberedList: 'قائمة مرقمة',
+      link: 'رابط',
+      image: 'صورة',
+      quote: 'اقتباس',
+      code: 'شيفرة'
+    },
+    saveChanges: 'حفظ التغييرات',
+    createDraft: 'إنشاء مسودة',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم حفظ المقال',
+    movedTo: 'تم نقل المقال إلى',
+    editorsOnly: 'يمكن للمحررين والمشرفين فقط تعديل المقالات.',
+    locked: 'لا يمكن تعديل المقالات المنشورة أو المؤرشفة. أعد المقال إلى المسودة لإجراء التغييرات.',
+    statuses: {
+      draft: 'مسودة',
+      review: 'قيد المراجعة',
+      published: 'منشور',
+      archived: 'مؤرشف'
+    },
+    transitions: {
+      draft: 'إعادة إلى المسودة',
+      review: 'إرسال للمراجعة',
+      published: 'نشر',
+      archived: 'أرشفة'
+    }
+  },
+  comments: {
+    title: 'التعليقات',
+    empty: 'لا توجد تعليقات بعد. كن أول من يشارك رأيه.',
+    placeholder: 'اكتب تعليقًا...',
+    post: 'نشر التعليق',
+    posting: 'جارٍ النشر...',
+    reply: 'رد',
+    cancel: 'إلغاء',
+    signInToComment: 'سجّل الدخول للمشاركة في النقاش',
+    awaitingModeration: 'شكرًا! سيظهر تعليقك بعد موافقة المشرف عليه.'
+  },
+  moderation: {
+    title: 'إدارة التعليقات',
+    statuses: {
+      pending: 'قيد الانتظار',
+      approved: 'مقبول',
+      rejected: 'مرفوض'
+    },
+    approve: 'قبول',
+    reject: 'رفض',
+    approveSelected: 'قبول المحدد',
+    rejectSelected: 'رفض المحدد',
+    selectAll: 'تحديد الكل',
+    empty: 'لا توجد تعليقات في هذه القائمة.',
+    onArticle: 'على',
+    inReplyTo: 'ردًا على',
+    moderated: 'تعليقات تم تحديثها',
+    previous: 'السابق',
+    next: 'التالي',
+    page: 'صفحة',
+    of: 'من'
+  },
+  tags: {
+    title: 'الوسوم',
+    manage: 'إدارة الوسوم',
+    name: 'الاسم',
+    slug: 'المعرّف النصي',
+    slugHint: 'اتركه فارغًا لإنشائه من الاسم',
+    create: 'إنشاء وسم',
+    creating: 'جارٍ الإنشاء...',
+    rename: 'إعادة تسمية',
+    save: 'حفظ',
+    cancel: 'إلغاء',
+    delete: 'حذف',
+    confirmDelete: 'حذف هذا الوسم؟ ستتم إزالته من جميع المقالات.',
+    mergeInto: 'دمج في...',
+    merge: 'دمج',
+    confirmMerge: 'دمج هذا الوسم في الوسم المحدد؟ لا يمكن التراجع عن ذلك.',
+    articles: 'مقالات',
+    empty: 'لا توجد وسوم بعد.',
+    pickerLabel: 'الوسوم',
+    pickerPlaceholder: 'أضف وسمًا...',
+    pickerCreate: 'إنشاء',
+    remove: 'إزالة',
+    taggedWith: 'الوسم',
+    noArticles: 'لا توجد مقالات بهذا الوسم بعد.'
+  },
+  categories: {
+    manage: 'إدارة الأقسام',
+    reorderHint: 'اسحب الأقسام لتغيير ترتيب ظهورها في القائمة.',
+    name: 'الاسم',
+    slug: 'المعرّف النصي',
+    slugHint: 'اتركه فارغًا لإنشائه من الاسم',
+    description: 'الوصف',
+    create: 'إنشاء قسم',
+    update: 'حفظ القسم',
+    saving: 'جارٍ الحفظ...',
+    edit: 'تعديل',
+    cancel: 'إلغاء',
+    delete: 'حذف',
+    deleteTitle: 'حذف القسم',
+    deleteConfirm: 'سيتم حذف هذا القسم نهائيًا.',
+    inUse: 'مقالات تستخدم هذا القسم. انقلها إلى:',
+    chooseCategory: 'اختر قسمًا',
+    articles: 'مقالات',
+    orderSaved: 'تم حفظ الترتيب',
+    empty: 'لا توجد أقسام بعد.'
+  },
+  share: {
+    label: 'شارك:',
+    share: 'نسخ الرابط',
+    copied: 'تم نسخ الرابط'
+  },
+  analytics: {
+    title: 'الإحصاءات',
+    open: 'فتح الإحصاءات',
+    from: 'من',
+    to: 'إلى',
+    apply: 'تطبيق',
+    totalViews: 'إجمالي المشاهدات',
+    totalShares: 'إجمالي المشاركات',
+    articlesTracked: 'مقالات لها زيارات',
+    overTime: 'المشاهدات والمشاركات عبر الزمن',
+    views: 'المشاهدات',
+    shares: 'المشاركات',
+    topByViews: 'الأكثر مشاهدة',
+    topByShares: 'الأكثر مشاركة',
+    byCategory: 'حسب القسم',
+    uncategorized: 'بدون قسم',
+    article: 'المقال',
+    category: 'القسم',
+    empty: 'لا توجد بيانات إحصائية لهذه الفترة.'
+  },
+  profile: {
+    editTitle: 'تعديل الملف الشخصي',
+    fullName: 'الاسم الكامل',
+    avatar: 'الصورة الرمزية',
+    chooseAvatar: 'اختر صورة',
+    removeAvatar: 'إزالة الصورة الرمزية',
+    avatarHint: 'بصيغة JPEG أو PNG أو WebP. تُقص الصور إلى مربع ويُعاد تحجيمها قبل الرفع.',
+    invalidImage: 'اختر صورة بصيغة JPEG أو PNG أو WebP',
+    nameTooLong: 'يجب ألا يتجاوز الاسم 100 حرف',
+    save: 'حفظ الملف الشخصي',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم تحديث الملف الشخصي',
+    viewPublicPage: 'عرض صفحة الكاتب العامة'
+  },
+  users: {
+    manage: 'إدارة المستخدمين',
+    searchPlaceholder: 'ابحث بالاسم أو البريد الإلكتروني',
+    search: 'بحث',
+    name: 'الاسم',
+    email: 'البريد الإلكتروني',
+    role: 'الدور',
+    joined: 'تاريخ الانضمام',
+    you: '(أنت)',
+    noUsers: 'لم يتم العثور على مستخدمين.',
+    roles: {
+      reader: 'قارئ',
+      editor: 'محرر',
+      admin: 'مدير'
+    },
+    confirmTitle: 'تغيير الدور',
+    confirmDescription: 'يسري الدور الجديد عندما يفتح هذا المستخدم أي صفحة في المرة القادمة.',
+    from: 'من',
+    to: 'إلى',
+    confirm: 'تغيير الدور',
+    cancel: 'إلغاء',
+    changing: 'جارٍ التغيير...',
+    changed: 'تم تحديث الدور',
+    previous: 'السابق',
+    next: 'التالي',
+    page: 'صفحة',
+    of: 'من',
+    auditTitle: 'أحدث تغييرات الأدوار',
+    noChanges: 'لا توجد تغييرات على الأدوار بعد.',
+    changedBy: 'بواسطة'
+  },
+  media: {
+    manage: 'مكتبة الوسائط',
+    upload: 'رفع صور',
+    uploading: 'جارٍ الرفع...',
+    uploadHint: 'JPEG أو PNG أو WebP أو GIF أو AVIF، بحد أقصى 5 ميغابايت لكل صورة.',
+    invalidType: 'يمكن رفع صور JPEG وPNG وWebP وGIF وAVIF فقط',
+    tooLarge: 'الحد الأقصى لحجم الصورة 5 ميغابايت',
+    uploaded: 'تم رفع الصور',
+    searchPlaceholder: 'ابحث باسم الملف أو النص البديل أو التعليق',
+    search: 'بحث',
+    empty: 'لا توجد صور.',
+    previous: 'السابق',
+    next: 'التالي',
+    page: 'صفحة',
+    of: 'من',
+    details: 'تفاصيل الصورة',
+    selectHint: 'اختر صورة لتعديل تفاصيلها.',
+    altText: 'النص البديل',
+    altTextHint: 'صف الصورة للقراء الذين لا يستطيعون رؤيتها.',
+    caption: 'التعليق',
+    missingAltText: 'بلا نص بديل',
+    save: 'حفظ التفاصيل',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم حفظ تفاصيل الصورة',
+    delete: 'حذف الصورة',
+    confirmDelete: 'حذف هذه الصورة؟ لا يمكن التراجع عن ذلك.',
+    deleted: 'تم حذف الصورة',
+    useImage: 'استخدام هذه الصورة',
+    chooseFromLibrary: 'اختيار من المكتبة',
+    pickerTitle: 'اختيار الصورة البارزة',
+    pickerDescription: 'اختر صورة من المكتبة أو ارفع صورة جديدة.',
+    removeImage: 'إزالة الصورة',
+    close: 'إغلاق'
+  },
+  ai: {
+    badge: 'مُنشأ بالذكاء الاصطناعي',
+    assistant: 'مساعد الذكاء الاصطناعي',
+    topic: 'الموضوع',
+    topicPlaceholder: 'عن ماذا يجب أن يكون المقال؟',
+    generateDraft: 'إنشاء مسودة',
+    summarize: 'تلخيص',
+    summarizeHint: 'يعتمد على آخر نسخة محفوظة من المقال.',
+    translateToArabic: 'ترجمة إلى العربية',
+    working: 'جارٍ العمل...',
+    summarized: 'تم استبدال المقتطف بملخص من الذكاء الاصطناعي',
+    draftsOnly: 'يتوفر التلخيص عندما يكون المقال مسودة.',
+    reviewTitle: 'مراجعة المحتوى المُنشأ بالذكاء الاصطناعي',
+    reviewDescription: 'كُتبت أجزاء من هذا المقال بالذكاء الاصطناعي. تحقق من الحقائق والأسماء والاقتباسات والأسلوب قبل النشر.',
+    reviewConfirm: 'لقد راجعت هذا المحتوى',
+    acknowledge: 'تأكيد المراجعة',
+    reviewed: 'تمت المراجعة',
+    reviewRequired: 'راجع المحتوى المُنشأ بالذكاء الاصطناعي قبل النشر'
+  },
+  search: {
+    title: 'بحث',
+    placeholder: 'ابحث في المقالات...',
+    submit: 'بحث',
+    keywords: 'الكلمات المفتاحية',
+    language: 'اللغة',
+    anyLanguage: 'كل اللغات',
+    category: 'التصنيف',
+    anyCategory: 'كل التصنيفات',
+    status: 'الحالة',
+    anyStatus: 'كل الحالات',
+    from: 'من',
+    to: 'إلى',
+    clear: 'مسح عوامل التصفية',
+    resultsFor: 'نتيجة لـ',
+    noResults: 'لا توجد مقالات تطابق بحثك.',
+    prompt: 'ابحث في العناوين والوسوم ونصوص المقالات بالعربية والإنجليزية.',
+    previous: 'السابق',
+    next: 'التالي',
+    page: 'صفحة',
+    of: 'من'
+  },
+  schedule: {
+    title: 'الجدولة',
+    description: 'انشر هذه المقالة أو أرشفها تلقائيًا في وقت محدد.',
+    publishAt: 'النشر في',
+    archiveAt: 'الأرشفة في',
+    reviewRequired: 'أرسل المقالة للمراجعة لجدولة نشرها.',
+    approvalRequired: 'لا تُنشر إلا إذا كانت المقالة معتمدة حينها.',
+    save: 'حفظ الجدولة',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم حفظ الجدولة.'
+  },
+  revisions: {
+    title: 'سجل المراجعات',
+    description: 'تُحفظ كل عملية حفظ. اختر مراجعتين للمقارنة بينهما.',
+    compare: 'مقارنة',
+    loading: 'جارٍ تحميل المراجعات...',
+    none: 'لا توجد مراجعات بعد.',
+    before: 'الأقدم',
+    after: 'الأحدث',
+    savedAt: 'تاريخ الحفظ',
+    author: 'بواسطة',
+    current: 'الحالية',
+    restore: 'استعادة كمسودة جديدة',
+    confirmRestore: 'إنشاء مسودة جديدة من هذه المراجعة؟ لن تتغير المقالة نفسها.',
+    unchanged: 'لا توجد تغييرات.'
+  },
+  apiKeys: {
+    manage: 'مفاتيح API',
+    description: 'تمنح المفاتيح التطبيقات الشريكة وصولًا للقراءة فقط إلى المحتوى المنشور عبر ‎/api/v1. حد الطلبات محسوب بالطلبات في الدقيقة.',
+    name: 'الاسم',
+    namePlaceholder: 'مثال: النشرة البريدية',
+    rateLimit: 'الطلبات في الدقيقة',
+    create: 'إنشاء مفتاح',
+    creating: 'جارٍ الإنشاء...',
+    created: 'انسخ هذا المفتاح الآن، فلن يظهر مرة أخرى.',
+    copy: 'نسخ',
+    copied: 'تم النسخ',
+    key: 'المفتاح',
+    createdBy: 'أنشأه',
+    lastUsed: 'آخر استخدام',
+    neverUsed: 'لم يُستخدم',
+    revoke: 'إلغاء',
+    revoked: 'ملغى',
+    confirmRevoke: 'إلغاء هذا المفتاح؟ ستفقد التطبيقات التي تستخدمه الوصول فورًا.',
+    empty: 'لا توجد مفاتيح API بعد.'
+  },
+  realtime: {
+    live: 'تحديثات مباشرة',
+    offline: 'جارٍ الاتصال...',
+    liveHint: 'تتحدث القوائم والأعداد عندما يغيّر الزملاء المقالات أو التعليقات.',
+    statusChanged: 'تغيّرت حالة مقالك',
+    openArticle: 'فتح المقال',
+    dismiss: 'إغلاق',
+    alsoEditing: 'يحرّر الآن أيضًا:',
+    overwriteWarning: 'نسّقوا قبل الحفظ حتى لا يكتب أحدكم فوق تعديلات الآخر.'
+  },
+  notifications: {
+    title: 'الإشعارات',
+    open: 'فتح الإشعارات',
+    unread: 'غير مقروءة',
+    empty: 'لا توجد إشعارات بعد.',
+    markAllRead: 'تعليم الكل كمقروء',
+    settings: 'إعدادات الإشعارات',
+    settingsDescription: 'اختر الأحداث التي تريد أن تُبلَّغ بها في لوحة التحكم وعبر البريد الإلكتروني.',
+    event: 'الحدث',
+    inApp: 'داخل التطبيق',
+    email: 'البريد الإلكتروني',
+    save: 'حفظ الإعدادات',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم حفظ الإعدادات',
+    events: {
+      review_requested: 'طلب مراجعة',
+      article_published: 'نُشر المقال',
+      comment_pending: 'تعليق بانتظار الإشراف',
+      comment_approved: 'تمت الموافقة على التعليق',
+      changes_requested: 'طُلبت تعديلات'
+    },
+    messages: {
+      review_requested: 'مقال بانتظار مراجعتك',
+      article_published: 'نُشر مقالك',
+      comment_pending: 'تعليق جديد بانتظار الإشراف',
+      comment_approved: 'تمت الموافقة على تعليقك',
+      changes_requested: 'طُلبت تعديلات على مقالك'
+    },
+    emailFooter: 'يمكنك اختيار الرسائل التي تصلك من إعدادات الإشعارات.'
+  },
+  review: {
+    notesTitle: 'ملاحظات المراجعة',
+    notesDescription: 'حدد نصًا في المحتوى لترك ملاحظة عليه. يمكن إضافة الملاحظات أثناء مراجعة المقال.',
+    loading: 'جارٍ تحميل المراجعة...',
+    noNotes: 'لا توجد ملاحظات مراجعة بعد.',
+    noContent: 'لا يحتوي المقال على محتوى بعد.',
+    selection: 'النص المحدد',
+    note: 'الملاحظة',
+    addNote: 'إضافة ملاحظة',
+    adding: 'جارٍ الإضافة...',
+    cancel: 'إلغاء',
+    resolve: 'تمت المعالجة',
+    reopen: 'إعادة فتح',
+    delete: 'حذف',
+    confirmDelete: 'حذف هذه الملاحظة؟',
+    resolvedBy: 'عالجها',
+    outdated: 'تغيّر النص الذي تتعلق به هذه الملاحظة',
+    showResolved: 'عرض الملاحظات المعالجة',
+    signOffTitle: 'الاعتماد التحريري',
+    signOffDescription: 'يجب اعتماد المقالات قبل نشرها. تغيير العنوان أو المقتطف أو المحتوى يلغي الاعتماد.',
+    approve: 'اعتماد',
+    approving: 'جارٍ الاعتماد...',
+    approved: 'تم اعتماد المقال',
+    approvedBy: 'اعتمده',
+    notApproved: 'لم يُعتمد بعد',
+    approvalRequired: 'يجب اعتماد المقال قبل نشره',
+    requestChanges: 'طلب تعديلات',
+    requestChangesDescription: 'سيعود المقال إلى المسودة. أخبر الكاتب بما يجب تعديله.',
+    reason: 'السبب',
+    send: 'إعادة إلى المسودة',
+    sending: 'جارٍ الإرسال...',
+    sentBack: 'أُعيد المقال إلى المسودة',
+    changesRequested: 'طُلبت تعديلات',
+    history: 'سجل المراجعة',
+    noHistory: 'لا توجد قرارات بعد.',
+    decisions: {
+      approved: 'معتمد',
+      changes_requested: 'طُلبت تعديلات'
+    }
+  },
+  site: {
+    latestArticles: 'أحدث المقالات',
+    noArticles: 'لم تُنشر أي مقالات بعد.',
+    noCategoryArticles: 'لا توجد مقالات في هذا القسم بعد.',
+    staff: 'فريق التحرير',
+    authorArticles: 'المقالات المنشورة',
+    writingSince: 'يكتب منذ',
+    noAuthorArticles: 'لا توجد مقالات منشورة بعد.',
+    readTranslation: 'Read this article in English',
+    description: 'أخبار ومقالات باللغتين العربية والإنجليزية.',
+    rssFeed: 'موجز RSS',
+    atomFeed: 'موجز Atom'
+  },
+  errors: {
+    signedOut: 'يجب تسجيل الدخول',
+    forbidden: 'ليست لديك صلاحية للقيام بذلك',
+    requestFailed: 'تعذر إتمام الطلب',
+    invalidInput: 'بعض القيم غير صالحة',
+    articleSlugTaken: 'يوجد مقال بهذا المعرّف بالفعل',
+    articleLocked: 'أعد المقال إلى المسودة قبل تعديله',
+    transitionNotAllowed: 'لا يسمح دورك بنقل المقال إلى هذه الحالة',
+    aiReviewRequired: 'يجب مراجعة المحتوى المولّد بالذكاء الاصطناعي قبل النشر',
+    approvalRequired: 'يجب اعتماد المقالات قبل نشرها',
+    schedulePublishNotAllowed: 'لا يسمح دورك بجدولة نشر هذا المقال',
+    scheduleArchiveNotAllowed: 'لا يسمح دورك بجدولة أرشفة هذا المقال',
+    scheduleInPast: 'يجب أن تكون الأوقات المجدولة في المستقبل',
+    topicRequired: 'صف موضوع المقال',
+    topicTooLong: 'الموضوع طويل جدًا',
+    aiDraftOnly: 'أعد المقال إلى المسودة قبل استخدام الذكاء الاصطناعي عليه',
+    summaryNeedsContent: 'احفظ بعض المحتوى قبل التلخيص',
+    translationNeedsContent: 'احفظ بعض المحتوى قبل الترجمة',
+    translationEnglishOnly: 'يمكن ترجمة المقالات الإنجليزية فقط إلى العربية',
+    translationExists: 'لهذا المقال نسخة عربية بالفعل',
+    aiFailed: 'فشل طلب الذكاء الاصطناعي',
+    aiEmptySummary: 'فشل طلب الذكاء الاصطناعي: الملخص فارغ',
+    aiReviewFailed: 'تعذر تسجيل المراجعة',
+    categorySlugTaken: 'يوجد قسم بهذا المعرّف بالفعل',
+    categorySlugReserved: 'هذا المعرّف محجوز ولا يمكن استخدامه لقسم',
+    categorySameTarget: 'اختر قسمًا آخر لنقل المقالات إليه',
+    categoryInUse: 'لا تزال مقالات تستخدم هذا القسم؛ انقلها إلى قسم آخر أولًا',
+    tagSlugTaken: 'يوجد وسم بهذا المعرّف بالفعل',
+    tagMergeSelf: 'لا يمكن دمج وسم في نفسه',
+    commentSignedOut: 'يجب تسجيل الدخول للتعليق',
+    commentsClosed: 'التعليقات متاحة على المقالات المنشورة فقط',
+    replyNotAllowed: 'يمكنك الرد على التعليقات المعتمدة فقط',
+    unknownModerationStatus: 'حالة إشراف غير معروفة',
+    mediaOutsideLibrary: 'يجب رفع الصور عبر مكتبة الوسائط',
+    mediaInUse: 'هذه الصورة هي الصورة البارزة لمقال',
+    avatarOutsideProfile: 'يجب رفع الصور الشخصية عبر نموذج الملف الشخصي',
+    unknownNotificationEvent: 'نوع إشعار غير معروف',
+    notesReviewOnly: 'لا يمكن إضافة الملاحظات إلا أثناء مراجعة المقال',
+    approveReviewOnly: 'لا يمكن اعتماد إلا المقالات قيد المراجعة'
+  }
+}
+
+export default ar
@@ -0,0 +1,573 @@
+// lib/i18n/dictionaries/en.ts
+const en = {
+  common: {
+    siteName: 'IDEL',
+    loading: 'Loading...',
+    dashboard: 'Dashboard',
+    backToDashboard: 'Back to dashboard',
+    none: 'None',
+    unknown: 'Unknown',
+    notSet: 'Not set',
+    languages: {
+      en: 'English',
+      ar: 'Arabic'
+    },
+    switchLanguage: 'العربية'
+  },
+  auth: {
+    signInTitle: 'Sign in to your account',
+    signUpTitle: 'Create your account',
+    noAccount: "Don't have an account?",
+    haveAccount: 'Already have an account?',
+    signIn: 'Sign in',
+    signUp: 'Sign up',
+    email: 'Email address',
+    emailPlaceholder: 'Enter your email',
+    password: 'Password',
+    passwordPlaceholder: 'Enter your password',
+    processing: 'Processing...',
+    checkEmail: 'Check your email for the confirmation link!',
+    genericError: 'An error occurred',
+    loggedIn: 'Successfully logged in',
+    loggedOut: 'Successfully logged out',
+    logout: 'Logout',
+    loggingOut: 'Logging out...',
+    logoutError: 'Error logging out',
+    magicLink: 'Email me a sign-in link instead',
+    magicLinkTitle: 'Sign in with a magic link',
+    magicLinkIntro: 'We will email you a link that signs you in without a password.',
+    sendMagicLink: 'Send sign-in link',
+    magicLinkSent: 'Check your email for a sign-in link',
+    usePassword: 'Sign in with a password instead',
+    forgotPassword: 'Forgot your password?',
+    resetTitle: 'Reset your password',
+    resetIntro: 'Enter your email and we will send you a link to choose a new password.',
+    sendResetLink: 'Send reset link',
+    resetSent: 'If an account exists for that email, a reset link is on its way',
+    updatePasswordTitle: 'Choose a new password',
+    newPassword: 'New password',
+    confirmPassword: 'Confirm new password',
+    updatePassword: 'Update password',
+    passwordUpdated: 'Your password has been updated',
+    resetLinkExpired: 'This reset link is invalid or has expired.',
+    requestNewLink: 'Request a new link',
+    backToSignIn: 'Back to sign in',
+    validation: {
+      emailInvalid: 'Enter a valid email address',
+      passwordRequired: 'Enter your password',
+      passwordTooShort: 'Passwords must be at least 8 characters',
+      passwordsDontMatch: 'Passwords do not match'
+    }
+  },
+  dashboard: {
+    title: 'Database Testing Dashboard',
+    loggedInAs: 'Logged in as:',
+    role: 'Role',
+    profileId: 'Profile ID',
+    testOperations: 'Test DB Operations',
+    testing: 'Testing...',
+    testSuccess: 'Test operations completed successfully!',
+    testError: 'Error testing database operations',
+    tabs: {
+      overview: 'Overview',
+      profile: 'Profile',
+      articles: 'Articles',
+      scheduled: 'Scheduled',
+      categories: 'Categories',
+      tags: 'Tags',
+      comments: 'Comments',
+      analytics: 'Analytics'
+    },
+    profileInformation: 'Profile Information',
+    id: 'ID',
+    email: 'Email',
+    fullName: 'Full Name',
+    created: 'Created',
+    updated: 'Updated',
+    newArticle: 'New article',
+    edit: 'Edit',
+    noArticles: 'No articles found.',
+    noScheduled: 'Nothing is scheduled.',
+    status: 'Status',
+    language: 'Language',
+    category: 'Category',
+    author: 'Author',
+    slug: 'Slug',
+    priority: 'Priority',
+    noTags: 'No tags found.',
+    moderationQueue: 'Moderation queue',
+    noComments: 'No comments found.',
+    noAnalytics: 'No analytics data found.',
+    articleId: 'Article ID',
+    views: 'Views',
+    shares: 'Shares',
+    date: 'Date',
+    articleTitle: 'Title',
+    published: 'Published',
+    name: 'Name',
+    comment: 'Comment',
+    anyStatus: 'Any status',
+    anyLanguage: 'Any language',
+    anyCategory: 'Any category',
+    anyAuthor: 'Any author',
+    applyFilters: 'Apply',
+    clearFilters: 'Clear filters',
+    previous: 'Previous',
+    next: 'Next',
+    page: 'Page',
+    of: 'of'
+  },
+  editor: {
+    newArticle: 'New article',
+    editArticle: 'Edit article',
+    status: 'Status',
+    published: 'Published',
+    title: 'Title',
+    slug: 'Slug',
+    category: 'Category',
+    language: 'Language',
+    translationOf: 'Translation of',
+    featuredImage: 'Featured image URL',
+    excerpt: 'Excerpt',
+    excerptHint: 'Leave blank to use the opening of the article.',
+    content: 'Content',
+    markdownHint: 'Formatted with Markdown. HTML is not allowed.',
+    write: 'Write',
+    preview: 'Preview',
+    nothingToPreview: 'Nothing to preview yet.',
+    toolbar: {
+      heading: 'Heading',
+      bold: 'Bold',
+      italic: 'Italic',
+      bulletList: 'Bulleted list',
+      numberedList: 'Numbered list',
+      link: 'Link',
+      image: 'Image',
+      quote: 'Quote',
+      code: 'Code'
+    },
+    saveChanges: 'Save changes',
+    createDraft: 'Create draft',
+    saving: 'Saving...',
+    saved: 'Article saved',
+    movedTo: 'Article moved to',
+    editorsOnly: 'Only editors and admins can edit articles.',
+    locked: 'Published and archived articles cannot be edited. Move the article back to draft to make changes.',
+    statuses: {
+      draft: 'Draft',
+      review: 'In review',
+      published: 'Published',
+      archived: 'Archived'
+    },
+    transitions: {
+      draft: 'Move to draft',
+      review: 'Submit for review',
+      published: 'Publish',
+      archived: 'Archive'
+    }
+  },
+  comments: {
+    title: 'Comments',
+    empty: 'No comments yet. Be the first to share your thoughts.',
+    placeholder: 'Write a comment...',
+    post: 'Post comment',
+    posting: 'Posting...',
+    reply: 'Reply',
+    cancel: 'Cancel',
+    signInToComment: 'Sign in to join the discussion',
+    awaitingModeration: 'Thanks! Your comment will appear once a moderator approves it.'
+  },
+  moderation: {
+    title: 'Comment moderation',
+    statuses: {
+      pending: 'Pending',
+      approved: 'Approved',
+      rejected: 'Rejected'
+    },
+    approve: 'Approve',
+    reject: 'Reject',
+    approveSelected: 'Approve selected',
+    rejectSelected: 'Reject selected',
+    selectAll: 'Select all',
+    empty: 'No comments in this queue.',
+    onArticle: 'On',
+    inReplyTo: 'In reply to',
+    moderated: 'comments updated',
+    previous: 'Previous',
+    next: 'Next',
+    page: 'Page',
+    of: 'of'
+  },
+  tags: {
+    title: 'Tags',
+    manage: 'Manage tags',
+    name: 'Name',
+    slug: 'Slug',
+    slugHint: 'Leave blank to generate from the name',
+    create: 'Create tag',
+    creating: 'Creating...',
+    rename: 'Rename',
+    save: 'Save',
+    cancel: 'Cancel',
+    delete: 'Delete',
+    confirmDelete: 'Delete this tag? It will be removed from every article.',
+    mergeInto: 'Merge into...',
+    merge: 'Merge',
+    confirmMerge: 'Merge this tag into the selected tag? This cannot be undone.',
+    articles: 'articles',
+    empty: 'No tags yet.',
+    pickerLabel: 'Tags',
+    pickerPlaceholder: 'Add a tag...',
+    pickerCreate: 'Create',
+    remove: 'Remove',
+    taggedWith: 'Tagged',
+    noArticles: 'No articles with this tag yet.'
+  },
+  categories: {
+    manage: 'Manage categories',
+    reorderHint: 'Drag categories to change the order they appear in navigation.',
+    name: 'Name',
+    slug: 'Slug',
+    slugHint: 'Leave blank to generate from the name',
+    description: 'Description',
+    create: 'Create category',
+    update: 'Save category',
+    saving: 'Saving...',
+    edit: 'Edit',
+    cancel: 'Cancel',
+    delete: 'Delete',
+    deleteTitle: 'Delete category',
+    deleteConfirm: 'This category will be permanently deleted.',
+    inUse: 'articles use this category. Move them to:',
+    chooseCategory: 'Choose a category',
+    articles: 'articles',
+    orderSaved: 'Order saved',
+    empty: 'No categories yet.'
+  },
+  share: {
+    label: 'Share:',
+    share: 'Copy link',
+    copied: 'Link copied'
+  },
+  analytics: {
+    title: 'Analytics',
+    open: 'Open analytics',
+    from: 'From',
+    to: 'To',
+    apply: 'Apply',
+    totalViews: 'Total views',
+    totalShares: 'Total shares',
+    articlesTracked: 'Articles with traffic',
+    overTime: 'Views and shares over time',
+    views: 'Views',
+    shares: 'Shares',
+    topByViews: 'Top articles by views',
+    topByShares: 'Top articles by shares',
+    byCategory: 'By category',
+    uncategorized: 'Uncategorized',
+    article: 'Article',
+    category: 'Category',
+    empty: 'No analytics data for this period.'
+  },
+  profile: {
+    editTitle: 'Edit profile',
+    fullName: 'Full name',
+    avatar: 'Avatar',
+    chooseAvatar: 'Choose image',
+    removeAvatar: 'Remove avatar',
+    avatarHint: 'JPEG, PNG or WebP. Images are cropped to a square and resized before upload.',
+    invalidImage: 'Choose a JPEG, PNG or WebP image',
+    nameTooLong: 'Names are limited to 100 characters',
+    save: 'Save profile',
+    saving: 'Saving...',
+    saved: 'Profile updated',
+    viewPublicPage: 'View public author page'
+  },
+  users: {
+    manage: 'Manage users',
+    searchPlaceholder: 'Search by name or email',
+    search: 'Search',
+    name: 'Name',
+    email: 'Email',
+    role: 'Role',
+    joined: 'Joined',
+    you: '(you)',
+    noUsers: 'No users found.',
+    roles: {
+      reader: 'Reader',
+      editor: 'Editor',
+      admin: 'Admin'
+    },
+    confirmTitle: 'Change role',
+    confirmDescription: 'The new role takes effect the next time this user loads a page.',
+    from: 'from',
+    to: 'to',
+    confirm: 'Change role',
+    cancel: 'Cancel',
+    changing: 'Changing...',
+    changed: 'Role updated',
+    previous: 'Previous',
+    next: 'Next',
+    page: 'Page',
+    of: 'of',
+    auditTitle: 'Recent role changes',
+    noChanges: 'No role changes yet.',
+    changedBy: 'by'
+  },
+  media: {
+    manage: 'Media library',
+    upload: 'Upload images',
+    uploading: 'Uploading...',
+    uploadHint: 'JPEG, PNG, WebP, GIF or AVIF, up to 5 MB each.',
+    invalidType: 'Only JPEG, PNG, WebP, GIF and AVIF images can be uploaded',
+    tooLarge: 'Images are limited to 5 MB',
+    uploaded: 'Images uploaded',
+    searchPlaceholder: 'Search by file name, alt text or caption',
+    search: 'Search',
+    empty: 'No images found.',
+    previous: 'Previous',
+    next: 'Next',
+    page: 'Page',
+    of: 'of',
+    details: 'Image details',
+    selectHint: 'Select an image to edit its details.',
+    altText: 'Alt text',
+    altTextHint: 'Describe the image for readers who cannot see it.',
+    caption: 'Caption',
+    missingAltText: 'No alt text',
+    save: 'Save details',
+    saving: 'Saving...',
+    saved: 'Image details saved',
+    delete: 'Delete image',
+    confirmDelete: 'Delete this image? This cannot be undone.',
+    deleted: 'Image deleted',
+    useImage: 'Use this image',
+    chooseFromLibrary: 'Choose from library',
+    pickerTitle: 'Choose a featured image',
+    pickerDescription: 'Pick an image from the library or upload a new one.',
+    removeImage: 'Remove image',
+    close: 'Close'
+  },
+  ai: {
+    badge: 'AI-generated',
+    assistant: 'AI assistant',
+    topic: 'Topic',
+    topicPlaceholder: 'What should the article be about?',
+    generateDraft: 'Generate draft',
+    summarize: 'Summarize',
+    summarizeHint: 'Works from the last saved version of the article.',
+    translateToArabic: 'Translate to Arabic',
+    working: 'Working...',
+    summarized: 'Excerpt replaced with an AI summary',
+    draftsOnly: 'Summaries are available while the article is a draft.',
+    reviewTitle: 'Review AI-generated content',
+    reviewDescription: 'Parts of this article were written by AI. Check facts, names, quotes and tone before it is published.',
+    reviewConfirm: 'I have reviewed this content',
+    acknowledge: 'Confirm review',
+    reviewed: 'Reviewed',
+    reviewRequired: 'Review the AI-generated content before publishing'
+  },
+  search: {
+    title: 'Search',
+    placeholder: 'Search articles...',
+    submit: 'Search',
+    keywords: 'Keywords',
+    language: 'Language',
+    anyLanguage: 'Any language',
+    category: 'Category',
+    anyCategory: 'Any category',
+    status: 'Status',
+    anyStatus: 'Any status',
+    from: 'From',
+    to: 'To',
+    clear: 'Clear filters',
+    resultsFor: 'results for',
+    noResults: 'No articles match your search.',
+    prompt: 'Search titles, tags and article text in English and Arabic.',
+    previous: 'Previous',
+    next: 'Next',
+    page: 'Page',
+    of: 'of'
+  },
+  schedule: {
+    title: 'Schedule',
+    description: 'Publish or archive this article automatically at a set time.',
+    publishAt: 'Publish at',
+    archiveAt: 'Archive at',
+    reviewRequired: 'Submit the article for review to schedule publishing.',
+    approvalRequired: 'Only published if the article is approved by then.',
+    save: 'Save schedule',
+    saving: 'Saving...',
+    saved: 'Schedule saved.'
+  },
+  revisions: {
+    title: 'Revision history',
+    description: 'Every save is kept. Pick two revisions to compare them.',
+    compare: 'Compare',
+    loading: 'Loading revisions...',
+    none: 'No revisions yet.',
+    before: 'Older',
+    after: 'Newer',
+    savedAt: 'Saved',
+    author: 'By',
+    current: 'Current',
+    restore: 'Restore as new draft',
+    confirmRestore: 'Create a new draft from this revision? The article itself is not changed.',
+    unchanged: 'No changes.'
+  },
+  apiKeys: {
+    manage: 'API keys',
+    description: 'Keys give partner apps read-only access to published content through /api/v1. The rate limit is in requests per minute.',
+    name: 'Name',
+    namePlaceholder: 'e.g. Newsletter',
+    rateLimit: 'Requests per minute',
+    create: 'Create key',
+    creating: 'Creating...',
+    created: 'Copy this key now. It will not be shown again.',
+    copy: 'Copy',
+    copied: 'Copied',
+    key: 'Key',
+    createdBy: 'Created by',
+    lastUsed: 'Last used',
+    neverUsed: 'Never',
+    revoke: 'Revoke',
+    revoked: 'Revoked',
+    confirmRevoke: 'Revoke this key? Apps using it lose access immediately.',
+    empty: 'No API keys yet.'
+  },
+  realtime: {
+    live: 'Live updates',
+    offline: 'Connecting...',
+    liveHint: 'Lists and counts refresh when colleagues change articles or comments.',
+    statusChanged: 'Your article changed status',
+    openArticle: 'Open article',
+    dismiss: 'Dismiss',
+    alsoEditing: 'Also editing now:',
+    overwriteWarning: 'Coordinate before saving so you do not overwrite each other.'
+  },
+  notifications: {
+    title: 'Notifications',
+    open: 'Open notifications',
+    unread: 'unread',
+    empty: 'No notifications yet.',
+    markAllRead: 'Mark all as read',
+    settings: 'Notification settings',
+    settingsDescription: 'Choose which events you hear about, in the dashboard and by email.',
+    event: 'Event',
+    inApp: 'In app',
+    email: 'Email',
+    save: 'Save settings',
+    saving: 'Saving...',
+    saved: 'Settings saved',
+    events: {
+      review_requested: 'Review requested',
+      article_published: 'Article published',
+      comment_pending: 'Comment awaiting moderation',
+      comment_approved: 'Comment approved',
+      changes_requested: 'Changes requested'
+    },
+    messages: {
+      review_requested: 'An article is waiting for your review',
+      article_published: 'Your article was published',
+      comment_pending: 'A new comment is waiting for moderation',
+      comment_approved: 'Your comment was approved',
+      changes_requested: 'Changes were requested on your article'
+    },
+    emailFooter: 'You can choose which emails you receive in your notification settings.'
+  },
+  review: {
+    notesTitle: 'Review notes',
+    notesDescription: 'Select text in the content to leave a note on it. Notes can be added while the article is in review.',
+    loading: 'Loading review...',
+    noNotes: 'No review notes yet.',
+    noContent: 'The article has no content yet.',
+    selection: 'Selected text',
+    note: 'Note',
+    addNote: 'Add note',
+    adding: 'Adding...',
+    cancel: 'Cancel',
+    resolve: 'Resolve',
+    reopen: 'Reopen',
+    delete: 'Delete',
+    confirmDelete: 'Delete this note?',
+    resolvedBy: 'Resolved by',
+    outdated: 'The text this note was about has changed',
+    showResolved: 'Show resolved notes',
+    signOffTitle: 'Editorial sign-off',
+    signOffDescription: 'Articles need an approval before they can be published. Changing the title, excerpt or content withdraws it.',
+    approve: 'Approve',
+    approving: 'Approving...',
+    approved: 'Article approved',
+    approvedBy: 'Approved by',
+    notApproved: 'Not approved yet',
+    approvalRequired: 'The article must be approved before publishing',
+    requestChanges: 'Request changes',
+    requestChangesDescription: 'The article goes back to draft. Tell the author what needs to change.',
+    reason: 'Reason',
+    send: 'Send back to draft',
+    sending: 'Sending...',
+    sentBack: 'Article sent back to draft',
+    changesRequested: 'Changes requested',
+    history: 'Review history',
+    noHistory: 'No decisions yet.',
+    decisions: {
+      approved: 'Approved',
+      changes_requested: 'Changes requested'
+    }
+  },
+  site: {
+    latestArticles: 'Latest articles',
+    noArticles: 'No articles published yet.',
+    noCategoryArticles: 'No articles in this category yet.',
+    staff: 'Staff',
+    authorArticles: 'Published articles',
+    writingSince: 'Writing since',
+    noAuthorArticles: 'No published articles yet.',
+    readTranslation: 'اقرأ هذا المقال بالعربية',
+    description: 'News and articles in English and Arabic.',
+    rssFeed: 'RSS feed',
+    atomFeed: 'Atom feed'
+  },
+  errors: {
+    signedOut: 'You must be signed in',
+    forbidden: 'You do not have permission to do that',
+    requestFailed: 'The request failed',
+    invalidInput: 'Some values are not valid',
+    articleSlugTaken: 'An article with this slug already exists',
+    articleLocked: 'Move the article back to draft before editing it',
+    transitionNotAllowed: 'Your role cannot move the article to this status',
+    aiReviewRequired: 'AI-generated content must be reviewed before publishing',
+    approvalRequired: 'Articles must be approved before publishing',
+    schedulePublishNotAllowed: 'Your role cannot schedule publishing of this article',
+    scheduleArchiveNotAllowed: 'Your role cannot schedule archiving of this article',
+    scheduleInPast: 'Scheduled times must be in the future',
+    topicRequired: 'Describe what the article should be about',
+    topicTooLong: 'The topic is too long',
+    aiDraftOnly: 'Move the article back to draft before using AI on it',
+    summaryNeedsContent: 'Save some content before summarizing',
+    translationNeedsContent: 'Save some content before translating',
+    translationEnglishOnly: 'Only English articles can be translated to Arabic',
+    translationExists: 'This article already has an Arabic version',
+    aiFailed: 'AI request failed',
+    aiEmptySummary: 'AI request failed: the summary was empty',
+    aiReviewFailed: 'Could not record the review',
+    categorySlugTaken: 'A category with this slug already exists',
+    categorySlugReserved: 'This slug is reserved and cannot be used for a category',
+    categorySameTarget: 'Choose a different category to move articles to',
+    categoryInUse: 'Articles still use this category; move them to another category first',
+    tagSlugTaken: 'A tag with this slug already exists',
+    tagMergeSelf: 'Cannot merge a tag into itself',
+    commentSignedOut: 'You must be signed in to comment',
+    commentsClosed: 'Comments are only open on published articles',
+    replyNotAllowed: 'You can only reply to approved comments',
+    unknownModerationStatus: 'Unknown moderation status',
+    mediaOutsideLibrary: 'Images must be uploaded through the media library',
+    mediaInUse: 'This image is the featured image of an article',
+    avatarOutsideProfile: 'Avatars must be uploaded through the profile form',
+    unknownNotificationEvent: 'Unknown notification event',
+    notesReviewOnly: 'Notes can only be added while the article is in review',
+    approveReviewOnly: 'Only articles in review can be approved'
+  }
+}
+
+export default en
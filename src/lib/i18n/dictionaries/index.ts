@@ -0,0 +1,12 @@
+// lib/i18n/dictionaries/index.ts
+import type { Locale } from '@/lib/i18n/config'
+import en from './en'
+import ar from './ar'
+
+export type Dictionary = typeof en
+
+const dictionaries: Record<Locale, Dictionary> = { en, ar }
+
+export function getDictionary(locale: Locale): Dictionary {
+  return dictionaries[locale]
+}
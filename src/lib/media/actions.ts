@@ -0,0 +1,63 @@
+'use server'
+
+import type { MediaAsset } from '@/lib/db/types'
+import type { MediaCreate, MediaUpdate } from '@/lib/db/schemas'
+import * as mediaDb from '@/lib/db/media'
+import * as articlesDb from '@/lib/db/articles'
+import { requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { mediaBaseUrl, removeMedia } from '@/lib/media/storage'
+
+// Records a file the browser has already uploaded to the media bucket.
+export async function addMedia(input: Omit<MediaCreate, 'uploaded_by'>): Promise<ActionResult<MediaAsset>> {
+  const { actor, error: denied } = await requirePermission('media:manage')
+  if (!actor) return { data: null, error: denied }
+
+  if (input.url !== `${mediaBaseUrl()}${input.path}`) {
+    return { data: null, error: { code: 'mediaOutsideLibrary' } }
+  }
+
+  const { data, error } = await mediaDb.create(actor.supabase, { ...input, uploaded_by: actor.user.id })
+  if (error) {
+    // Without a row the file would be invisible in the library
+    await removeMedia(actor.supabase, input.path)
+    return { data: null, error: dbError(error) }
+  }
+
+  return { data, error: null }
+}
+
+export async function updateMedia(id: string, input: MediaUpdate): Promise<ActionResult<MediaAsset>> {
+  const { actor, error: denied } = await requirePermission('media:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const { data, error } = await mediaDb.update(actor.supabase, id, input)
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data, error: null }
+}
+
+// Deletes an asset and its file. Images still used as a featured image are
+// kept, since the articles would be left pointing at a missing file.
+export async function deleteMedia(id: string): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('media:manage')
+  if (!actor) return { data: null, error: denied }
+  const { supabase } = actor
+
+  const { data: asset, error: loadError } = await mediaDb.get(supabase, id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+
+  const { data: usage, error: usageError } = await articlesDb.countUsingMedia(supabase, id)
+  if (usageError) return { data: null, error: dbError(usageError) }
+  if (usage > 0) {
+    return { data: null, error: { code: 'mediaInUse' } }
+  }
+
+  const { error } = await mediaDb.remove(supabase, id)
+  if (error) return { data: null, error: dbError(error) }
+
+  // A leftover file is harmless; the row is what the library lists
+  await removeMedia(supabase, asset.path)
+
+  return { data: null, error: null }
+}
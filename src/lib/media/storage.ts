@@ -0,0 +1,64 @@
+// lib/media/storage.ts
+import { fail, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export const MEDIA_BUCKET = 'media'
+export const MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif']
+export const MAX_MEDIA_SIZE = 5 * 1024 * 1024
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif'
+}
+
+export interface StoredMedia {
+  path: string
+  url: string
+}
+
+// Public URL prefix of the bucket. Only these URLs are served through
+// next/image; see images.remotePatterns in next.config.ts.
+export function mediaBaseUrl(): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${MEDIA_BUCKET}/`
+}
+
+export function isMediaUrl(url: string): boolean {
+  return url.startsWith(mediaBaseUrl())
+}
+
+// Pixel size of an image file, read in the browser before upload.
+export async function readImageSize(file: File): Promise<{ width: number; height: number } | null> {
+  try {
+    const bitmap = await createImageBitmap(file)
+    const size = { width: bitmap.width, height: bitmap.height }
+    bitmap.close()
+    return size
+  } catch {
+    return null
+  }
+}
+
+// Uploads a file under a year/month folder with a random name, so two
+// uploads called "photo.jpg" never collide.
+export async function uploadMedia(client: DbClient, file: File): Promise<DbResult<StoredMedia>> {
+  const now = new Date()
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0')
+  const path = `${now.getUTCFullYear()}/${month}/${crypto.randomUUID()}.${EXTENSIONS[file.type] ?? 'bin'}`
+
+  const { error } = await client.storage
+    .from(MEDIA_BUCKET)
+    .upload(path, file, { contentType: file.type, cacheControl: '31536000' })
+
+  if (error) return fail(error)
+  return ok({ path, url: client.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl })
+}
+
+export async function removeMedia(client: DbClient, path: string): Promise<DbResult<null>> {
+  const { error } = await client.storage
+    .from(MEDIA_BUCKET)
+    .remove([path])
+
+  return error ? fail(error) : ok(null)
+}
@@ -0,0 +1,45 @@
+'use server'
+
+import type { NotificationPreference } from '@/lib/db/types'
+import * as notificationsDb from '@/lib/db/notifications'
+import { getActor } from '@/lib/auth/actor'
+import { can } from '@/lib/auth/permissions'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { EVENT_PERMISSIONS, NOTIFICATION_EVENTS } from '@/lib/notifications/events'
+
+// Marks the given notifications read, or all of them when no ids are given.
+export async function markNotificationsRead(ids?: string[]): Promise<ActionResult> {
+  const actor = await getActor()
+  if (!actor) return { data: null, error: { code: 'signedOut' } }
+
+  const { error } = await notificationsDb.markRead(actor.supabase, actor.user.id, ids)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: null, error: null }
+}
+
+export async function saveNotificationPreferences(
+  preferences: Pick<NotificationPreference, 'event' | 'in_app' | 'email'>[]
+): Promise<ActionResult> {
+  const actor = await getActor()
+  if (!actor) return { data: null, error: { code: 'signedOut' } }
+
+  const unknown = preferences.find(({ event }) => !NOTIFICATION_EVENTS.includes(event))
+  if (unknown) return { data: null, error: { code: 'unknownNotificationEvent', detail: unknown.event } }
+
+  // Events the user can never receive are not stored
+  const relevant = preferences.filter(({ event }) => {
+    const permission = EVENT_PERMISSIONS[event]
+    return !permission || can(actor.role, permission)
+  })
+
+  const { error } = await notificationsDb.savePreferences(actor.supabase, relevant.map(({ event, in_app, email }) => ({
+    user_id: actor.user.id,
+    event,
+    in_app: Boolean(in_app),
+    email: Boolean(email)
+  })))
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: null, error: null }
+}
@@ -0,0 +1,90 @@
+// lib/notifications/delivery.ts
+import { after } from 'next/server'
+import type { DbClient } from '@/lib/db/result'
+import * as notificationsDb from '@/lib/db/notifications'
+import { defaultLocale } from '@/lib/i18n/config'
+import { getDictionary } from '@/lib/i18n/dictionaries'
+import { getEmailAdapter, type EmailAdapter, type EmailMessage } from '@/lib/email/adapter'
+import { createServiceSupabase } from '@/lib/supabase/service'
+import { absoluteUrl } from '@/lib/seo/site'
+import { notificationPath } from '@/lib/notifications/events'
+
+const BATCH_SIZE = 50
+
+// Profiles have no language preference yet, so emails use the default
+// locale.
+function buildEmail(notification: notificationsDb.EmailNotification, to: string): EmailMessage {
+  const t = getDictionary(defaultLocale)
+  const title = notification.articles?.title ?? t.common.unknown
+  const link = absoluteUrl(notificationPath(defaultLocale, notification.event, notification.article_id, notification.articles))
+  const lines = [
+    `${t.notifications.messages[notification.event]}: ${title}`,
+    ...(notification.comments ? ['', `"${notification.comments.content}"`] : []),
+    '',
+    link,
+    '',
+    t.notifications.emailFooter
+  ]
+
+  return {
+    to,
+    subject: `${t.notifications.events[notification.event]}: ${title}`,
+    text: lines.join('\n')
+  }
+}
+
+// Sends pending notification emails in batches until none are left.
+// Needs the service role client: recipients' addresses and other users'
+// notifications are not readable otherwise.
+export async function deliverPendingEmails(
+  client: DbClient,
+  adapter: EmailAdapter = getEmailAdapter()
+): Promise<{ sent: number; failed: number }> {
+  let sent = 0
+  let failed = 0
+
+  for (;;) {
+    const { data: ids, error } = await notificationsDb.claimEmails(client, BATCH_SIZE)
+    if (error) throw new Error(error.message)
+    if (ids.length === 0) break
+
+    const { data: notifications, error: listError } = await notificationsDb.listForEmail(client, ids)
+    if (listError) {
+      await notificationsDb.setEmailStatus(client, ids, 'failed')
+      throw new Error(listError.message)
+    }
+
+    for (const notification of notifications) {
+      let status: 'sent' | 'failed' = 'failed'
+      if (notification.recipient?.email) {
+        try {
+          await adapter.send(buildEmail(notification, notification.recipient.email))
+          status = 'sent'
+        } catch (err) {
+          console.error(`Notification email ${notification.id} failed`, err)
+        }
+      }
+      await notificationsDb.setEmailStatus(client, [notification.id], status)
+      if (status === 'sent') sent++
+      else failed++
+    }
+  }
+
+  return { sent, failed }
+}
+
+// Sends emails for the notifications an action just queued, after the
+// response has gone out. Without SUPABASE_SERVICE_ROLE_KEY emails stay
+// pending.
+export function queueEmailDelivery() {
+  const supabase = createServiceSupabase()
+  if (!supabase) return
+
+  after(async () => {
+    try {
+      await deliverPendingEmails(supabase)
+    } catch (err) {
+      console.error('Notification email delivery failed', err)
+    }
+  })
+}
@@ -0,0 +1,30 @@
+// lib/notifications/events.ts
+import type { Language, NotificationEvent } from '@/lib/db/types'
+import type { Permission } from '@/lib/auth/permissions'
+import { localizePath } from '@/lib/i18n/config'
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['review_requested', 'article_published', 'comment_pending', 'comment_approved', 'changes_requested']
+
+// Who can receive each event (see the notifications migration). Anyone
+// who can comment can have a comment approved.
+export const EVENT_PERMISSIONS: Record<NotificationEvent, Permission | null> = {
+  review_requested: 'article:publish',
+  article_published: 'article:create',
+  comment_pending: 'comment:moderate',
+  comment_approved: null,
+  changes_requested: 'article:create'
+}
+
+// What a notification links to: the editor for articles awaiting review
+// or sent back with requested changes, the moderation queue for pending comments, otherwise the live article.
+export function notificationPath(
+  locale: Language,
+  event: NotificationEvent,
+  articleId: string | null,
+  article: { slug: string; language: Language } | null
+): string {
+  if (event === 'comment_pending') return localizePath(locale, '/dashboard/comments')
+  if ((event === 'review_requested' || event === 'changes_requested') && articleId) return localizePath(locale, `/dashboard/articles/${articleId}/edit`)
+  if (article) return localizePath(article.language, `/articles/${article.slug}`)
+  return localizePath(locale, '/dashboard')
+}
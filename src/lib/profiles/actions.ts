@@ -0,0 +1,33 @@
+'use server'
+
+import type { Profile } from '@/lib/db/types'
+import type { ProfileUpdate } from '@/lib/db/schemas'
+import * as profilesDb from '@/lib/db/profiles'
+import { getActor } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { avatarFolderUrl, removeAvatar } from '@/lib/profiles/avatar'
+
+// Updates the signed-in user's own name and avatar. The avatar must be an
+// upload in their own folder of the avatars bucket.
+export async function updateProfile(input: ProfileUpdate): Promise<ActionResult<Profile>> {
+  const actor = await getActor()
+  if (!actor) return { data: null, error: { code: 'signedOut' } }
+  const { supabase, user } = actor
+
+  if (input.avatar_url && !input.avatar_url.startsWith(avatarFolderUrl(user.id))) {
+    return { data: null, error: { code: 'avatarOutsideProfile' } }
+  }
+
+  const { data: current, error: loadError } = await profilesDb.get(supabase, user.id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+
+  const { data, error } = await profilesDb.update(supabase, user.id, input)
+  if (error) return { data: null, error: dbError(error) }
+
+  // Clean up the replaced upload; a leftover file is harmless
+  if (input.avatar_url !== undefined && current?.avatar_url !== data.avatar_url) {
+    await removeAvatar(supabase, user.id, current?.avatar_url ?? null)
+  }
+
+  return { data, error: null }
+}
@@ -0,0 +1,64 @@
+// lib/profiles/avatar.ts
+import { fail, ok, type DbClient, type DbResult } from '@/lib/db/result'
+
+export const AVATAR_BUCKET = 'avatars'
+export const AVATAR_SIZE = 256
+export const AVATAR_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+// Public URL prefix of one user's avatar folder. Profiles may only point
+// their avatar_url here.
+export function avatarFolderUrl(userId: string): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${AVATAR_BUCKET}/${userId}/`
+}
+
+// Crops the centre square of an image and scales it down to at most
+// size x size pixels, in the browser, so uploads stay small.
+export async function cropAvatar(file: File, size = AVATAR_SIZE): Promise<Blob> {
+  const bitmap = await createImageBitmap(file)
+  const side = Math.min(bitmap.width, bitmap.height)
+  const canvas = document.createElement('canvas')
+  canvas.width = canvas.height = Math.min(size, side)
+
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported in this browser')
+  context.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  )
+  bitmap.close()
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/webp', 0.9)
+  })
+}
+
+// Uploads a cropped avatar into the user's folder and returns its public
+// URL. Each upload gets a new name so cached copies of the old one expire.
+export async function uploadAvatar(client: DbClient, userId: string, image: Blob): Promise<DbResult<string>> {
+  const path = `${userId}/${Date.now()}.webp`
+  const { error } = await client.storage
+    .from(AVATAR_BUCKET)
+    .upload(path, image, { contentType: 'image/webp', cacheControl: '31536000' })
+
+  if (error) return fail(error)
+  return ok(client.storage.from(AVATAR_BUCKET).getPublicUrl(path).data.publicUrl)
+}
+
+// Deletes a previous upload; URLs outside the bucket are left alone.
+export async function removeAvatar(client: DbClient, userId: string, url: string | null): Promise<DbResult<null>> {
+  const folder = avatarFolderUrl(userId)
+  if (!url?.startsWith(folder)) return ok(null)
+
+  const { error } = await client.storage
+    .from(AVATAR_BUCKET)
+    .remove([`${userId}/${url.slice(folder.length)}`])
+
+  return error ? fail(error) : ok(null)
+}
@@ -0,0 +1,93 @@
+// lib/public-content.ts
+import { z } from 'zod'
+import { publicSupabase } from '@/lib/supabase/public'
+import type { Article, Category, Language, Tag } from '@/lib/db/types'
+import type { DbResult } from '@/lib/db/result'
+import { slugSchema } from '@/lib/db/schemas'
+import * as articlesDb from '@/lib/db/articles'
+import * as categoriesDb from '@/lib/db/categories'
+import * as commentsDb from '@/lib/db/comments'
+import * as profilesDb from '@/lib/db/profiles'
+import * as searchDb from '@/lib/db/search'
+import * as tagsDb from '@/lib/db/tags'
+
+export type { ArticleDetail, ArticleSummary } from '@/lib/db/articles'
+export type { PublicComment } from '@/lib/db/comments'
+export type { PublicProfile } from '@/lib/db/profiles'
+export type { SearchResult } from '@/lib/db/search'
+
+// Public pages render through error boundaries, so failures are thrown.
+function unwrap<T>(result: DbResult<T>): T {
+  if (result.error) throw new Error(result.error.message)
+  return result.data
+}
+
+// Slugs come from the URL; anything that is not a valid slug cannot match
+function isSlug(value: string): boolean {
+  return slugSchema.safeParse(value).success
+}
+
+export async function getPublicCategories(): Promise<Category[]> {
+  return unwrap(await categoriesDb.list(publicSupabase))
+}
+
+export async function getLatestArticles(language: Language, limit = 20): Promise<articlesDb.ArticleSummary[]> {
+  return unwrap(await articlesDb.listPublished(publicSupabase, { language, limit }))
+}
+
+export async function getCategoryBySlug(slug: string): Promise<Category | null> {
+  if (!isSlug(slug)) return null
+  return unwrap(await categoriesDb.getBySlug(publicSupabase, slug))
+}
+
+export async function getCategoryArticles(categoryId: string, language: Language, limit = 50): Promise<articlesDb.ArticleSummary[]> {
+  return unwrap(await articlesDb.listPublished(publicSupabase, { language, categoryId, limit }))
+}
+
+export async function getPublishedArticle(slug: string): Promise<articlesDb.ArticleDetail | null> {
+  if (!isSlug(slug)) return null
+  return unwrap(await articlesDb.getPublishedBySlug(publicSupabase, slug))
+}
+
+// The published counterpart of an article in another language, if any.
+export async function getArticleTranslation(article: Pick<Article, 'id' | 'translation_group_id'>): Promise<Pick<Article, 'slug' | 'language'> | null> {
+  return unwrap(await articlesDb.getPublishedTranslation(publicSupabase, article))
+}
+
+export async function getApprovedComments(articleId: string): Promise<commentsDb.PublicComment[]> {
+  return unwrap(await commentsDb.listApproved(publicSupabase, articleId))
+}
+
+export async function getTagBySlug(slug: string): Promise<Tag | null> {
+  if (!isSlug(slug)) return null
+  return unwrap(await tagsDb.getBySlug(publicSupabase, slug))
+}
+
+export async function getTagArticles(tagId: string, language: Language, limit = 50): Promise<articlesDb.ArticleSummary[]> {
+  return unwrap(await articlesDb.listPublished(publicSupabase, { language, tagId, limit }))
+}
+
+export async function getAuthor(id: string): Promise<profilesDb.PublicProfile | null> {
+  // Author ids come from the URL; anything but a uuid cannot match
+  if (!z.uuid().safeParse(id).success) return null
+  return unwrap(await profilesDb.getPublic(publicSupabase, id))
+}
+
+export async function getAuthorArticles(authorId: string, language: Language, limit = 50): Promise<articlesDb.ArticleSummary[]> {
+  return unwrap(await articlesDb.listPublished(publicSupabase, { language, authorId, limit }))
+}
+
+// Newest published articles for a feed; both languages when none is given.
+export async function getFeedArticles(filter: Pick<articlesDb.PublishedFilter, 'language' | 'categoryId'>, limit = 50): Promise<articlesDb.ArticleSummary[]> {
+  return unwrap(await articlesDb.listPublished(publicSupabase, { ...filter, limit }))
+}
+
+export async function getSitemapArticles(limit = 5000): Promise<articlesDb.SitemapArticle[]> {
+  return unwrap(await articlesDb.listSitemapArticles(publicSupabase, limit))
+}
+
+// Searches published articles only, whatever status the caller asks for.
+export async function searchPublishedArticles(search: searchDb.ArticleSearch): Promise<{ results: searchDb.SearchResult[]; total: number }> {
+  if (!search.query) return { results: [], total: 0 }
+  return unwrap(await searchDb.searchArticles(publicSupabase, { ...search, status: 'published' }))
+}
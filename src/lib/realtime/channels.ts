@@ -0,0 +1,28 @@
+// lib/realtime/channels.ts
+import type { Profile } from '@/lib/db/types'
+
+// Tables published to Supabase Realtime (see the realtime migration)
+export type RealtimeTable = 'articles' | 'comments'
+
+// Shown to the other people editing the same article. Presence channels
+// are public, so nothing private such as the email goes in here.
+export type PresentEditor = Pick<Profile, 'full_name' | 'avatar_url'> & {
+  user_id: string
+  joined_at: string
+}
+
+export function changesChannel(tables: RealtimeTable[]): string {
+  return `changes:${tables.join(',')}`
+}
+
+export function editorChannel(articleId: string): string {
+  return `article-editors:${articleId}`
+}
+
+export function authorChannel(authorId: string): string {
+  return `article-status:${authorId}`
+}
+
+export function notificationsChannel(userId: string): string {
+  return `notifications:${userId}`
+}
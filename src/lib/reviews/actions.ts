@@ -0,0 +1,79 @@
+'use server'
+
+import type { ReviewNoteCreate } from '@/lib/db/schemas'
+import type { StatusChange } from '@/lib/db/articles'
+import * as articlesDb from '@/lib/db/articles'
+import * as reviewsDb from '@/lib/db/reviews'
+import { canAnnotate, canSignOff } from '@/lib/articles/workflow'
+import { requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { queueEmailDelivery } from '@/lib/notifications/delivery'
+
+export async function addReviewNote(
+  input: Omit<ReviewNoteCreate, 'author_id'>
+): Promise<ActionResult<reviewsDb.ReviewNoteEntry>> {
+  const { actor, error: denied } = await requirePermission('article:edit')
+  if (!actor) return { data: null, error: denied }
+
+  const { data: article, error: loadError } = await articlesDb.get(actor.supabase, input.article_id)
+  if (loadError) return { data: null, error: dbError(loadError) }
+  if (!canAnnotate(actor.role, article.status)) {
+    return { data: null, error: { code: 'notesReviewOnly' } }
+  }
+
+  const { data, error } = await reviewsDb.createNote(actor.supabase, { ...input, author_id: actor.user.id })
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data, error: null }
+}
+
+export async function setReviewNoteResolved(id: string, resolved: boolean): Promise<ActionResult<reviewsDb.ReviewNoteEntry>> {
+  const { actor, error: denied } = await requirePermission('article:edit')
+  if (!actor) return { data: null, error: denied }
+
+  const { data, error } = await reviewsDb.setNoteResolved(actor.supabase, id, resolved ? actor.user.id : null)
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data, error: null }
+}
+
+// Only the author of a note can delete it (see the review_notes policies).
+export async function deleteReviewNote(id: string): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('article:edit')
+  if (!actor) return { data: null, error: denied }
+
+  const { error } = await reviewsDb.removeNote(actor.supabase, id)
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data: null, error: null }
+}
+
+// Signs off on the article as it is saved now. Any later change to its
+// text withdraws the approval.
+export async function approveArticle(articleId: string): Promise<ActionResult<reviewsDb.ReviewEntry>> {
+  const { actor, error: denied } = await requirePermission('article:publish')
+  if (!actor) return { data: null, error: denied }
+
+  const { data: article, error: loadError } = await articlesDb.get(actor.supabase, articleId)
+  if (loadError) return { data: null, error: dbError(loadError) }
+  if (!canSignOff(actor.role, article.status)) {
+    return { data: null, error: { code: 'approveReviewOnly' } }
+  }
+
+  const { data, error } = await reviewsDb.approve(actor.supabase, articleId, actor.user.id)
+  if (error) return { data: null, error: dbError(error) }
+
+  return { data, error: null }
+}
+
+export async function requestArticleChanges(articleId: string, reason: string): Promise<ActionResult<StatusChange>> {
+  const { actor, error: denied } = await requirePermission('article:publish')
+  if (!actor) return { data: null, error: denied }
+
+  const { data, error } = await reviewsDb.requestChanges(actor.supabase, articleId, reason)
+  if (error) return { data: null, error: dbError(error) }
+
+  // The author is notified by the article_reviews trigger
+  queueEmailDelivery()
+  return { data, error: null }
+}
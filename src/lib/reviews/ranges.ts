@@ -0,0 +1,62 @@
+// lib/reviews/ranges.ts
+import type { ReviewNote } from '@/lib/db/types'
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+// A run of content covered by the same notes
+export interface HighlightSegment {
+  start: number
+  text: string
+  noteIds: string[]
+}
+
+// Where a note's quote is in the current content. Notes keep the offsets
+// they were written against, so after edits the quote is looked up again
+// and the occurrence closest to the old position wins. Null when the
+// quoted text is gone.
+export function anchorNote(content: string, note: Pick<ReviewNote, 'range_start' | 'range_end' | 'quote'>): TextRange | null {
+  if (content.slice(note.range_start, note.range_end) === note.quote) {
+    return { start: note.range_start, end: note.range_end }
+  }
+
+  let best = -1
+  for (let index = content.indexOf(note.quote); index !== -1; index = content.indexOf(note.quote, index + 1)) {
+    if (best === -1 || Math.abs(index - note.range_start) < Math.abs(best - note.range_start)) best = index
+  }
+  return best === -1 ? null : { start: best, end: best + note.quote.length }
+}
+
+// Splits the content at every range boundary, so overlapping notes can be
+// highlighted without nesting marks.
+export function highlightSegments(content: string, ranges: (TextRange & { id: string })[]): HighlightSegment[] {
+  const bounds = new Set([0, content.length])
+  for (const range of ranges) {
+    bounds.add(Math.min(range.start, content.length))
+    bounds.add(Math.min(range.end, content.length))
+  }
+
+  const points = [...bounds].sort((a, b) => a - b)
+  const segments: HighlightSegment[] = []
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]
+    const end = points[i + 1]
+    segments.push({
+      start,
+      text: content.slice(start, end),
+      noteIds: ranges.filter((range) => range.start <= start && range.end >= end).map((range) => range.id)
+    })
+  }
+  return segments
+}
+
+// Character offset of a DOM position within `container`, counting only
+// text. The container must render the content as plain text.
+export function textOffset(container: Node, node: Node, offset: number): number {
+  const range = document.createRange()
+  range.setStart(container, 0)
+  range.setEnd(node, offset)
+  return range.toString().length
+}
@@ -0,0 +1,99 @@
+// lib/revisions/diff.ts
+
+export type DiffChange = 'same' | 'removed' | 'added'
+
+export interface DiffCell {
+  // 1-based line number in its own version
+  line: number
+  text: string
+  change: DiffChange
+}
+
+// One row of a side-by-side diff. A side is null where the other version
+// has a line with no counterpart.
+export interface DiffRow {
+  left: DiffCell | null
+  right: DiffCell | null
+}
+
+type Op = { kind: 'same'; left: number; right: number } | { kind: 'removed'; left: number } | { kind: 'added'; right: number }
+
+// Longest common subsequence over the lines that differ, after trimming the
+// shared start and end. Revisions mostly change a few paragraphs, which
+// keeps the table small.
+function diffOps(left: string[], right: string[]): Op[] {
+  let start = 0
+  while (start < left.length && start < right.length && left[start] === right[start]) start++
+  let leftEnd = left.length
+  let rightEnd = right.length
+  while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+    leftEnd--
+    rightEnd--
+  }
+
+  const rows = leftEnd - start
+  const cols = rightEnd - start
+  const lengths = new Uint32Array((rows + 1) * (cols + 1))
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * (cols + 1) + j] = left[start + i] === right[start + j]
+        ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (cols + 1) + j], lengths[i * (cols + 1) + j + 1])
+    }
+  }
+
+  const ops: Op[] = []
+  for (let k = 0; k < start; k++) ops.push({ kind: 'same', left: k, right: k })
+  let i = 0
+  let j = 0
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && left[start + i] === right[start + j]) {
+      ops.push({ kind: 'same', left: start + i++, right: start + j++ })
+    } else if (j >= cols || (i < rows && lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1])) {
+      ops.push({ kind: 'removed', left: start + i++ })
+    } else {
+      ops.push({ kind: 'added', right: start + j++ })
+    }
+  }
+  for (let k = 0; k < left.length - leftEnd; k++) ops.push({ kind: 'same', left: leftEnd + k, right: rightEnd + k })
+  return ops
+}
+
+// Line-by-line comparison of two texts. Removed and added lines next to
+// each other share rows, so an edited line shows old and new side by side.
+export function diffLines(before: string | null, after: string | null): DiffRow[] {
+  const left = (before ?? '').split('\n')
+  const right = (after ?? '').split('\n')
+  const rows: DiffRow[] = []
+  let removed: DiffCell[] = []
+  let added: DiffCell[] = []
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const op of diffOps(left, right)) {
+    if (op.kind === 'removed') {
+      removed.push({ line: op.left + 1, text: left[op.left], change: 'removed' })
+    } else if (op.kind === 'added') {
+      added.push({ line: op.right + 1, text: right[op.right], change: 'added' })
+    } else {
+      flush()
+      rows.push({
+        left: { line: op.left + 1, text: left[op.left], change: 'same' },
+        right: { line: op.right + 1, text: right[op.right], change: 'same' }
+      })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+export function hasChanges(rows: DiffRow[]): boolean {
+  return rows.some((row) => row.left?.change !== 'same')
+}
@@ -0,0 +1,70 @@
+// lib/search/params.ts
+import { z } from 'zod'
+import { articleStatusSchema, languageSchema } from '@/lib/db/schemas'
+import type { ArticleSearch } from '@/lib/db/search'
+
+export const SEARCH_PAGE_SIZE = 20
+export const MAX_QUERY_LENGTH = 200
+
+// Filters as they appear in the query string of the search pages
+export interface SearchParams {
+  q?: string
+  lang?: string
+  category?: string
+  status?: string
+  from?: string
+  to?: string
+  page?: string
+}
+
+// Unknown or malformed values are dropped rather than rejected, so a
+// hand-edited URL still shows results.
+const paramsSchema = z.object({
+  q: z.string().trim().max(MAX_QUERY_LENGTH).catch(''),
+  lang: languageSchema.optional().catch(undefined),
+  category: z.uuid().optional().catch(undefined),
+  status: articleStatusSchema.optional().catch(undefined),
+  from: z.iso.date().optional().catch(undefined),
+  to: z.iso.date().optional().catch(undefined),
+  page: z.coerce.number().int().min(1).catch(1)
+})
+
+export type SearchFilters = z.infer<typeof paramsSchema>
+
+export function parseSearchParams(params: SearchParams): SearchFilters {
+  return paramsSchema.parse({ q: '', page: '1', ...params })
+}
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() + 1)
+  return day.toISOString()
+}
+
+// The "to" date is inclusive in the form and exclusive in the query.
+export function toArticleSearch(filters: SearchFilters, pageSize = SEARCH_PAGE_SIZE): ArticleSearch {
+  return {
+    query: filters.q,
+    language: filters.lang,
+    categoryId: filters.category,
+    status: filters.status,
+    from: filters.from ? `${filters.from}T00:00:00Z` : undefined,
+    to: filters.to ? nextDay(filters.to) : undefined,
+    page: filters.page,
+    pageSize
+  }
+}
+
+// Query string for the same search on another page.
+export function searchQueryString(filters: SearchFilters, page = filters.page): string {
+  const params = new URLSearchParams()
+  if (filters.q) params.set('q', filters.q)
+  if (filters.lang) params.set('lang', filters.lang)
+  if (filters.category) params.set('category', filters.category)
+  if (filters.status) params.set('status', filters.status)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (page > 1) params.set('page', String(page))
+  const qs = params.toString()
+  return qs ? `?${qs}` : ''
+}
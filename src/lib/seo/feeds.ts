@@ -0,0 +1,164 @@
+// lib/seo/feeds.ts
+import type { Metadata } from 'next'
+import { getCategoryBySlug, getFeedArticles, type ArticleSummary } from '@/lib/public-content'
+import { defaultLocale, localizePath, type Locale } from '@/lib/i18n/config'
+import { getDictionary, type Dictionary } from '@/lib/i18n/dictionaries'
+import { absoluteUrl, articlePath } from '@/lib/seo/site'
+
+export type FeedFormat = 'rss' | 'atom'
+
+// File names of the two formats, appended to the page a feed belongs to
+const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml'
+}
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml'
+}
+
+export interface Feed {
+  title: string
+  description: string
+  // Absolute URLs of the matching HTML page and of the feed itself
+  pageUrl: string
+  feedUrl: string
+  // Omitted for the feed that mixes both languages
+  language?: Locale
+  // Used when an article has no author name
+  authorName: string
+  articles: ArticleSummary[]
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Only published articles are listed, so published_at is always set; the
+// fallback keeps the feed valid if that ever changes.
+function publishedDate(article: ArticleSummary): Date {
+  return new Date(article.published_at ?? 0)
+}
+
+function lastUpdate(feed: Feed): Date {
+  return feed.articles.length > 0 ? publishedDate(feed.articles[0]) : new Date(0)
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.articles.map((article) => `
+    <item>
+      <title>${escapeXml(article.title)}</title>
+      <link>${escapeXml(absoluteUrl(articlePath(article)))}</link>
+      <guid isPermaLink="false">urn:uuid:${article.id}</guid>
+      <pubDate>${publishedDate(article).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(article.profiles?.full_name || feed.authorName)}</dc:creator>${article.categories ? `
+      <category>${escapeXml(article.categories.name)}</category>` : ''}${article.excerpt ? `
+      <description>${escapeXml(article.excerpt)}</description>` : ''}
+    </item>`).join('')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.pageUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>${feed.language ? `
+    <language>${feed.language}</language>` : ''}
+    <lastBuildDate>${lastUpdate(feed).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>${items}
+  </channel>
+</rss>
+`
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.articles.map((article) => `
+  <entry>
+    <title>${escapeXml(article.title)}</title>
+    <link href="${escapeXml(absoluteUrl(articlePath(article)))}"/>
+    <id>urn:uuid:${article.id}</id>
+    <published>${publishedDate(article).toISOString()}</published>
+    <updated>${publishedDate(article).toISOString()}</updated>
+    <author><name>${escapeXml(article.profiles?.full_name || feed.authorName)}</name></author>${article.categories ? `
+    <category term="${escapeXml(article.categories.slug)}" label="${escapeXml(article.categories.name)}"/>` : ''}${article.excerpt ? `
+    <summary>${escapeXml(article.excerpt)}</summary>` : ''}
+  </entry>`).join('')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom"${feed.language ? ` xml:lang="${feed.language}"` : ''}>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link href="${escapeXml(feed.pageUrl)}"/>
+  <link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/atom+xml"/>
+  <id>${escapeXml(feed.feedUrl)}</id>
+  <updated>${lastUpdate(feed).toISOString()}</updated>${entries}
+</feed>
+`
+}
+
+export function feedResponse(feed: Feed, format: FeedFormat): Response {
+  return new Response(format === 'rss' ? renderRss(feed) : renderAtom(feed), {
+    headers: { 'Content-Type': `${CONTENT_TYPES[format]}; charset=utf-8` }
+  })
+}
+
+// Path of a page's feed, e.g. ('/ar/news', 'atom') -> '/ar/news/atom.xml'.
+// The site-wide feeds hang off the root, so their page path is ''.
+export function feedPath(pagePath: string, format: FeedFormat): string {
+  return `${pagePath}/${FEED_FILES[format]}`
+}
+
+// <link rel="alternate"> entries advertising a page's feeds
+export function feedAlternates(pagePath: string, t: Dictionary): NonNullable<Metadata['alternates']>['types'] {
+  return {
+    [CONTENT_TYPES.rss]: [{ url: feedPath(pagePath, 'rss'), title: t.site.rssFeed }],
+    [CONTENT_TYPES.atom]: [{ url: feedPath(pagePath, 'atom'), title: t.site.atomFeed }]
+  }
+}
+
+function buildFeed(t: Dictionary, pagePath: string, format: FeedFormat, feed: Pick<Feed, 'title' | 'description' | 'language' | 'articles'>): Feed {
+  return {
+    ...feed,
+    pageUrl: absoluteUrl(pagePath || '/'),
+    feedUrl: absoluteUrl(feedPath(pagePath, format)),
+    authorName: t.site.staff
+  }
+}
+
+// Articles in both languages, described in the default locale
+export async function getSiteFeed(format: FeedFormat): Promise<Feed> {
+  const t = getDictionary(defaultLocale)
+  const articles = await getFeedArticles({})
+  return buildFeed(t, '', format, { title: t.common.siteName, description: t.site.description, articles })
+}
+
+export async function getLanguageFeed(locale: Locale, format: FeedFormat): Promise<Feed> {
+  const t = getDictionary(locale)
+  const articles = await getFeedArticles({ language: locale })
+  return buildFeed(t, localizePath(locale, '/'), format, {
+    title: t.common.siteName,
+    description: t.site.description,
+    language: locale,
+    articles
+  })
+}
+
+// Articles of one category in one language, or null for an unknown category
+export async function getCategoryFeed(locale: Locale, slug: string, format: FeedFormat): Promise<Feed | null> {
+  const category = await getCategoryBySlug(slug)
+  if (!category) return null
+
+  const t = getDictionary(locale)
+  const articles = await getFeedArticles({ language: locale, categoryId: category.id })
+  return buildFeed(t, localizePath(locale, `/${category.slug}`), format, {
+    title: `${category.name} | ${t.common.siteName}`,
+    description: category.description || t.site.description,
+    language: locale,
+    articles
+  })
+}
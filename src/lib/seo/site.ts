@@ -0,0 +1,26 @@
+// lib/seo/site.ts
+import { defaultLocale, localizePath, locales, type Locale } from '@/lib/i18n/config'
+
+// Public origin of the site, used wherever a URL has to be absolute:
+// canonical links, feeds, the sitemap and structured data.
+export function siteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000').replace(/\/+$/, '')
+}
+
+// Leaves URLs that are already absolute, such as storage image URLs, alone
+export function absoluteUrl(path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${siteUrl()}${path}`
+}
+
+// hreflang alternates for a path that exists in every locale, with the
+// default locale as x-default.
+export function localeAlternates(path: string): Record<string, string> {
+  return {
+    ...Object.fromEntries(locales.map((locale) => [locale, absoluteUrl(localizePath(locale, path))])),
+    'x-default': absoluteUrl(localizePath(defaultLocale, path))
+  }
+}
+
+export function articlePath(article: { language: Locale; slug: string }): string {
+  return localizePath(article.language, `/articles/${article.slug}`)
+}
@@ -0,0 +1,42 @@
+// lib/seo/structured-data.ts
+import type { ArticleDetail } from '@/lib/public-content'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import { localizePath } from '@/lib/i18n/config'
+import { absoluteUrl, articlePath } from '@/lib/seo/site'
+
+// schema.org NewsArticle for the article page, read by search engines for
+// rich results.
+export function newsArticleJsonLd(article: ArticleDetail, t: Dictionary): Record<string, unknown> {
+  const url = absoluteUrl(articlePath(article))
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    headline: article.title,
+    description: article.excerpt ?? undefined,
+    image: article.featured_image ? [absoluteUrl(article.featured_image)] : undefined,
+    datePublished: article.published_at ?? undefined,
+    dateModified: article.updated_at,
+    inLanguage: article.language,
+    url,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': url },
+    articleSection: article.categories?.name,
+    keywords: article.article_tags.map(({ tags }) => tags.name),
+    author: {
+      '@type': 'Person',
+      name: article.profiles?.full_name || t.site.staff,
+      url: absoluteUrl(localizePath(article.language, `/authors/${article.author_id}`))
+    },
+    publisher: {
+      '@type': 'Organization',
+      name: t.common.siteName,
+      url: absoluteUrl(localizePath(article.language, '/'))
+    }
+  }
+}
+
+// JSON for an inline <script>. Escaping "<" keeps article text from closing
+// the script element early.
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
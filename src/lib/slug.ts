@@ -0,0 +1,26 @@
+// lib/slug.ts
+
+// Keeps letters and digits from any script so Arabic titles still produce
+// readable slugs; everything else collapses into single dashes.
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+export function isValidSlug(value: string): boolean {
+  return /^[\p{Ll}\p{Lo}\p{N}]+(?:-[\p{Ll}\p{Lo}\p{N}]+)*$/u.test(value)
+}
+
+// Page params arrive percent-encoded, so Arabic slugs need decoding. A
+// malformed escape decodes to an empty string, which is never a valid slug.
+export function decodeSlugParam(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return ''
+  }
+}
@@ -0,0 +1,10 @@
+// lib/supabase/public.ts
+import { createClient } from '@supabase/supabase-js'
+
+// Cookie-less anon client for public, cacheable pages. Row level security
+// limits it to published content.
+export const publicSupabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  { auth: { persistSession: false } }
+)
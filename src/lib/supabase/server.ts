@@ -0,0 +1,24 @@
+// lib/supabase/server.ts
+import { cookies } from 'next/headers'
+import {
+  createRouteHandlerClient,
+  createServerActionClient,
+  createServerComponentClient
+} from '@supabase/auth-helpers-nextjs'
+
+// Cookie-bound clients for server code. Each request needs its own client,
+// so these are factories rather than shared instances like the browser
+// client. Server components can only read cookies; token refreshes are
+// written back by middleware.ts before the page renders.
+
+export function createServerSupabase() {
+  return createServerComponentClient({ cookies })
+}
+
+export function createRouteSupabase() {
+  return createRouteHandlerClient({ cookies })
+}
+
+export function createActionSupabase() {
+  return createServerActionClient({ cookies })
+}
@@ -0,0 +1,15 @@
+// lib/supabase/service.ts
+import { createClient } from '@supabase/supabase-js'
+
+// Service role client for trusted background jobs such as the scheduler.
+// It bypasses row level security, so it is only created in route handlers
+// that authenticate the caller themselves. Null when
+// SUPABASE_SERVICE_ROLE_KEY is not configured.
+export function createServiceSupabase() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) return null
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false }
+  })
+}
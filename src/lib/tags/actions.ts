@@ -0,0 +1,75 @@
+'use server'
+
+import type { Tag } from '@/lib/db/types'
+import type { TagInput } from '@/lib/db/schemas'
+import * as articlesDb from '@/lib/db/articles'
+import * as tagsDb from '@/lib/db/tags'
+import { canEditContent } from '@/lib/articles/workflow'
+import { requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+import { slugify } from '@/lib/slug'
+
+// The slug falls back to the slugified name when left blank.
+function tagFields(name: string, slug?: string): TagInput {
+  return { name, slug: slug?.trim() || slugify(name.trim()) }
+}
+
+export async function createTag(name: string, slug?: string): Promise<ActionResult<Tag>> {
+  const { actor, error: denied } = await requirePermission('tag:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const fields = tagFields(name, slug)
+  const { data, error } = await tagsDb.create(actor.supabase, fields)
+
+  if (error) return { data: null, error: dbError(error, 'tagSlugTaken') }
+  return { data, error: null }
+}
+
+export async function updateTag(id: string, name: string, slug?: string): Promise<ActionResult<Tag>> {
+  const { actor, error: denied } = await requirePermission('tag:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const fields = tagFields(name, slug)
+  const { data, error } = await tagsDb.update(actor.supabase, id, fields)
+
+  if (error) return { data: null, error: dbError(error, 'tagSlugTaken') }
+  return { data, error: null }
+}
+
+export async function deleteTag(id: string): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('tag:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const { error } = await tagsDb.remove(actor.supabase, id)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: null, error: null }
+}
+
+export async function mergeTags(sourceId: string, targetId: string): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('tag:manage')
+  if (!actor) return { data: null, error: denied }
+
+  if (sourceId === targetId) return { data: null, error: { code: 'tagMergeSelf' } }
+
+  const { error } = await tagsDb.merge(actor.supabase, sourceId, targetId)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: null, error: null }
+}
+
+// Replaces the full set of tags on an article. Like its text, the tags of
+// a published or archived article only change after it goes back to draft.
+export async function setArticleTags(articleId: string, tagIds: string[]): Promise<ActionResult> {
+  const { actor, error: denied } = await requirePermission('article:edit')
+  if (!actor) return { data: null, error: denied }
+
+  const { data: article, error: loadError } = await articlesDb.get(actor.supabase, articleId)
+  if (loadError) return { data: null, error: dbError(loadError) }
+  if (!canEditContent(article.status)) return { data: null, error: { code: 'articleLocked' } }
+
+  const { error } = await tagsDb.setArticleTags(actor.supabase, articleId, tagIds)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data: null, error: null }
+}
@@ -0,0 +1,18 @@
+'use server'
+
+import type { Profile, Role } from '@/lib/db/types'
+import * as profilesDb from '@/lib/db/profiles'
+import { requirePermission } from '@/lib/auth/actor'
+import { dbError, type ActionResult } from '@/lib/actions'
+
+// Changes another user's role. The database function refuses to demote the
+// last admin and records the change in role_changes.
+export async function changeUserRole(profileId: string, role: Role): Promise<ActionResult<Profile>> {
+  const { actor, error: denied } = await requirePermission('user:manage')
+  if (!actor) return { data: null, error: denied }
+
+  const { data, error } = await profilesDb.changeRole(actor.supabase, profileId, role)
+
+  if (error) return { data: null, error: dbError(error) }
+  return { data, error: null }
+}
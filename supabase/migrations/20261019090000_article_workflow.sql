@@ -0,0 +1,66 @@
+-- Enforce the editorial workflow for articles:
+--   draft -> review          editor, admin
+--   review -> draft          editor, admin
+--   review -> published      admin
+--   any -> archived          admin
+--   archived -> draft        admin
+-- New articles always start as drafts and published_at is stamped on publish.
+-- Keep in sync with src/lib/articles/workflow.ts.
+
+create or replace function public.enforce_article_status_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor_role text;
+begin
+  -- Service-role calls (no auth.uid()) are trusted.
+  if auth.uid() is null then
+    if new.status = 'published' and new.published_at is null then
+      new.published_at := now();
+    end if;
+    return new;
+  end if;
+
+  select role into actor_role from profiles where id = auth.uid();
+
+  if tg_op = 'INSERT' then
+    if actor_role not in ('editor', 'admin') then
+      raise exception 'Only editors and admins can create articles';
+    end if;
+    new.status := 'draft';
+    new.published_at := null;
+    return new;
+  end if;
+
+  if actor_role not in ('editor', 'admin') then
+    raise exception 'Only editors and admins can edit articles';
+  end if;
+
+  if new.status is distinct from old.status then
+    if not (
+      (old.status = 'draft' and new.status = 'review')
+      or (old.status = 'review' and new.status = 'draft')
+      or (actor_role = 'admin' and old.status = 'review' and new.status = 'published')
+      or (actor_role = 'admin' and old.status <> 'archived' and new.status = 'archived')
+      or (actor_role = 'admin' and old.status = 'archived' and new.status = 'draft')
+    ) then
+      raise exception 'Role % cannot move an article from % to %', actor_role, old.status, new.status;
+    end if;
+
+    if new.status = 'published' then
+      new.published_at := now();
+    end if;
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_status_transition on public.articles;
+create trigger articles_status_transition
+  before insert or update on public.articles
+  for each row execute function public.enforce_article_status_transition();
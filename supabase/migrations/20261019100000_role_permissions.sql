@@ -0,0 +1,35 @@
+-- Role checks for row level security. Mirrors ROLE_PERMISSIONS in
+-- src/lib/auth/permissions.ts.
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from profiles where id = auth.uid()
+$$;
+
+-- category:manage (admin)
+alter table public.categories enable row level security;
+
+drop policy if exists "Categories are readable by everyone" on public.categories;
+create policy "Categories are readable by everyone" on public.categories
+  for select using (true);
+
+drop policy if exists "Admins manage categories" on public.categories;
+create policy "Admins manage categories" on public.categories
+  for all using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- comment:moderate (editor, admin)
+drop policy if exists "Editors moderate comments" on public.comments;
+create policy "Editors moderate comments" on public.comments
+  for update using (public.current_user_role() in ('editor', 'admin'))
+  with check (public.current_user_role() in ('editor', 'admin'));
+
+-- analytics:view (editor, admin)
+drop policy if exists "Editors view analytics" on public.article_analytics;
+create policy "Editors view analytics" on public.article_analytics
+  for select using (public.current_user_role() in ('editor', 'admin'));
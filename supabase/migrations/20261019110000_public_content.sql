@@ -0,0 +1,49 @@
+-- Public read access for the reader-facing site, plus the article/tag join
+-- table used to show tags on article pages.
+
+create table if not exists public.article_tags (
+  article_id uuid not null references public.articles(id) on delete cascade,
+  tag_id uuid not null references public.tags(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (article_id, tag_id)
+);
+
+create index if not exists article_tags_tag_id_idx on public.article_tags(tag_id);
+
+alter table public.articles enable row level security;
+
+drop policy if exists "Published articles are readable by everyone" on public.articles;
+create policy "Published articles are readable by everyone" on public.articles
+  for select using (
+    status = 'published'
+    or author_id = auth.uid()
+    or public.current_user_role() in ('editor', 'admin')
+  );
+
+drop policy if exists "Editors write articles" on public.articles;
+create policy "Editors write articles" on public.articles
+  for all using (public.current_user_role() in ('editor', 'admin'))
+  with check (public.current_user_role() in ('editor', 'admin'));
+
+alter table public.tags enable row level security;
+
+drop policy if exists "Tags are readable by everyone" on public.tags;
+create policy "Tags are readable by everyone" on public.tags
+  for select using (true);
+
+alter table public.article_tags enable row level security;
+
+drop policy if exists "Tags of published articles are readable by everyone" on public.article_tags;
+create policy "Tags of published articles are readable by everyone" on public.article_tags
+  for select using (
+    exists (
+      select 1 from public.articles a
+      where a.id = article_id
+        and (a.status = 'published' or public.current_user_role() in ('editor', 'admin'))
+    )
+  );
+
+-- Author names and avatars are shown on article pages.
+drop policy if exists "Profiles are readable by everyone" on public.profiles;
+create policy "Profiles are readable by everyone" on public.profiles
+  for select using (true);
@@ -0,0 +1,9 @@
+-- Articles that share a translation_group_id are translations of each other.
+-- Every article starts in its own group; linking an Arabic article to an
+-- English one copies the English article's group id.
+
+alter table public.articles
+  add column if not exists translation_group_id uuid not null default gen_random_uuid();
+
+create unique index if not exists articles_translation_group_language_idx
+  on public.articles(translation_group_id, language);
@@ -0,0 +1,44 @@
+-- Threaded comments and the moderation workflow. Readers post comments as
+-- pending; editors approve or reject them; only approved comments are public.
+
+alter table public.comments
+  add column if not exists parent_id uuid references public.comments(id) on delete cascade;
+
+create index if not exists comments_article_id_idx on public.comments(article_id, created_at);
+create index if not exists comments_parent_id_idx on public.comments(parent_id);
+create index if not exists comments_status_idx on public.comments(status, created_at);
+
+alter table public.comments enable row level security;
+
+drop policy if exists "Approved comments are readable by everyone" on public.comments;
+create policy "Approved comments are readable by everyone" on public.comments
+  for select using (
+    status = 'approved'
+    or author_id = auth.uid()
+    or public.current_user_role() in ('editor', 'admin')
+  );
+
+drop policy if exists "Signed-in users post pending comments" on public.comments;
+create policy "Signed-in users post pending comments" on public.comments
+  for insert with check (
+    public.current_user_role() in ('editor', 'admin')
+    or (
+      auth.uid() = author_id
+      and status = 'pending'
+      and exists (
+        select 1 from public.articles a
+        where a.id = article_id and a.status = 'published'
+      )
+      and (
+        parent_id is null
+        or exists (
+          select 1 from public.comments p
+          where p.id = parent_id and p.article_id = comments.article_id and p.status = 'approved'
+        )
+      )
+    )
+  );
+
+drop policy if exists "Editors delete comments" on public.comments;
+create policy "Editors delete comments" on public.comments
+  for delete using (public.current_user_role() in ('editor', 'admin'));
@@ -0,0 +1,32 @@
+-- Tag management: unique slugs, editor write access and merging.
+
+create unique index if not exists tags_slug_key on public.tags(slug);
+
+drop policy if exists "Editors manage tags" on public.tags;
+create policy "Editors manage tags" on public.tags
+  for all using (public.current_user_role() in ('editor', 'admin'))
+  with check (public.current_user_role() in ('editor', 'admin'));
+
+drop policy if exists "Editors manage article tags" on public.article_tags;
+create policy "Editors manage article tags" on public.article_tags
+  for all using (public.current_user_role() in ('editor', 'admin'))
+  with check (public.current_user_role() in ('editor', 'admin'));
+
+-- Moves every article from the source tag to the target tag, then deletes the
+-- source. Runs with the caller's rights so the policies above apply.
+create or replace function public.merge_tags(source_id uuid, target_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  if source_id = target_id then
+    raise exception 'Cannot merge a tag into itself';
+  end if;
+
+  insert into public.article_tags (article_id, tag_id)
+  select article_id, target_id from public.article_tags where tag_id = source_id
+  on conflict do nothing;
+
+  delete from public.tags where id = source_id;
+end;
+$$;
@@ -0,0 +1,15 @@
+-- Category administration: unique slugs and atomic drag-and-drop reordering.
+
+create unique index if not exists categories_slug_key on public.categories(slug);
+
+-- Sets priority to each category's position in the given list (1-based).
+-- Runs with the caller's rights so only admins can reorder.
+create or replace function public.reorder_categories(category_ids uuid[])
+returns void
+language sql
+as $$
+  update public.categories c
+  set priority = ordered.position
+  from unnest(category_ids) with ordinality as ordered(id, position)
+  where c.id = ordered.id;
+$$;
@@ -0,0 +1,63 @@
+-- Page view and share tracking. Events are aggregated per article per day in
+-- article_analytics; repeat views from the same browser session on the same
+-- day are counted once.
+
+create unique index if not exists article_analytics_article_date_key
+  on public.article_analytics(article_id, date);
+
+create table if not exists public.article_view_sessions (
+  article_id uuid not null references public.articles(id) on delete cascade,
+  session_id text not null,
+  date date not null default current_date,
+  primary key (article_id, session_id, date)
+);
+
+-- Only reachable through record_article_event
+alter table public.article_view_sessions enable row level security;
+
+create or replace function public.record_article_event(
+  p_article_id uuid,
+  p_event text,
+  p_session_id text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  counted boolean := true;
+begin
+  if p_event not in ('view', 'share') then
+    raise exception 'Unknown analytics event %', p_event;
+  end if;
+
+  if not exists (select 1 from articles where id = p_article_id and status = 'published') then
+    return false;
+  end if;
+
+  if p_event = 'view' then
+    insert into article_view_sessions (article_id, session_id)
+    values (p_article_id, p_session_id)
+    on conflict do nothing;
+    counted := found;
+  end if;
+
+  if counted then
+    insert into article_analytics (article_id, date, views, shares)
+    values (
+      p_article_id,
+      current_date,
+      case when p_event = 'view' then 1 else 0 end,
+      case when p_event = 'share' then 1 else 0 end
+    )
+    on conflict (article_id, date) do update set
+      views = article_analytics.views + excluded.views,
+      shares = article_analytics.shares + excluded.shares;
+  end if;
+
+  return counted;
+end;
+$$;
+
+grant execute on function public.record_article_event(uuid, text, text) to anon, authenticated;
@@ -0,0 +1,33 @@
+-- Profile editing and avatar uploads.
+
+-- Users edit their own name and avatar. The role column must stay as it
+-- is; current_user_role() reads the row as it was before the update.
+drop policy if exists "Users update their own profile" on public.profiles;
+create policy "Users update their own profile" on public.profiles
+  for update using (id = auth.uid())
+  with check (id = auth.uid() and role = public.current_user_role());
+
+-- Avatars are public images stored under a folder named after the owner's
+-- user id, e.g. avatars/<uid>/1760000000000.webp
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('avatars', 'avatars', true, 1048576, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do nothing;
+
+drop policy if exists "Avatars are readable by everyone" on storage.objects;
+create policy "Avatars are readable by everyone" on storage.objects
+  for select using (bucket_id = 'avatars');
+
+drop policy if exists "Users upload their own avatar" on storage.objects;
+create policy "Users upload their own avatar" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users replace their own avatar" on storage.objects;
+create policy "Users replace their own avatar" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users delete their own avatar" on storage.objects;
+create policy "Users delete their own avatar" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,76 @@
+-- User administration: audited role changes that can never leave the site
+-- without an admin.
+
+create table if not exists public.role_changes (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles(id) on delete cascade,
+  changed_by uuid references public.profiles(id) on delete set null,
+  old_role text not null,
+  new_role text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists role_changes_created_at_idx on public.role_changes(created_at desc);
+
+-- user:manage (admin). Rows are only written by change_user_role below.
+alter table public.role_changes enable row level security;
+
+drop policy if exists "Admins read role changes" on public.role_changes;
+create policy "Admins read role changes" on public.role_changes
+  for select using (public.current_user_role() = 'admin');
+
+-- Changes a user's role and records who did it. Runs as definer because
+-- users cannot update roles through the profiles policies; the admin check
+-- happens here instead. Admin rows are locked so two admins demoting each
+-- other at the same time cannot both succeed.
+create or replace function public.change_user_role(p_profile_id uuid, p_role text)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target profiles;
+  previous_role text;
+  admin_count integer;
+begin
+  if current_user_role() is distinct from 'admin' then
+    raise exception 'Only admins can change roles' using errcode = '42501';
+  end if;
+
+  if p_role not in ('reader', 'editor', 'admin') then
+    raise exception 'Unknown role %', p_role using errcode = '22023';
+  end if;
+
+  perform 1 from profiles where role = 'admin' for update;
+
+  select * into target from profiles where id = p_profile_id for update;
+  if not found then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+
+  if target.role = p_role then
+    return target;
+  end if;
+
+  if target.role = 'admin' then
+    select count(*) into admin_count from profiles where role = 'admin';
+    if admin_count <= 1 then
+      raise exception 'Cannot demote the last admin';
+    end if;
+  end if;
+
+  previous_role := target.role;
+
+  update profiles set role = p_role, updated_at = now()
+  where id = p_profile_id
+  returning * into target;
+
+  insert into role_changes (profile_id, changed_by, old_role, new_role)
+  values (p_profile_id, auth.uid(), previous_role, p_role);
+
+  return target;
+end;
+$$;
+
+grant execute on function public.change_user_role(uuid, text) to authenticated;
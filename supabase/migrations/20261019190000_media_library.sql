@@ -0,0 +1,57 @@
+-- Media library: images uploaded by editors, with alt text and captions,
+-- that articles can use as their featured image.
+
+create table if not exists public.media_assets (
+  id uuid primary key default gen_random_uuid(),
+  path text not null unique,
+  url text not null,
+  file_name text not null,
+  mime_type text not null,
+  size_bytes integer not null,
+  width integer,
+  height integer,
+  alt_text text,
+  caption text,
+  uploaded_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists media_assets_created_at_idx on public.media_assets(created_at desc);
+
+-- featured_image keeps the URL so existing articles and pasted links still
+-- work; featured_media_id points at the library entry it came from, if any.
+alter table public.articles
+  add column if not exists featured_media_id uuid references public.media_assets(id) on delete set null;
+
+-- media:manage (editor, admin). Alt text and captions are shown on public
+-- article pages, so rows are readable by everyone.
+alter table public.media_assets enable row level security;
+
+drop policy if exists "Media is readable by everyone" on public.media_assets;
+create policy "Media is readable by everyone" on public.media_assets
+  for select using (true);
+
+drop policy if exists "Editors manage media" on public.media_assets;
+create policy "Editors manage media" on public.media_assets
+  for all using (public.current_user_role() in ('editor', 'admin'))
+  with check (public.current_user_role() in ('editor', 'admin'));
+
+-- Files live in a public bucket, e.g. media/2026/10/<uuid>.jpg
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('media', 'media', true, 5242880, array['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'])
+on conflict (id) do nothing;
+
+drop policy if exists "Media files are readable by everyone" on storage.objects;
+create policy "Media files are readable by everyone" on storage.objects
+  for select using (bucket_id = 'media');
+
+drop policy if exists "Editors upload media files" on storage.objects;
+create policy "Editors upload media files" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'media' and public.current_user_role() in ('editor', 'admin'));
+
+drop policy if exists "Editors delete media files" on storage.objects;
+create policy "Editors delete media files" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'media' and public.current_user_role() in ('editor', 'admin'));
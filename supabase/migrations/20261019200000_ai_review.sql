@@ -0,0 +1,28 @@
+-- AI-assisted drafting. Articles written or changed by an AI provider are
+-- flagged with ai_generated and cannot be published until an editor has
+-- acknowledged that they reviewed the content.
+
+alter table public.articles
+  add column if not exists ai_reviewed_at timestamptz,
+  add column if not exists ai_reviewed_by uuid references public.profiles(id) on delete set null;
+
+create or replace function public.require_ai_review()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'published'
+    and old.status is distinct from 'published'
+    and new.ai_generated
+    and new.ai_reviewed_at is null then
+    raise exception 'AI-generated content must be reviewed before publishing';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_require_ai_review on public.articles;
+create trigger articles_require_ai_review
+  before update on public.articles
+  for each row execute function public.require_ai_review();
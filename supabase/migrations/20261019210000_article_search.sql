@@ -0,0 +1,184 @@
+-- Full-text search over article titles, tags, excerpts and content. Each
+-- article is indexed with the text search configuration of its own
+-- language, so English words are stemmed as English and Arabic words with
+-- the Arabic stemmer, which also folds diacritics and alef variants.
+
+create or replace function public.article_search_config(p_language text)
+returns regconfig
+language sql
+immutable
+as $$
+  select case p_language when 'ar' then 'arabic'::regconfig else 'english'::regconfig end
+$$;
+
+create or replace function public.article_search_vector(
+  p_article_id uuid,
+  p_title text,
+  p_excerpt text,
+  p_content text,
+  p_language text
+)
+returns tsvector
+language sql
+stable
+set search_path = public
+as $$
+  select
+    setweight(to_tsvector(article_search_config(p_language), coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector(article_search_config(p_language), coalesce((
+      select string_agg(t.name, ' ')
+      from article_tags at
+      join tags t on t.id = at.tag_id
+      where at.article_id = p_article_id
+    ), '')), 'B') ||
+    setweight(to_tsvector(article_search_config(p_language), coalesce(p_excerpt, '')), 'B') ||
+    setweight(to_tsvector(article_search_config(p_language), coalesce(p_content, '')), 'C')
+$$;
+
+alter table public.articles add column if not exists search_vector tsvector;
+
+create index if not exists articles_search_vector_idx on public.articles using gin(search_vector);
+
+create or replace function public.update_article_search_vector()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.search_vector := article_search_vector(new.id, new.title, new.excerpt, new.content, new.language);
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_search_vector on public.articles;
+create trigger articles_search_vector
+  before insert or update of title, excerpt, content, language on public.articles
+  for each row execute function public.update_article_search_vector();
+
+-- Tags are part of the document, so tagging, untagging and renaming a tag
+-- re-index the affected articles. Setting title to itself is enough to run
+-- the trigger above.
+create or replace function public.reindex_tagged_articles()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'article_tags' then
+    update articles set title = title
+    where id = coalesce(new.article_id, old.article_id);
+  else
+    update articles set title = title
+    where id in (select article_id from article_tags where tag_id = new.id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists article_tags_search_vector on public.article_tags;
+create trigger article_tags_search_vector
+  after insert or delete on public.article_tags
+  for each row execute function public.reindex_tagged_articles();
+
+drop trigger if exists tags_search_vector on public.tags;
+create trigger tags_search_vector
+  after update of name on public.tags
+  for each row execute function public.reindex_tagged_articles();
+
+-- Index existing articles without touching their updated_at
+alter table public.articles disable trigger articles_status_transition;
+update public.articles
+set search_vector = public.article_search_vector(id, title, excerpt, content, language);
+alter table public.articles enable trigger articles_status_transition;
+
+-- One page of matching articles, best matches first. Runs with the caller's
+-- rights, so readers only ever find published articles. Matches in the
+-- highlighted title and snippet are wrapped in chr(2) ... chr(3), which the
+-- app turns into <mark> elements without rendering any HTML.
+create or replace function public.search_articles(
+  p_query text,
+  p_language text default null,
+  p_category_id uuid default null,
+  p_status text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  slug text,
+  excerpt text,
+  language text,
+  status text,
+  category_id uuid,
+  category_name text,
+  category_slug text,
+  published_at timestamptz,
+  created_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  with queries as (
+    select
+      websearch_to_tsquery('english', p_query) as en,
+      websearch_to_tsquery('arabic', p_query) as ar
+  ),
+  matches as (
+    select
+      a.*,
+      case a.language when 'ar' then q.ar else q.en end as query,
+      count(*) over () as total
+    from articles a
+    cross join queries q
+    where ((a.language = 'ar' and a.search_vector @@ q.ar) or (a.language <> 'ar' and a.search_vector @@ q.en))
+      and (p_language is null or a.language = p_language)
+      and (p_category_id is null or a.category_id = p_category_id)
+      and (p_status is null or a.status = p_status)
+      and (p_from is null or coalesce(a.published_at, a.created_at) >= p_from)
+      and (p_to is null or coalesce(a.published_at, a.created_at) < p_to)
+  ),
+  page as (
+    select m.*, ts_rank_cd(m.search_vector, m.query) as rank
+    from matches m
+    order by rank desc, coalesce(m.published_at, m.created_at) desc
+    limit p_limit offset p_offset
+  )
+  select
+    p.id,
+    p.title,
+    p.slug,
+    p.excerpt,
+    p.language,
+    p.status,
+    p.category_id,
+    c.name,
+    c.slug,
+    p.published_at,
+    p.created_at,
+    p.rank,
+    ts_headline(
+      article_search_config(p.language),
+      p.title,
+      p.query,
+      'HighlightAll=true, StartSel="' || chr(2) || '", StopSel="' || chr(3) || '"'
+    ),
+    ts_headline(
+      article_search_config(p.language),
+      -- Markdown punctuation reads as noise in a snippet
+      concat_ws(' ', p.excerpt, regexp_replace(coalesce(p.content, ''), '[#*_>`|\[\]]+', ' ', 'g')),
+      p.query,
+      'MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … ", StartSel="' || chr(2) || '", StopSel="' || chr(3) || '"'
+    ),
+    p.total
+  from page p
+  left join categories c on c.id = p.category_id
+  order by p.rank desc, coalesce(p.published_at, p.created_at) desc
+$$;
@@ -0,0 +1,80 @@
+-- Scheduled publishing and archiving. Admins can set publish_at on an
+-- article in review and archive_at on any article that is not archived yet;
+-- run_article_schedule() flips due articles and is called by the scheduler
+-- route (src/app/api/scheduler/route.ts) with the service role key.
+
+alter table public.articles
+  add column if not exists publish_at timestamptz,
+  add column if not exists archive_at timestamptz;
+
+alter table public.articles drop constraint if exists articles_schedule_order;
+alter table public.articles add constraint articles_schedule_order
+  check (publish_at is null or archive_at is null or archive_at > publish_at);
+
+create index if not exists articles_publish_at_idx on public.articles(publish_at) where publish_at is not null;
+create index if not exists articles_archive_at_idx on public.articles(archive_at) where archive_at is not null;
+
+-- Only admins (article:publish, article:archive) can change a schedule.
+-- A schedule is cleared once the article reaches the scheduled status,
+-- whether the scheduler or a person moved it there.
+create or replace function public.enforce_article_schedule()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+    and (new.publish_at is distinct from old.publish_at or new.archive_at is distinct from old.archive_at)
+    and current_user_role() is distinct from 'admin' then
+    raise exception 'Only admins can schedule articles';
+  end if;
+
+  if new.status = 'published' then
+    new.publish_at := null;
+  elsif new.status = 'archived' then
+    new.publish_at := null;
+    new.archive_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_schedule on public.articles;
+create trigger articles_schedule
+  before update on public.articles
+  for each row execute function public.enforce_article_schedule();
+
+-- Publishes articles in review whose publish_at has passed and archives
+-- published articles whose archive_at has passed. Unreviewed AI content is
+-- left in review, as require_ai_review would reject it. Returns how many
+-- articles moved.
+create or replace function public.run_article_schedule()
+returns table (published integer, archived integer)
+language plpgsql
+set search_path = public
+as $$
+declare
+  published_count integer;
+  archived_count integer;
+begin
+  update articles
+  set status = 'published', published_at = publish_at
+  where status = 'review'
+    and publish_at <= now()
+    and (not ai_generated or ai_reviewed_at is not null);
+  get diagnostics published_count = row_count;
+
+  update articles
+  set status = 'archived'
+  where status = 'published'
+    and archive_at <= now();
+  get diagnostics archived_count = row_count;
+
+  return query select published_count, archived_count;
+end;
+$$;
+
+revoke execute on function public.run_article_schedule() from public, anon, authenticated;
+grant execute on function public.run_article_schedule() to service_role;
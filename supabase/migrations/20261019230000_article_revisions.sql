@@ -0,0 +1,58 @@
+-- Article revision history. Every insert, and every update that changes the
+-- title, excerpt or content, stores a copy of those fields with the user who
+-- made the change. Revisions are written only by the trigger and never
+-- change afterwards.
+
+create table if not exists public.article_revisions (
+  id uuid primary key default gen_random_uuid(),
+  article_id uuid not null references public.articles(id) on delete cascade,
+  title text not null,
+  excerpt text,
+  content text,
+  author_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists article_revisions_article_idx on public.article_revisions(article_id, created_at desc);
+
+-- article:edit (editor, admin)
+alter table public.article_revisions enable row level security;
+
+drop policy if exists "Editors read revisions" on public.article_revisions;
+create policy "Editors read revisions" on public.article_revisions
+  for select using (public.current_user_role() in ('editor', 'admin'));
+
+-- Runs as definer so revisions can be recorded without an insert policy.
+-- Service-role changes (the scheduler) have no user and are credited to the
+-- article's author.
+create or replace function public.record_article_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.title is not distinct from old.title
+    and new.excerpt is not distinct from old.excerpt
+    and new.content is not distinct from old.content then
+    return new;
+  end if;
+
+  insert into article_revisions (article_id, title, excerpt, content, author_id)
+  values (new.id, new.title, new.excerpt, new.content, coalesce(auth.uid(), new.author_id));
+
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_record_revision on public.articles;
+create trigger articles_record_revision
+  after insert or update on public.articles
+  for each row execute function public.record_article_revision();
+
+-- Existing articles start their history with their current text
+insert into public.article_revisions (article_id, title, excerpt, content, author_id, created_at)
+select a.id, a.title, a.excerpt, a.content, a.author_id, a.updated_at
+from public.articles a
+where not exists (select 1 from public.article_revisions r where r.article_id = a.id);
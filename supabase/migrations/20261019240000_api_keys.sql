@@ -0,0 +1,101 @@
+-- API keys for the public read-only REST API (/api/v1). Only a SHA-256 hash
+-- of each key is stored; the key itself is shown once, when it is created.
+-- use_api_key() checks a key and counts the request against the key's
+-- per-minute rate limit.
+
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(name) between 1 and 100),
+  -- First characters of the key, so admins can tell keys apart
+  key_prefix text not null,
+  key_hash text not null unique,
+  rate_limit integer not null default 60 check (rate_limit between 1 and 10000),
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+-- Requests per key in one-minute windows. Only use_api_key() touches it.
+create table if not exists public.api_key_usage (
+  key_id uuid not null references public.api_keys(id) on delete cascade,
+  window_start timestamptz not null,
+  requests integer not null default 0,
+  primary key (key_id, window_start)
+);
+
+-- api:manage (admin)
+alter table public.api_keys enable row level security;
+alter table public.api_key_usage enable row level security;
+
+drop policy if exists "Admins read API keys" on public.api_keys;
+create policy "Admins read API keys" on public.api_keys
+  for select using (public.current_user_role() = 'admin');
+
+drop policy if exists "Admins create API keys" on public.api_keys;
+create policy "Admins create API keys" on public.api_keys
+  for insert with check (public.current_user_role() = 'admin' and created_by = auth.uid());
+
+drop policy if exists "Admins update API keys" on public.api_keys;
+create policy "Admins update API keys" on public.api_keys
+  for update using (public.current_user_role() = 'admin');
+
+-- Keys are revoked rather than changed, and a revoked key stays revoked
+create or replace function public.protect_api_key()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.key_hash is distinct from old.key_hash or new.key_prefix is distinct from old.key_prefix then
+    raise exception 'API keys cannot be changed';
+  end if;
+  if old.revoked_at is not null and new.revoked_at is distinct from old.revoked_at then
+    raise exception 'A revoked API key cannot be restored';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists api_keys_protect on public.api_keys;
+create trigger api_keys_protect
+  before update on public.api_keys
+  for each row execute function public.protect_api_key();
+
+-- Looks up an active key by hash and counts one request in the current
+-- window. Returns no row for an unknown or revoked key. Runs as definer so
+-- the anon client used by the API routes can call it without reading
+-- api_keys.
+create or replace function public.use_api_key(p_key_hash text)
+returns table (key_id uuid, rate_limit integer, requests integer, reset_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  found_key api_keys%rowtype;
+  current_window timestamptz := date_trunc('minute', now());
+  request_count integer;
+begin
+  select * into found_key from api_keys k where k.key_hash = p_key_hash and k.revoked_at is null;
+  if not found then
+    return;
+  end if;
+
+  insert into api_key_usage as u (key_id, window_start, requests)
+  values (found_key.id, current_window, 1)
+  on conflict on constraint api_key_usage_pkey do update set requests = u.requests + 1
+  returning u.requests into request_count;
+
+  -- Earlier windows are never read again
+  delete from api_key_usage u where u.key_id = found_key.id and u.window_start < current_window;
+
+  update api_keys k set last_used_at = now() where k.id = found_key.id;
+
+  return query select found_key.id, found_key.rate_limit, request_count, current_window + interval '1 minute';
+end;
+$$;
+
+revoke execute on function public.use_api_key(text) from public;
+grant execute on function public.use_api_key(text) to anon, authenticated, service_role;
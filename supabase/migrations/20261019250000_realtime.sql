@@ -0,0 +1,21 @@
+-- Realtime change events for articles and comments, used by the dashboard
+-- to refresh lists and counts and to tell authors when their articles
+-- change status. Subscribers only receive rows their select policies allow.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'articles'
+  ) then
+    alter publication supabase_realtime add table public.articles;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'comments'
+  ) then
+    alter publication supabase_realtime add table public.comments;
+  end if;
+end;
+$$;
@@ -0,0 +1,182 @@
+-- Notifications for authors, editors and admins. Triggers on articles and
+-- comments write one row per recipient for these events:
+--   review_requested   an article entered review   -> admins (article:publish)
+--   article_published  an article was published    -> its author
+--   comment_pending    a comment awaits moderation -> editors and admins (comment:moderate)
+--   comment_approved   a comment was approved      -> its author
+-- Nobody is notified of their own action. notification_preferences turns
+-- each event on or off per channel; without a row both channels are on.
+-- Emails are sent by the app (src/lib/notifications/delivery.ts), which
+-- claims rows whose email is pending.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  event text not null check (event in ('review_requested', 'article_published', 'comment_pending', 'comment_approved')),
+  article_id uuid references public.articles(id) on delete cascade,
+  comment_id uuid references public.comments(id) on delete cascade,
+  actor_id uuid references public.profiles(id) on delete set null,
+  -- False when the recipient only wants this event by email
+  in_app boolean not null default true,
+  -- Null when no email is wanted
+  email_status text check (email_status in ('pending', 'sending', 'sent', 'failed')),
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_idx on public.notifications(user_id, created_at desc) where in_app;
+create index if not exists notifications_email_idx on public.notifications(created_at) where email_status = 'pending';
+
+create table if not exists public.notification_preferences (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  event text not null check (event in ('review_requested', 'article_published', 'comment_pending', 'comment_approved')),
+  in_app boolean not null default true,
+  email boolean not null default true,
+  primary key (user_id, event)
+);
+
+-- Users read their own in-app notifications and can only mark them read.
+-- Rows are written by the triggers below.
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users read own notifications" on public.notifications;
+create policy "Users read own notifications" on public.notifications
+  for select using (user_id = auth.uid() and in_app);
+
+drop policy if exists "Users mark own notifications read" on public.notifications;
+create policy "Users mark own notifications read" on public.notifications
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+revoke update on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+alter table public.notification_preferences enable row level security;
+
+drop policy if exists "Users read own notification preferences" on public.notification_preferences;
+create policy "Users read own notification preferences" on public.notification_preferences
+  for select using (user_id = auth.uid());
+
+drop policy if exists "Users create own notification preferences" on public.notification_preferences;
+create policy "Users create own notification preferences" on public.notification_preferences
+  for insert with check (user_id = auth.uid());
+
+drop policy if exists "Users update own notification preferences" on public.notification_preferences;
+create policy "Users update own notification preferences" on public.notification_preferences
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Queues one notification, following the recipient's preferences
+create or replace function public.notify(p_user_id uuid, p_event text, p_article_id uuid, p_comment_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  wants_in_app boolean;
+  wants_email boolean;
+begin
+  if p_user_id is null or p_user_id = auth.uid() then
+    return;
+  end if;
+
+  select p.in_app, p.email into wants_in_app, wants_email
+  from notification_preferences p
+  where p.user_id = p_user_id and p.event = p_event;
+
+  wants_in_app := coalesce(wants_in_app, true);
+  wants_email := coalesce(wants_email, true);
+  if not wants_in_app and not wants_email then
+    return;
+  end if;
+
+  insert into notifications (user_id, event, article_id, comment_id, actor_id, in_app, email_status)
+  values (
+    p_user_id, p_event, p_article_id, p_comment_id, auth.uid(), wants_in_app,
+    case when wants_email then 'pending' end
+  );
+end;
+$$;
+
+revoke execute on function public.notify(uuid, text, uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.notify_article_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if new.status = 'review' then
+    perform notify(p.id, 'review_requested', new.id, null) from profiles p where p.role = 'admin';
+  elsif new.status = 'published' then
+    perform notify(new.author_id, 'article_published', new.id, null);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_notify_status on public.articles;
+create trigger articles_notify_status
+  after update of status on public.articles
+  for each row execute function public.notify_article_status();
+
+create or replace function public.notify_comment_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.status = 'pending' then
+    perform notify(p.id, 'comment_pending', new.article_id, new.id) from profiles p where p.role in ('editor', 'admin');
+  elsif tg_op = 'UPDATE' and new.status = 'approved' and old.status is distinct from 'approved' then
+    perform notify(new.author_id, 'comment_approved', new.article_id, new.id);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_notify_status on public.comments;
+create trigger comments_notify_status
+  after insert or update of status on public.comments
+  for each row execute function public.notify_comment_status();
+
+-- Marks up to p_limit pending emails as sending and returns their ids.
+-- Rows locked by a concurrent run are skipped, so no email goes out twice.
+create or replace function public.claim_notification_emails(p_limit integer)
+returns setof uuid
+language sql
+set search_path = public
+as $$
+  update notifications n
+  set email_status = 'sending'
+  where n.id in (
+    select id from notifications
+    where email_status = 'pending'
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning n.id;
+$$;
+
+revoke execute on function public.claim_notification_emails(integer) from public, anon, authenticated;
+grant execute on function public.claim_notification_emails(integer) to service_role;
+
+-- The bell menu listens for new notifications
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+  ) then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
@@ -0,0 +1,241 @@
+-- Editorial review. While an article is in review, editors and admins can
+-- attach notes to ranges of its content. A reviewer (admin, article:publish)
+-- then records a decision: approve, or request changes, which sends the
+-- article back to draft with a reason. Publishing needs an approval from
+-- the current review round that is newer than the last change to the text.
+
+alter table public.articles
+  add column if not exists review_requested_at timestamptz;
+
+-- Articles already in review start their round now
+update public.articles set review_requested_at = now()
+where status = 'review' and review_requested_at is null;
+
+create table if not exists public.review_notes (
+  id uuid primary key default gen_random_uuid(),
+  article_id uuid not null references public.articles(id) on delete cascade,
+  author_id uuid references public.profiles(id) on delete set null,
+  -- Character offsets into articles.content when the note was written, and
+  -- the text they covered, used to find the range again after edits
+  range_start integer not null check (range_start >= 0),
+  range_end integer not null,
+  quote text not null,
+  body text not null check (char_length(body) between 1 and 2000),
+  resolved_at timestamptz,
+  resolved_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint review_notes_range_order check (range_end > range_start)
+);
+
+create index if not exists review_notes_article_idx on public.review_notes(article_id, range_start);
+
+create table if not exists public.article_reviews (
+  id uuid primary key default gen_random_uuid(),
+  article_id uuid not null references public.articles(id) on delete cascade,
+  reviewer_id uuid references public.profiles(id) on delete set null,
+  decision text not null check (decision in ('approved', 'changes_requested')),
+  reason text,
+  created_at timestamptz not null default now(),
+  constraint article_reviews_reason_required check (decision = 'approved' or char_length(trim(coalesce(reason, ''))) > 0)
+);
+
+create index if not exists article_reviews_article_idx on public.article_reviews(article_id, created_at desc);
+
+-- article:edit (editor, admin) reads and writes notes on articles in
+-- review; only the resolution of a note can change afterwards.
+alter table public.review_notes enable row level security;
+
+drop policy if exists "Editors read review notes" on public.review_notes;
+create policy "Editors read review notes" on public.review_notes
+  for select using (public.current_user_role() in ('editor', 'admin'));
+
+drop policy if exists "Editors add review notes" on public.review_notes;
+create policy "Editors add review notes" on public.review_notes
+  for insert with check (
+    public.current_user_role() in ('editor', 'admin')
+    and author_id = auth.uid()
+    and exists (select 1 from public.articles a where a.id = article_id and a.status = 'review')
+  );
+
+drop policy if exists "Editors resolve review notes" on public.review_notes;
+create policy "Editors resolve review notes" on public.review_notes
+  for update using (public.current_user_role() in ('editor', 'admin'))
+  with check (resolved_by is null or resolved_by = auth.uid());
+
+drop policy if exists "Authors delete own review notes" on public.review_notes;
+create policy "Authors delete own review notes" on public.review_notes
+  for delete using (author_id = auth.uid());
+
+revoke update on public.review_notes from anon, authenticated;
+grant update (resolved_at, resolved_by) on public.review_notes to authenticated;
+
+-- Decisions are read by editors and admins and recorded by admins
+-- (article:publish) on articles in review. They never change.
+alter table public.article_reviews enable row level security;
+
+drop policy if exists "Editors read review decisions" on public.article_reviews;
+create policy "Editors read review decisions" on public.article_reviews
+  for select using (public.current_user_role() in ('editor', 'admin'));
+
+drop policy if exists "Admins record review decisions" on public.article_reviews;
+create policy "Admins record review decisions" on public.article_reviews
+  for insert with check (
+    public.current_user_role() = 'admin'
+    and reviewer_id = auth.uid()
+    and exists (select 1 from public.articles a where a.id = article_id and a.status = 'review')
+  );
+
+-- Each move into review starts a new round
+create or replace function public.track_review_round()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'review' and old.status is distinct from 'review' then
+    new.review_requested_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_review_round on public.articles;
+create trigger articles_review_round
+  before update on public.articles
+  for each row execute function public.track_review_round();
+
+-- The approval that lets an article be published: the latest decision of
+-- the current review round, if it is an approval and the title, excerpt
+-- and content have not changed since (see article_revisions).
+create or replace function public.current_article_approval(p_article_id uuid)
+returns setof public.article_reviews
+language sql
+stable
+set search_path = public
+as $$
+  select r.*
+  from article_reviews r
+  join articles a on a.id = r.article_id
+  where r.article_id = p_article_id
+    and r.decision = 'approved'
+    and r.created_at >= a.review_requested_at
+    and not exists (
+      select 1 from article_reviews later
+      where later.article_id = r.article_id and later.created_at > r.created_at
+    )
+    and not exists (
+      select 1 from article_revisions v
+      where v.article_id = r.article_id and v.created_at > r.created_at
+    )
+$$;
+
+create or replace function public.require_article_approval()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'published'
+    and old.status is distinct from 'published'
+    and not exists (select 1 from current_article_approval(new.id)) then
+    raise exception 'Articles must be approved before publishing';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_require_approval on public.articles;
+create trigger articles_require_approval
+  before update on public.articles
+  for each row execute function public.require_article_approval();
+
+-- Records a changes_requested decision and sends the article back to draft
+-- in one step. Runs as the caller, so the policies and workflow triggers
+-- decide who may do it.
+create or replace function public.request_article_changes(p_article_id uuid, p_reason text)
+returns public.articles
+language plpgsql
+set search_path = public
+as $$
+declare
+  result articles;
+begin
+  if char_length(trim(coalesce(p_reason, ''))) = 0 then
+    raise exception 'A reason is required when requesting changes';
+  end if;
+
+  insert into article_reviews (article_id, reviewer_id, decision, reason)
+  values (p_article_id, auth.uid(), 'changes_requested', trim(p_reason));
+
+  update articles set status = 'draft'
+  where id = p_article_id and status = 'review'
+  returning * into result;
+
+  if not found then
+    raise exception 'Only articles in review can be sent back';
+  end if;
+
+  return result;
+end;
+$$;
+
+-- The scheduler only publishes approved articles; see 20261019220000.
+create or replace function public.run_article_schedule()
+returns table (published integer, archived integer)
+language plpgsql
+set search_path = public
+as $$
+declare
+  published_count integer;
+  archived_count integer;
+begin
+  update articles
+  set status = 'published', published_at = publish_at
+  where status = 'review'
+    and publish_at <= now()
+    and (not ai_generated or ai_reviewed_at is not null)
+    and exists (select 1 from current_article_approval(articles.id));
+  get diagnostics published_count = row_count;
+
+  update articles
+  set status = 'archived'
+  where status = 'published'
+    and archive_at <= now();
+  get diagnostics archived_count = row_count;
+
+  return query select published_count, archived_count;
+end;
+$$;
+
+revoke execute on function public.run_article_schedule() from public, anon, authenticated;
+grant execute on function public.run_article_schedule() to service_role;
+
+-- Authors hear about requested changes (see 20261019260000_notifications)
+alter table public.notifications drop constraint if exists notifications_event_check;
+alter table public.notifications add constraint notifications_event_check
+  check (event in ('review_requested', 'article_published', 'comment_pending', 'comment_approved', 'changes_requested'));
+
+alter table public.notification_preferences drop constraint if exists notification_preferences_event_check;
+alter table public.notification_preferences add constraint notification_preferences_event_check
+  check (event in ('review_requested', 'article_published', 'comment_pending', 'comment_approved', 'changes_requested'));
+
+create or replace function public.notify_review_decision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.decision = 'changes_requested' then
+    perform notify(a.author_id, 'changes_requested', a.id, null) from articles a where a.id = new.article_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists article_reviews_notify on public.article_reviews;
+create trigger article_reviews_notify
+  after insert on public.article_reviews
+  for each row execute function public.notify_review_decision();
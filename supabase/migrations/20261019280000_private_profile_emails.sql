@@ -0,0 +1,19 @@
+-- Profile rows hold email addresses, so they are no longer readable by
+-- everyone (see 20261019110000_public_content). Users read their own
+-- profile and staff read all of them; author names and avatars on public
+-- pages come from the public_profiles view, which leaves email out.
+
+drop policy if exists "Profiles are readable by everyone" on public.profiles;
+
+drop policy if exists "Profiles are readable by their owner and staff" on public.profiles;
+create policy "Profiles are readable by their owner and staff" on public.profiles
+  for select using (id = auth.uid() or public.current_user_role() in ('editor', 'admin'));
+
+-- Runs with the owner's rights, so it sees every profile despite the policy
+-- above; only the columns listed here are exposed.
+create or replace view public.public_profiles as
+  select id, full_name, avatar_url, created_at
+  from public.profiles;
+
+revoke all on public.public_profiles from anon, authenticated;
+grant select on public.public_profiles to anon, authenticated;
@@ -0,0 +1,30 @@
+-- Published and archived articles keep the text that was reviewed and
+-- approved. To change it, the article goes back to draft and through review
+-- again (see 20261019270000_editorial_review). Service-role calls are
+-- trusted, as in enforce_article_status_transition.
+-- Keep in sync with canEditContent in src/lib/articles/workflow.ts.
+
+create or replace function public.lock_published_content()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null
+    and old.status in ('published', 'archived')
+    and (
+      new.title is distinct from old.title
+      or new.slug is distinct from old.slug
+      or new.excerpt is distinct from old.excerpt
+      or new.content is distinct from old.content
+    ) then
+    raise exception 'Move the article back to draft before editing it';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists articles_lock_published_content on public.articles;
+create trigger articles_lock_published_content
+  before update on public.articles
+  for each row execute function public.lock_published_content();
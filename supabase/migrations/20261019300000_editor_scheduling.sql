@@ -0,0 +1,41 @@
+-- Editors can schedule articles too; approval still gates publishing (see
+-- 20261019270000_editorial_review). publish_at is only set on articles in
+-- review, and is cleared when an article goes back to draft, so it has to
+-- be scheduled again after the next submission. Replaces the function
+-- from 20261019220000_scheduled_publishing.
+-- Keep in sync with src/lib/articles/workflow.ts.
+
+create or replace function public.enforce_article_schedule()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+    and (new.publish_at is distinct from old.publish_at or new.archive_at is distinct from old.archive_at) then
+    if current_user_role() not in ('editor', 'admin') then
+      raise exception 'Only editors and admins can schedule articles';
+    end if;
+    if new.publish_at is distinct from old.publish_at and new.publish_at is not null and new.status <> 'review' then
+      raise exception 'Only articles in review can be scheduled for publishing';
+    end if;
+  end if;
+
+  if new.status = 'published' then
+    new.publish_at := null;
+  elsif new.status = 'archived' then
+    new.publish_at := null;
+    new.archive_at := null;
+  elsif new.status = 'draft' then
+    new.publish_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Drafts scheduled under the old rules would publish as soon as they are
+-- submitted after their time has passed
+update public.articles set publish_at = null
+where status = 'draft' and publish_at is not null;
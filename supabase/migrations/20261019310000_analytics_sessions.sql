@@ -0,0 +1,55 @@
+-- Analytics events are only recorded through the /api/analytics route,
+-- which calls record_article_event with the service role and a session id
+-- it signs itself. Callers could previously pick any session id and count
+-- as many views as they liked. Shares are now counted once per session and
+-- day as well. Replaces the function from 20261019160000_analytics_tracking.
+
+alter table public.article_view_sessions
+  add column if not exists event text not null default 'view' check (event in ('view', 'share'));
+
+alter table public.article_view_sessions drop constraint if exists article_view_sessions_pkey;
+alter table public.article_view_sessions add primary key (article_id, session_id, date, event);
+
+create or replace function public.record_article_event(
+  p_article_id uuid,
+  p_event text,
+  p_session_id text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_event not in ('view', 'share') then
+    raise exception 'Unknown analytics event %', p_event;
+  end if;
+
+  if not exists (select 1 from articles where id = p_article_id and status = 'published') then
+    return false;
+  end if;
+
+  insert into article_view_sessions (article_id, session_id, event)
+  values (p_article_id, p_session_id, p_event)
+  on conflict do nothing;
+  if not found then
+    return false;
+  end if;
+
+  insert into article_analytics (article_id, date, views, shares)
+  values (
+    p_article_id,
+    current_date,
+    case when p_event = 'view' then 1 else 0 end,
+    case when p_event = 'share' then 1 else 0 end
+  )
+  on conflict (article_id, date) do update set
+    views = article_analytics.views + excluded.views,
+    shares = article_analytics.shares + excluded.shares;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.record_article_event(uuid, text, text) from public, anon, authenticated;
+grant execute on function public.record_article_event(uuid, text, text) to service_role;
@@ -0,0 +1,64 @@
+-- Aggregates for the analytics dashboard, computed in the database. The
+-- dashboard used to fetch every daily row in the range and add them up in
+-- the browser, which went wrong once PostgREST's row limit cut the list
+-- short. These run as the caller, so the article_analytics policies apply.
+
+create or replace function public.analytics_totals(p_from date, p_to date)
+returns table (views integer, shares integer, articles integer)
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(a.views), 0)::integer, coalesce(sum(a.shares), 0)::integer, count(distinct a.article_id)::integer
+  from article_analytics a
+  where a.date between p_from and p_to
+$$;
+
+-- Days without events are left out; the dashboard fills them in.
+create or replace function public.analytics_daily(p_from date, p_to date)
+returns table (date date, views integer, shares integer)
+language sql
+stable
+set search_path = public
+as $$
+  select a.date, sum(a.views)::integer, sum(a.shares)::integer
+  from article_analytics a
+  where a.date between p_from and p_to
+  group by a.date
+  order by a.date
+$$;
+
+-- The articles with the most views or shares, skipping those with none.
+create or replace function public.analytics_top_articles(p_from date, p_to date, p_metric text, p_limit integer)
+returns table (article_id uuid, title text, slug text, language text, views integer, shares integer)
+language sql
+stable
+set search_path = public
+as $$
+  select t.article_id, ar.title, ar.slug, ar.language::text, t.views, t.shares
+  from (
+    select a.article_id, sum(a.views)::integer as views, sum(a.shares)::integer as shares
+    from article_analytics a
+    where a.date between p_from and p_to
+    group by a.article_id
+  ) t
+  left join articles ar on ar.id = t.article_id
+  where (case when p_metric = 'shares' then t.shares else t.views end) > 0
+  order by case when p_metric = 'shares' then t.shares else t.views end desc, t.article_id
+  limit p_limit
+$$;
+
+create or replace function public.analytics_categories(p_from date, p_to date)
+returns table (category_id uuid, name text, views integer, shares integer)
+language sql
+stable
+set search_path = public
+as $$
+  select c.id, c.name, sum(a.views)::integer, sum(a.shares)::integer
+  from article_analytics a
+  left join articles ar on ar.id = a.article_id
+  left join categories c on c.id = ar.category_id
+  where a.date between p_from and p_to
+  group by c.id, c.name
+  order by 3 desc
+$$;
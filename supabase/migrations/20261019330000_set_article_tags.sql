@@ -0,0 +1,55 @@
+-- Replaces the tags of an article in one transaction, touching only the
+-- links that change, and re-indexes the article once instead of once per
+-- link (see reindex_tagged_articles in 20261019210000_article_search). Runs
+-- with the caller's rights so the article_tags policies apply.
+
+create or replace function public.reindex_tagged_articles()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  -- set_article_tags re-indexes once when it is done
+  if tg_table_name = 'article_tags' and current_setting('idel.setting_article_tags', true) = 'on' then
+    return null;
+  end if;
+
+  if tg_table_name = 'article_tags' then
+    update articles set title = title
+    where id = coalesce(new.article_id, old.article_id);
+  else
+    update articles set title = title
+    where id in (select article_id from article_tags where tag_id = new.id);
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.set_article_tags(p_article_id uuid, p_tag_ids uuid[])
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  removed integer;
+  added integer;
+begin
+  perform set_config('idel.setting_article_tags', 'on', true);
+
+  delete from article_tags
+  where article_id = p_article_id
+    and tag_id <> all(coalesce(p_tag_ids, '{}'));
+  get diagnostics removed = row_count;
+
+  insert into article_tags (article_id, tag_id)
+  select p_article_id, tag_id from unnest(coalesce(p_tag_ids, '{}')) as tag_id
+  on conflict do nothing;
+  get diagnostics added = row_count;
+
+  perform set_config('idel.setting_article_tags', 'off', true);
+
+  if removed + added > 0 then
+    update articles set title = title where id = p_article_id;
+  end if;
+end;
+$$;
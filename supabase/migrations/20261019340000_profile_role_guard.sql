@@ -0,0 +1,33 @@
+-- The policies on profiles and article_analytics assumed row level
+-- security was already on for these baseline tables; it is turned on here
+-- so they actually apply.
+--
+-- A new profile always starts as a reader. Without this, a signed-in user
+-- could insert their own profile row with any role before
+-- profilesDb.ensure ran. Service-role calls are trusted, as in
+-- lock_published_content.
+
+alter table public.profiles enable row level security;
+alter table public.article_analytics enable row level security;
+
+drop policy if exists "Users create their own profile" on public.profiles;
+create policy "Users create their own profile" on public.profiles
+  for insert with check (id = auth.uid());
+
+create or replace function public.default_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null then
+    new.role := 'reader';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_default_role on public.profiles;
+create trigger profiles_default_role
+  before insert on public.profiles
+  for each row execute function public.default_profile_role();
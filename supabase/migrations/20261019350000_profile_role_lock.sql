@@ -0,0 +1,33 @@
+-- Roles only change through change_user_role. The check in the "Users
+-- update their own profile" policy (20261019170000_profile_avatars) was
+-- not enough: permissive policies are combined with OR, so any other
+-- update policy on profiles let a user set their own role. A trigger
+-- applies whatever policies allow the update.
+--
+-- change_user_role runs as its owner, so updates made from it do not run
+-- as anon or authenticated. Service-role calls are trusted as well.
+
+create or replace function public.lock_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is distinct from old.role and current_user in ('anon', 'authenticated') then
+    raise exception 'Roles can only be changed by an admin' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_lock_role on public.profiles;
+create trigger profiles_lock_role
+  before update on public.profiles
+  for each row execute function public.lock_profile_role();
+
+-- The role is guarded by the trigger above, so the policy only limits
+-- users to their own row.
+drop policy if exists "Users update their own profile" on public.profiles;
+create policy "Users update their own profile" on public.profiles
+  for update using (id = auth.uid())
+  with check (id = auth.uid());
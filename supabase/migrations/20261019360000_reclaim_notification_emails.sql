@@ -0,0 +1,35 @@
+-- Emails claimed by a run that died before recording the outcome (the
+-- after() callback or the scheduler process was killed mid-batch) stayed
+-- in sending and were never retried. Claims are now timestamped and a
+-- claim older than the timeout is taken over by the next run. Replaces
+-- the function from 20261019260000_notifications.
+
+alter table public.notifications add column if not exists email_claimed_at timestamptz;
+
+drop index if exists public.notifications_email_idx;
+create index if not exists notifications_email_idx on public.notifications(created_at)
+  where email_status in ('pending', 'sending');
+
+-- Marks up to p_limit pending emails, and sending ones whose claim is
+-- older than 15 minutes, as sending and returns their ids. Rows locked by
+-- a concurrent run are skipped, so no email goes out twice.
+create or replace function public.claim_notification_emails(p_limit integer)
+returns setof uuid
+language sql
+set search_path = public
+as $$
+  update notifications n
+  set email_status = 'sending', email_claimed_at = now()
+  where n.id in (
+    select id from notifications
+    where email_status = 'pending'
+      or (email_status = 'sending' and coalesce(email_claimed_at, '-infinity') < now() - interval '15 minutes')
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning n.id;
+$$;
+
+revoke execute on function public.claim_notification_emails(integer) from public, anon, authenticated;
+grant execute on function public.claim_notification_emails(integer) to service_role;